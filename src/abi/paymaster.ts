@@ -0,0 +1,42 @@
+/**
+ * ABI of the Helixbox singleton paymaster, typed so viem and ethers can infer function and event arguments
+ */
+export const paymasterAbi = [
+  { inputs: [{ internalType: 'address', name: '_entryPoint', type: 'address' }, { internalType: 'address', name: '_owner', type: 'address' }, { internalType: 'address[]', name: '_signers', type: 'address[]' }], stateMutability: 'nonpayable', type: 'constructor' },
+  { inputs: [], name: 'ECDSAInvalidSignature', type: 'error' },
+  { inputs: [{ internalType: 'uint256', name: 'length', type: 'uint256' }], name: 'ECDSAInvalidSignatureLength', type: 'error' },
+  { inputs: [{ internalType: 'bytes32', name: 's', type: 'bytes32' }], name: 'ECDSAInvalidSignatureS', type: 'error' },
+  { inputs: [], name: 'ExchangeRateInvalid', type: 'error' },
+  { inputs: [{ internalType: 'address', name: 'owner', type: 'address' }], name: 'OwnableInvalidOwner', type: 'error' },
+  { inputs: [{ internalType: 'address', name: 'account', type: 'address' }], name: 'OwnableUnauthorizedAccount', type: 'error' },
+  { inputs: [], name: 'PaymasterAndDataLengthInvalid', type: 'error' },
+  { inputs: [], name: 'PaymasterConfigLengthInvalid', type: 'error' },
+  { inputs: [], name: 'PaymasterModeInvalid', type: 'error' },
+  { inputs: [], name: 'PaymasterSignatureLengthInvalid', type: 'error' },
+  { inputs: [{ internalType: 'string', name: 'msg', type: 'string' }], name: 'PostOpTransferFromFailed', type: 'error' },
+  { inputs: [], name: 'TokenAddressInvalid', type: 'error' },
+  { anonymous: false, inputs: [{ indexed: true, internalType: 'address', name: 'previousOwner', type: 'address' }, { indexed: true, internalType: 'address', name: 'newOwner', type: 'address' }], name: 'OwnershipTransferred', type: 'event' },
+  { anonymous: false, inputs: [{ indexed: false, internalType: 'address', name: 'signer', type: 'address' }], name: 'SignerAdded', type: 'event' },
+  { anonymous: false, inputs: [{ indexed: false, internalType: 'address', name: 'signer', type: 'address' }], name: 'SignerRemoved', type: 'event' },
+  { anonymous: false, inputs: [{ indexed: false, internalType: 'address', name: 'oldTreasury', type: 'address' }, { indexed: false, internalType: 'address', name: 'newTreasury', type: 'address' }], name: 'TreasuryUpdated', type: 'event' },
+  { anonymous: false, inputs: [{ indexed: true, internalType: 'bytes32', name: 'userOpHash', type: 'bytes32' }, { indexed: true, internalType: 'address', name: 'user', type: 'address' }, { indexed: false, internalType: 'uint8', name: 'paymasterMode', type: 'uint8' }, { indexed: false, internalType: 'address', name: 'token', type: 'address' }, { indexed: false, internalType: 'uint256', name: 'tokenAmountPaid', type: 'uint256' }, { indexed: false, internalType: 'uint256', name: 'exchangeRate', type: 'uint256' }], name: 'UserOperationSponsored', type: 'event' },
+  { inputs: [{ internalType: 'address', name: '_signer', type: 'address' }], name: 'addSigner', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ internalType: 'uint32', name: 'unstakeDelaySec', type: 'uint32' }], name: 'addStake', outputs: [], stateMutability: 'payable', type: 'function' },
+  { inputs: [], name: 'deposit', outputs: [], stateMutability: 'payable', type: 'function' },
+  { inputs: [], name: 'entryPoint', outputs: [{ internalType: 'contract IEntryPoint', name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ internalType: 'uint256', name: '_actualGasCost', type: 'uint256' }, { internalType: 'uint256', name: '_postOpGas', type: 'uint256' }, { internalType: 'uint256', name: '_actualUserOpFeePerGas', type: 'uint256' }, { internalType: 'uint256', name: '_exchangeRate', type: 'uint256' }], name: 'getCostInToken', outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }], stateMutability: 'pure', type: 'function' },
+  { inputs: [], name: 'getDeposit', outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ internalType: 'uint8', name: '_mode', type: 'uint8' }, { components: [{ internalType: 'address', name: 'sender', type: 'address' }, { internalType: 'uint256', name: 'nonce', type: 'uint256' }, { internalType: 'bytes', name: 'initCode', type: 'bytes' }, { internalType: 'bytes', name: 'callData', type: 'bytes' }, { internalType: 'bytes32', name: 'accountGasLimits', type: 'bytes32' }, { internalType: 'uint256', name: 'preVerificationGas', type: 'uint256' }, { internalType: 'bytes32', name: 'gasFees', type: 'bytes32' }, { internalType: 'bytes', name: 'paymasterAndData', type: 'bytes' }, { internalType: 'bytes', name: 'signature', type: 'bytes' }], internalType: 'struct PackedUserOperation', name: '_userOp', type: 'tuple' }], name: 'getHash', outputs: [{ internalType: 'bytes32', name: '', type: 'bytes32' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'owner', outputs: [{ internalType: 'address', name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ internalType: 'enum PostOpMode', name: 'mode', type: 'uint8' }, { internalType: 'bytes', name: 'context', type: 'bytes' }, { internalType: 'uint256', name: 'actualGasCost', type: 'uint256' }, { internalType: 'uint256', name: 'actualUserOpFeePerGas', type: 'uint256' }], name: 'postOp', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ internalType: 'address', name: '_signer', type: 'address' }], name: 'removeSigner', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [], name: 'renounceOwnership', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ internalType: 'address', name: '_treasury', type: 'address' }], name: 'setTreasury', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ internalType: 'address', name: 'account', type: 'address' }], name: 'signers', outputs: [{ internalType: 'bool', name: 'isValidSigner', type: 'bool' }], stateMutability: 'view', type: 'function' },
+  { inputs: [{ internalType: 'address', name: 'newOwner', type: 'address' }], name: 'transferOwnership', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [], name: 'treasury', outputs: [{ internalType: 'address', name: '', type: 'address' }], stateMutability: 'view', type: 'function' },
+  { inputs: [], name: 'unlockStake', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ components: [{ internalType: 'address', name: 'sender', type: 'address' }, { internalType: 'uint256', name: 'nonce', type: 'uint256' }, { internalType: 'bytes', name: 'initCode', type: 'bytes' }, { internalType: 'bytes', name: 'callData', type: 'bytes' }, { internalType: 'bytes32', name: 'accountGasLimits', type: 'bytes32' }, { internalType: 'uint256', name: 'preVerificationGas', type: 'uint256' }, { internalType: 'bytes32', name: 'gasFees', type: 'bytes32' }, { internalType: 'bytes', name: 'paymasterAndData', type: 'bytes' }, { internalType: 'bytes', name: 'signature', type: 'bytes' }], internalType: 'struct PackedUserOperation', name: 'userOp', type: 'tuple' }, { internalType: 'bytes32', name: 'userOpHash', type: 'bytes32' }, { internalType: 'uint256', name: 'maxCost', type: 'uint256' }], name: 'validatePaymasterUserOp', outputs: [{ internalType: 'bytes', name: 'context', type: 'bytes' }, { internalType: 'uint256', name: 'validationData', type: 'uint256' }], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ internalType: 'address payable', name: 'withdrawAddress', type: 'address' }], name: 'withdrawStake', outputs: [], stateMutability: 'nonpayable', type: 'function' },
+  { inputs: [{ internalType: 'address payable', name: 'withdrawAddress', type: 'address' }, { internalType: 'uint256', name: 'amount', type: 'uint256' }], name: 'withdrawTo', outputs: [], stateMutability: 'nonpayable', type: 'function' }
+] as const;
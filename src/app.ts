@@ -1,7 +1,8 @@
 import * as path from 'node:path';
 import AutoLoad, {AutoloadPluginOptions} from '@fastify/autoload';
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsync, FastifyServerOptions } from 'fastify';
 import { fileURLToPath } from 'node:url'
+import { LOG_REDACT_PATHS, serializeRequest } from './utils/logger.js';
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -12,7 +13,13 @@ export type AppOptions = {
 
 
 // Pass --options via CLI arguments in command to enable these options.
-const options: AppOptions = {
+// Callers may set X-Request-Id to trace a request through the logs; it is echoed on the reply.
+const options: AppOptions & FastifyServerOptions = {
+  requestIdHeader: 'x-request-id',
+  logger: {
+    redact: { paths: LOG_REDACT_PATHS, censor: '[redacted]' },
+    serializers: { req: serializeRequest }
+  }
 }
 
 const app: FastifyPluginAsync<AppOptions> = async (
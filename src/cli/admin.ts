@@ -0,0 +1,407 @@
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { ethers } from 'ethers';
+import { chainKey, PaymasterConfig } from '../config/index.js';
+import { loadConfig, resolveConfigPath } from '../config/loader.js';
+import { PaymasterService } from '../services/paymasterService.js';
+import { silentLogger } from '../utils/logger.js';
+
+/**
+ * A paymaster contract call prepared by an admin command
+ */
+export interface AdminTransaction {
+  method: string;
+  args: unknown[];
+  to: string;
+  /** Wei sent along, for payable calls */
+  value: bigint;
+  data: string;
+}
+
+/**
+ * Transaction batch in the JSON format of the Safe Transaction Builder
+ */
+export interface SafeTransactionBatch {
+  version: '1.0';
+  chainId: string;
+  createdAt: number;
+  meta: { name: string, description: string };
+  transactions: {
+    to: string;
+    value: string;
+    data: string;
+    contractMethod: { name: string, payable: boolean, inputs: { name: string, type: string, internalType: string }[] };
+    contractInputsValues: { [input: string]: string };
+  }[];
+}
+
+/**
+ * Where the CLI writes, replaced in tests
+ */
+export interface AdminIo {
+  stdout(text: string): void;
+  stderr(text: string): void;
+  env: NodeJS.ProcessEnv;
+}
+
+const ADMIN_KEY_VARIABLE = 'PAYMASTER_ADMIN_PRIVATE_KEY';
+
+const OPTIONS = {
+  config: { type: 'string' },
+  chain: { type: 'string' },
+  tenant: { type: 'string' },
+  'entry-point': { type: 'string' },
+  amount: { type: 'string' },
+  to: { type: 'string' },
+  'unstake-delay': { type: 'string' },
+  signer: { type: 'string', multiple: true },
+  treasury: { type: 'string' },
+  owner: { type: 'string' },
+  'dry-run': { type: 'boolean' },
+  safe: { type: 'string' },
+  help: { type: 'boolean', short: 'h' }
+} as const;
+
+type AdminOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS, allowPositionals: true }>>['values'];
+
+class UsageError extends Error { }
+
+function requireOption(options: AdminOptions, name: 'amount' | 'to' | 'unstake-delay' | 'treasury' | 'owner'): string {
+  const value = options[name];
+  if (value === undefined) {
+    throw new UsageError(`--${name} is required`);
+  }
+  return value;
+}
+
+function address(options: AdminOptions, name: 'to' | 'treasury' | 'owner'): string {
+  const value = requireOption(options, name);
+  if (!ethers.isAddress(value)) {
+    throw new UsageError(`--${name} must be an address, got ${value}`);
+  }
+  return ethers.getAddress(value);
+}
+
+function ether(options: AdminOptions): bigint {
+  try {
+    return ethers.parseEther(requireOption(options, 'amount'));
+  } catch (error) {
+    if (error instanceof UsageError) {
+      throw error;
+    }
+    throw new UsageError(`--amount must be an amount of ether, got ${options.amount}`);
+  }
+}
+
+interface AdminCommand {
+  /** Restricted to the contract owner */
+  ownerOnly: boolean;
+  usage: string;
+  /** Arguments and value of each call the command makes */
+  calls(options: AdminOptions): { args: unknown[], value: bigint }[];
+}
+
+/**
+ * Commands that change the contract, each calling the paymaster function of the same name
+ */
+const COMMANDS: { [name: string]: AdminCommand } = {
+  deposit: {
+    ownerOnly: false,
+    usage: '--amount <ether>',
+    calls: (options) => [{ args: [], value: ether(options) }]
+  },
+  withdrawTo: {
+    ownerOnly: true,
+    usage: '--to <address> --amount <ether>',
+    calls: (options) => [{ args: [address(options, 'to'), ether(options)], value: 0n }]
+  },
+  addStake: {
+    ownerOnly: true,
+    usage: '--unstake-delay <seconds> --amount <ether>',
+    calls: (options) => {
+      const delay = Number(requireOption(options, 'unstake-delay'));
+      if (!Number.isInteger(delay) || delay <= 0 || delay >= 2 ** 32) {
+        throw new UsageError(`--unstake-delay must be a positive number of seconds, got ${options['unstake-delay']}`);
+      }
+      return [{ args: [delay], value: ether(options) }];
+    }
+  },
+  unlockStake: {
+    ownerOnly: true,
+    usage: '',
+    calls: () => [{ args: [], value: 0n }]
+  },
+  withdrawStake: {
+    ownerOnly: true,
+    usage: '--to <address>',
+    calls: (options) => [{ args: [address(options, 'to')], value: 0n }]
+  },
+  addSigner: {
+    ownerOnly: true,
+    usage: '--signer <address> [--signer <address> ...]',
+    calls: (options) => signerCalls(options)
+  },
+  removeSigner: {
+    ownerOnly: true,
+    usage: '--signer <address> [--signer <address> ...]',
+    calls: (options) => signerCalls(options)
+  },
+  setTreasury: {
+    ownerOnly: true,
+    usage: '--treasury <address>',
+    calls: (options) => [{ args: [address(options, 'treasury')], value: 0n }]
+  },
+  transferOwnership: {
+    ownerOnly: true,
+    usage: '--owner <address>',
+    calls: (options) => [{ args: [address(options, 'owner')], value: 0n }]
+  }
+};
+
+function signerCalls(options: AdminOptions): { args: unknown[], value: bigint }[] {
+  if (!options.signer?.length) {
+    throw new UsageError('--signer is required');
+  }
+  return options.signer.map((signer) => {
+    if (!ethers.isAddress(signer)) {
+      throw new UsageError(`--signer must be an address, got ${signer}`);
+    }
+    return { args: [ethers.getAddress(signer)], value: 0n };
+  });
+}
+
+export const USAGE = `Usage: helixbox-paymaster admin <command> --chain <chainId> [options]
+
+Commands:
+${Object.entries(COMMANDS).map(([name, command]) => `  ${name} ${command.usage}`.trimEnd()).join('\n')}
+  status
+
+Options:
+  --chain <chainId>        Chain from the config file
+  --tenant <name>          Take the chain from this tenant rather than the top-level chains
+  --entry-point <address>  Paymaster serving this EntryPoint; defaults to the chain's first paymaster
+  --config <file>          Config file; defaults to PAYMASTER_CONFIG_FILE or paymaster.config.yaml
+  --dry-run                Print the calls' calldata instead of sending them
+  --safe <file>            Write the calls as a Safe Transaction Builder batch, or to stdout with -
+
+Transactions are sent from the key in ${ADMIN_KEY_VARIABLE}.
+`;
+
+/**
+ * Encode the calls an admin command makes against a paymaster contract
+ */
+export function buildAdminTransactions(
+  commandName: string,
+  options: AdminOptions,
+  contract: ethers.Contract
+): AdminTransaction[] {
+  const command = COMMANDS[commandName];
+  if (!command) {
+    throw new UsageError(`Unknown command: ${commandName}`);
+  }
+  return command.calls(options).map(({ args, value }) => ({
+    method: commandName,
+    args,
+    to: contract.target.toString(),
+    value,
+    data: contract.interface.encodeFunctionData(commandName, args)
+  }));
+}
+
+/**
+ * Shape transactions as a batch the Safe Transaction Builder can import
+ */
+export function toSafeBatch(chainId: string, transactions: AdminTransaction[], contract: ethers.Contract): SafeTransactionBatch {
+  return {
+    version: '1.0',
+    chainId,
+    createdAt: Date.now(),
+    meta: {
+      name: `Paymaster ${transactions.map((tx) => tx.method).join(', ')}`,
+      description: `helixbox-paymaster admin on chain ${chainId}`
+    },
+    transactions: transactions.map((tx) => {
+      const fragment = contract.interface.getFunction(tx.method)!;
+      return {
+        to: tx.to,
+        value: tx.value.toString(),
+        data: tx.data,
+        contractMethod: {
+          name: fragment.name,
+          payable: fragment.payable,
+          inputs: fragment.inputs.map((input) => ({ name: input.name, type: input.type, internalType: input.type }))
+        },
+        contractInputsValues: Object.fromEntries(fragment.inputs.map((input, i) => [input.name, String(tx.args[i])]))
+      };
+    })
+  };
+}
+
+/**
+ * Read-only view of each of the chain's paymasters: ownership, funding and whether the configured signers are registered
+ */
+async function readStatus(service: PaymasterService, chainId: string, tenant: string | undefined) {
+  const key = chainKey(chainId, tenant);
+  const funding = await service.getStatus(key);
+  const signers = await service.getSignerAddresses(key);
+
+  return {
+    chainId,
+    ...(tenant === undefined ? {} : { tenant }),
+    paymasters: await Promise.all(service.getPaymasterContracts(key).map(async ({ entryPoint, entryPointVersion, contract }) => {
+      const paymaster = funding.find((entry) => entry.entryPoint === entryPoint)!;
+      return {
+        paymaster: contract.target.toString(),
+        entryPoint,
+        entryPointVersion,
+        owner: await contract.owner(),
+        treasury: paymaster.treasury,
+        deposit: ethers.formatEther(paymaster.deposit),
+        stake: {
+          staked: paymaster.staked,
+          amount: ethers.formatEther(paymaster.stake),
+          unstakeDelaySec: paymaster.unstakeDelaySec,
+          withdrawTime: paymaster.withdrawTime
+        },
+        signers: await Promise.all(signers.map(async (signer) => ({
+          address: signer,
+          registered: await contract.signers(signer) as boolean
+        }))),
+        alerts: paymaster.alerts.map((alert) => alert.message)
+      };
+    }))
+  };
+}
+
+/**
+ * The part of the config the CLI needs: the one chain, without alert webhooks that a status read could fire,
+ * nor the API key and ledger stores
+ */
+function adminConfig(config: PaymasterConfig, chainId: string, tenant: string | undefined): PaymasterConfig | undefined {
+  const tenantConfig = tenant === undefined ? undefined : config.tenants?.[tenant];
+  const chainConfig = tenant === undefined ? config.chains[chainId] : tenantConfig?.chains[chainId];
+  if (!chainConfig) {
+    return undefined;
+  }
+  const chains = {
+    [chainId]: {
+      ...chainConfig,
+      monitor: chainConfig.monitor && { ...chainConfig.monitor, alertWebhookUrl: undefined }
+    }
+  };
+  return {
+    paymasterPrivateKey: config.paymasterPrivateKey,
+    signer: config.signer,
+    ...(tenant === undefined ? { chains } : { chains: {}, tenants: { [tenant]: { ...tenantConfig, chains } } })
+  };
+}
+
+function selectContract(service: PaymasterService, chainId: string, entryPoint: string | undefined): ethers.Contract {
+  const contracts = service.getPaymasterContracts(chainId);
+  if (entryPoint === undefined) {
+    return contracts[0].contract;
+  }
+  const match = ethers.isAddress(entryPoint)
+    ? contracts.find((candidate) => candidate.entryPoint === ethers.getAddress(entryPoint))
+    : undefined;
+  if (!match) {
+    throw new UsageError(`No paymaster for EntryPoint ${entryPoint} on chain ${chainId}`);
+  }
+  return match.contract;
+}
+
+async function send(
+  service: PaymasterService,
+  chainId: string,
+  command: AdminCommand,
+  contract: ethers.Contract,
+  transactions: AdminTransaction[],
+  io: AdminIo
+): Promise<void> {
+  const privateKey = io.env[ADMIN_KEY_VARIABLE];
+  if (!privateKey) {
+    throw new UsageError(`Set ${ADMIN_KEY_VARIABLE} to send transactions, or use --dry-run or --safe`);
+  }
+  const wallet = new ethers.Wallet(privateKey, service.getProvider(chainId));
+
+  if (command.ownerOnly) {
+    const owner: string = await contract.owner();
+    if (owner !== wallet.address) {
+      throw new Error(`${wallet.address} is not the paymaster owner ${owner}; use --safe if the owner is a multisig`);
+    }
+  }
+
+  for (const tx of transactions) {
+    const response = await wallet.sendTransaction({ to: tx.to, value: tx.value, data: tx.data });
+    const receipt = await response.wait();
+    io.stdout(JSON.stringify({ method: tx.method, hash: response.hash, blockNumber: receipt?.blockNumber ?? null }) + '\n');
+  }
+}
+
+/**
+ * `helixbox-paymaster admin`: run one command and return the process exit code
+ */
+export async function runAdmin(argv: string[], io: AdminIo): Promise<number> {
+  let service: PaymasterService | undefined;
+  try {
+    const { values: options, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+    const [commandName] = positionals;
+    if (options.help || !commandName) {
+      io.stdout(USAGE);
+      return options.help ? 0 : 1;
+    }
+    if (positionals.length > 1) {
+      throw new UsageError(`Unexpected arguments: ${positionals.slice(1).join(' ')}`);
+    }
+    if (commandName !== 'status' && !COMMANDS[commandName]) {
+      throw new UsageError(`Unknown command: ${commandName}`);
+    }
+
+    const chainId = options.chain;
+    if (!chainId) {
+      throw new UsageError('--chain is required');
+    }
+    const { tenant } = options;
+    // Transactions are sent from the admin key, so no command needs the paymaster signer; status lists it when there is one
+    const loaded = await loadConfig(options.config ?? resolveConfigPath(io.env), io.env, { requireSigner: false });
+    const config = adminConfig(loaded, chainId, tenant);
+    if (!config) {
+      throw new UsageError(`Chain ${chainKey(chainId, tenant)} is not configured`);
+    }
+    service = new PaymasterService(config, silentLogger, { requireSigner: false });
+
+    if (commandName === 'status') {
+      io.stdout(JSON.stringify(await readStatus(service, chainId, tenant), null, 2) + '\n');
+      return 0;
+    }
+
+    const key = chainKey(chainId, tenant);
+    const contract = selectContract(service, key, options['entry-point']);
+    const transactions = buildAdminTransactions(commandName, options, contract);
+
+    if (options.safe !== undefined) {
+      const batch = JSON.stringify(toSafeBatch(chainId, transactions, contract), null, 2) + '\n';
+      if (options.safe === '-') {
+        io.stdout(batch);
+      } else {
+        await writeFile(options.safe, batch);
+        io.stderr(`Wrote a Safe batch of ${transactions.length} transaction(s) to ${options.safe}\n`);
+      }
+    } else if (options['dry-run']) {
+      for (const tx of transactions) {
+        io.stdout(JSON.stringify({ ...tx, value: tx.value.toString(), args: tx.args.map(String) }) + '\n');
+      }
+    } else {
+      await send(service, key, COMMANDS[commandName], contract, transactions, io);
+    }
+    return 0;
+  } catch (error) {
+    io.stderr(`${error instanceof Error ? error.message : String(error)}\n`);
+    if (error instanceof UsageError) {
+      io.stderr(`Run with --help for usage.\n`);
+    }
+    return 1;
+  } finally {
+    service?.close();
+  }
+}
@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+import { runAdmin } from './admin.js';
+
+const USAGE = 'Usage: helixbox-paymaster admin <command> [options]\n';
+
+const [command, ...args] = process.argv.slice(2);
+const io = {
+  stdout: (text: string) => process.stdout.write(text),
+  stderr: (text: string) => process.stderr.write(text),
+  env: process.env
+};
+
+if (command === 'admin') {
+  process.exitCode = await runAdmin(args, io);
+} else {
+  io.stderr(command === undefined ? USAGE : `Unknown command: ${command}\n${USAGE}`);
+  process.exitCode = 1;
+}
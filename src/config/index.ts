@@ -1,22 +1,375 @@
-export default {
-  paymasterPrivateKey: process.env.PAYMASTER_PRIVATE_KEY,
-  paymasterAbi: [{ "inputs": [{ "internalType": "address", "name": "_entryPoint", "type": "address" }, { "internalType": "address", "name": "_owner", "type": "address" }, { "internalType": "address[]", "name": "_signers", "type": "address[]" }], "stateMutability": "nonpayable", "type": "constructor" }, { "inputs": [], "name": "ECDSAInvalidSignature", "type": "error" }, { "inputs": [{ "internalType": "uint256", "name": "length", "type": "uint256" }], "name": "ECDSAInvalidSignatureLength", "type": "error" }, { "inputs": [{ "internalType": "bytes32", "name": "s", "type": "bytes32" }], "name": "ECDSAInvalidSignatureS", "type": "error" }, { "inputs": [], "name": "ExchangeRateInvalid", "type": "error" }, { "inputs": [{ "internalType": "address", "name": "owner", "type": "address" }], "name": "OwnableInvalidOwner", "type": "error" }, { "inputs": [{ "internalType": "address", "name": "account", "type": "address" }], "name": "OwnableUnauthorizedAccount", "type": "error" }, { "inputs": [], "name": "PaymasterAndDataLengthInvalid", "type": "error" }, { "inputs": [], "name": "PaymasterConfigLengthInvalid", "type": "error" }, { "inputs": [], "name": "PaymasterModeInvalid", "type": "error" }, { "inputs": [], "name": "PaymasterSignatureLengthInvalid", "type": "error" }, { "inputs": [{ "internalType": "string", "name": "msg", "type": "string" }], "name": "PostOpTransferFromFailed", "type": "error" }, { "inputs": [], "name": "TokenAddressInvalid", "type": "error" }, { "anonymous": false, "inputs": [{ "indexed": true, "internalType": "address", "name": "previousOwner", "type": "address" }, { "indexed": true, "internalType": "address", "name": "newOwner", "type": "address" }], "name": "OwnershipTransferred", "type": "event" }, { "anonymous": false, "inputs": [{ "indexed": false, "internalType": "address", "name": "signer", "type": "address" }], "name": "SignerAdded", "type": "event" }, { "anonymous": false, "inputs": [{ "indexed": false, "internalType": "address", "name": "signer", "type": "address" }], "name": "SignerRemoved", "type": "event" }, { "anonymous": false, "inputs": [{ "indexed": false, "internalType": "address", "name": "oldTreasury", "type": "address" }, { "indexed": false, "internalType": "address", "name": "newTreasury", "type": "address" }], "name": "TreasuryUpdated", "type": "event" }, { "anonymous": false, "inputs": [{ "indexed": true, "internalType": "bytes32", "name": "userOpHash", "type": "bytes32" }, { "indexed": true, "internalType": "address", "name": "user", "type": "address" }, { "indexed": false, "internalType": "uint8", "name": "paymasterMode", "type": "uint8" }, { "indexed": false, "internalType": "address", "name": "token", "type": "address" }, { "indexed": false, "internalType": "uint256", "name": "tokenAmountPaid", "type": "uint256" }, { "indexed": false, "internalType": "uint256", "name": "exchangeRate", "type": "uint256" }], "name": "UserOperationSponsored", "type": "event" }, { "inputs": [{ "internalType": "address", "name": "_signer", "type": "address" }], "name": "addSigner", "outputs": [], "stateMutability": "nonpayable", "type": "function" }, { "inputs": [{ "internalType": "uint32", "name": "unstakeDelaySec", "type": "uint32" }], "name": "addStake", "outputs": [], "stateMutability": "payable", "type": "function" }, { "inputs": [], "name": "deposit", "outputs": [], "stateMutability": "payable", "type": "function" }, { "inputs": [], "name": "entryPoint", "outputs": [{ "internalType": "contract IEntryPoint", "name": "", "type": "address" }], "stateMutability": "view", "type": "function" }, { "inputs": [{ "internalType": "uint256", "name": "_actualGasCost", "type": "uint256" }, { "internalType": "uint256", "name": "_postOpGas", "type": "uint256" }, { "internalType": "uint256", "name": "_actualUserOpFeePerGas", "type": "uint256" }, { "internalType": "uint256", "name": "_exchangeRate", "type": "uint256" }], "name": "getCostInToken", "outputs": [{ "internalType": "uint256", "name": "", "type": "uint256" }], "stateMutability": "pure", "type": "function" }, { "inputs": [], "name": "getDeposit", "outputs": [{ "internalType": "uint256", "name": "", "type": "uint256" }], "stateMutability": "view", "type": "function" }, { "inputs": [{ "internalType": "uint8", "name": "_mode", "type": "uint8" }, { "components": [{ "internalType": "address", "name": "sender", "type": "address" }, { "internalType": "uint256", "name": "nonce", "type": "uint256" }, { "internalType": "bytes", "name": "initCode", "type": "bytes" }, { "internalType": "bytes", "name": "callData", "type": "bytes" }, { "internalType": "bytes32", "name": "accountGasLimits", "type": "bytes32" }, { "internalType": "uint256", "name": "preVerificationGas", "type": "uint256" }, { "internalType": "bytes32", "name": "gasFees", "type": "bytes32" }, { "internalType": "bytes", "name": "paymasterAndData", "type": "bytes" }, { "internalType": "bytes", "name": "signature", "type": "bytes" }], "internalType": "struct PackedUserOperation", "name": "_userOp", "type": "tuple" }], "name": "getHash", "outputs": [{ "internalType": "bytes32", "name": "", "type": "bytes32" }], "stateMutability": "view", "type": "function" }, { "inputs": [], "name": "owner", "outputs": [{ "internalType": "address", "name": "", "type": "address" }], "stateMutability": "view", "type": "function" }, { "inputs": [{ "internalType": "enum PostOpMode", "name": "mode", "type": "uint8" }, { "internalType": "bytes", "name": "context", "type": "bytes" }, { "internalType": "uint256", "name": "actualGasCost", "type": "uint256" }, { "internalType": "uint256", "name": "actualUserOpFeePerGas", "type": "uint256" }], "name": "postOp", "outputs": [], "stateMutability": "nonpayable", "type": "function" }, { "inputs": [{ "internalType": "address", "name": "_signer", "type": "address" }], "name": "removeSigner", "outputs": [], "stateMutability": "nonpayable", "type": "function" }, { "inputs": [], "name": "renounceOwnership", "outputs": [], "stateMutability": "nonpayable", "type": "function" }, { "inputs": [{ "internalType": "address", "name": "_treasury", "type": "address" }], "name": "setTreasury", "outputs": [], "stateMutability": "nonpayable", "type": "function" }, { "inputs": [{ "internalType": "address", "name": "account", "type": "address" }], "name": "signers", "outputs": [{ "internalType": "bool", "name": "isValidSigner", "type": "bool" }], "stateMutability": "view", "type": "function" }, { "inputs": [{ "internalType": "address", "name": "newOwner", "type": "address" }], "name": "transferOwnership", "outputs": [], "stateMutability": "nonpayable", "type": "function" }, { "inputs": [], "name": "treasury", "outputs": [{ "internalType": "address", "name": "", "type": "address" }], "stateMutability": "view", "type": "function" }, { "inputs": [], "name": "unlockStake", "outputs": [], "stateMutability": "nonpayable", "type": "function" }, { "inputs": [{ "components": [{ "internalType": "address", "name": "sender", "type": "address" }, { "internalType": "uint256", "name": "nonce", "type": "uint256" }, { "internalType": "bytes", "name": "initCode", "type": "bytes" }, { "internalType": "bytes", "name": "callData", "type": "bytes" }, { "internalType": "bytes32", "name": "accountGasLimits", "type": "bytes32" }, { "internalType": "uint256", "name": "preVerificationGas", "type": "uint256" }, { "internalType": "bytes32", "name": "gasFees", "type": "bytes32" }, { "internalType": "bytes", "name": "paymasterAndData", "type": "bytes" }, { "internalType": "bytes", "name": "signature", "type": "bytes" }], "internalType": "struct PackedUserOperation", "name": "userOp", "type": "tuple" }, { "internalType": "bytes32", "name": "userOpHash", "type": "bytes32" }, { "internalType": "uint256", "name": "maxCost", "type": "uint256" }], "name": "validatePaymasterUserOp", "outputs": [{ "internalType": "bytes", "name": "context", "type": "bytes" }, { "internalType": "uint256", "name": "validationData", "type": "uint256" }], "stateMutability": "nonpayable", "type": "function" }, { "inputs": [{ "internalType": "address payable", "name": "withdrawAddress", "type": "address" }], "name": "withdrawStake", "outputs": [], "stateMutability": "nonpayable", "type": "function" }, { "inputs": [{ "internalType": "address payable", "name": "withdrawAddress", "type": "address" }, { "internalType": "uint256", "name": "amount", "type": "uint256" }], "name": "withdrawTo", "outputs": [], "stateMutability": "nonpayable", "type": "function" }],
-  chains: {
-    "11155111": {
-      paymasterAddress: '0xDE31CDdee69441D6F1D35E3486DA444bbA43573e',
-      rpc: 'https://ethereum-sepolia-rpc.publicnode.com'
-    }
+export type EntryPointVersion = '0.6' | '0.7' | '0.8';
+
+/** Canonical EntryPoint deployments, used when a paymaster does not configure its own */
+export const ENTRY_POINT_ADDRESSES: { [version in EntryPointVersion]: string } = {
+  '0.6': '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
+  '0.7': '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
+  '0.8': '0x4337084D9E255Ff0702461CF8895CE9E3b5Ff108'
+};
+
+export const DEFAULT_ENTRY_POINT_VERSION: EntryPointVersion = '0.7';
+export const DEFAULT_ENTRY_POINT = ENTRY_POINT_ADDRESSES[DEFAULT_ENTRY_POINT_VERSION];
+
+/**
+ * Where a token's exchange rate comes from. Feeds quote a price, by default the native gas token's price in the token
+ * (e.g. 3000 for USDC on Ethereum); `inverse` feeds quote the token's price in the native token instead.
+ */
+export type ExchangeRateSourceConfig =
+  | {
+    type: 'static';
+    /** Token units per 1e18 wei */
+    exchangeRate: string;
+  }
+  | {
+    /** A Chainlink-style aggregator on the same chain, read through `latestRoundData` */
+    type: 'chainlink';
+    aggregator: string;
+    inverse?: boolean;
   }
-} as PaymasterConfig; 
+  | {
+    /** A JSON endpoint answering e.g. `{ "price": "3012.5", "updatedAt": 1718000000 }` */
+    type: 'http';
+    url: string;
+    /** Dot-separated path to the price in the response; defaults to `price` */
+    priceField?: string;
+    /** Dot-separated path to the price's unix timestamp; the time of the request when unset */
+    updatedAtField?: string;
+    inverse?: boolean;
+    headers?: { [name: string]: string };
+    timeoutMs?: number;
+  };
+
+/**
+ * An ERC-20 token accepted for gas payment in token mode
+ */
+export interface TokenConfig {
+  /** Token units charged per 1e18 wei of gas cost, as expected by `getCostInToken`; shorthand for a static `rate` */
+  exchangeRate?: string;
+  rate?: ExchangeRateSourceConfig;
+  /** The token's decimals, needed to convert the prices of feeds */
+  decimals?: number;
+  /** Added to the rate to cover price movement until the op lands, e.g. 5 for 5% */
+  markupPercent?: number;
+  /** Refuse token sponsorship when the rate was last updated longer ago than this; defaults to 1 hour for feeds */
+  maxAgeSeconds?: number;
+  /** How long a read rate is reused; defaults to 30 seconds */
+  cacheTtlSeconds?: number;
+  /** Gas charged on top of the op to cover the token transfer in `postOp` */
+  postOpGas?: number;
+}
+
+/**
+ * Rules a user operation must satisfy before the paymaster signs it.
+ * Gas costs are in wei; spend caps reset at 00:00 UTC.
+ */
+export interface SponsorshipPolicyConfig {
+  /** When set, only these senders are sponsored */
+  allowedSenders?: string[];
+  deniedSenders?: string[];
+  /** When set, every call decoded from `callData` must target one of these contracts */
+  allowedTargets?: string[];
+  /** When set, every call decoded from `callData` must use one of these 4-byte selectors */
+  allowedSelectors?: string[];
+  maxGasCostPerOp?: string;
+  maxSpendPerSenderPerDay?: string;
+  maxSpendPerDay?: string;
+}
+
+/**
+ * API key authentication for the paymaster route. When absent, the route is open.
+ */
+export interface ApiKeyConfig {
+  /** JSON file holding the API key projects, re-read when it changes */
+  storePath: string;
+  /** Where sponsored gas per key is kept, `<storePath>.usage.json` with the `.json` dropped by default */
+  usageStorePath?: string;
+}
+
+/**
+ * How paymaster gas limits are derived from simulating the paymaster
+ */
+export interface GasEstimationConfig {
+  /** Safety multiplier applied to simulated gas, 1.2 by default */
+  multiplier?: number;
+  /** How long estimates are cached per chain, EntryPoint and mode, 300 seconds by default */
+  cacheTtlSeconds?: number;
+  /** Used when simulating `validatePaymasterUserOp` fails */
+  fallbackVerificationGasLimit?: number;
+  /** Used in token mode when simulating `postOp` fails */
+  fallbackPostOpGasLimit?: number;
+}
+
+/**
+ * The sponsorship ledger: signed ops joined with the `UserOperationSponsored` events indexed from each chain
+ */
+export interface LedgerConfig {
+  /** JSON Lines log holding the ledger and the indexer checkpoints */
+  storePath: string;
+  /** Bearer token the ledger routes require as `Authorization: Bearer <authToken>`; they answer 404 until it is set */
+  authToken?: string;
+}
+
+/**
+ * How a chain's `UserOperationSponsored` events are followed
+ */
+export interface SponsorshipIndexerConfig {
+  /** First block to index; the chain head at first start by default */
+  startBlock?: number;
+  /** Blocks behind the head left unindexed, 5 by default */
+  confirmations?: number;
+  /** Blocks re-indexed when the checkpoint block was reorged out, 64 by default */
+  maxReorgDepth?: number;
+  /** Block range per eth_getLogs request, 2000 by default */
+  batchSize?: number;
+  /** 15 seconds by default */
+  pollIntervalSeconds?: number;
+}
+
+/**
+ * Gas price oracle settings for pimlico_getUserOperationGasPrice. Fee bounds are in wei.
+ */
+export interface GasPriceConfig {
+  /** The chain has no EIP-1559 fee market; tiers are derived from eth_gasPrice */
+  legacy?: boolean;
+  /** Blocks sampled with eth_feeHistory, 10 by default */
+  blockCount?: number;
+  /** Priority fee reward percentiles for the slow, standard and fast tiers, [25, 50, 75] by default */
+  percentiles?: [number, number, number];
+  floor?: { maxFeePerGas?: string, maxPriorityFeePerGas?: string };
+  ceiling?: { maxFeePerGas?: string, maxPriorityFeePerGas?: string };
+  /** How long fee data is reused, 5 seconds by default */
+  cacheTtlSeconds?: number;
+}
+
+/**
+ * Where paymaster signatures come from. Raw private keys are for development only.
+ */
+export type SignerConfig =
+  | { type: 'privateKey', privateKey: string }
+  /** Encrypted JSON keystore (Web3 Secret Storage) */
+  | { type: 'keystore', path: string, password: string }
+  /** HTTP service that signs on the paymaster's behalf, see `RemoteSigner` */
+  | { type: 'remote', url: string, address: string, headers?: { [name: string]: string }, timeoutMs?: number }
+  /** Several signers used in turn (`roundRobin`) or in order of preference (`failover`) */
+  | { type: 'multi', strategy: 'roundRobin' | 'failover', signers: SignerConfig[] };
+
+/**
+ * An external service asked to approve each op before `pm_getPaymasterData` signs it
+ */
+export interface SponsorshipWebhookConfig {
+  url: string;
+  /** Key of the HMAC-SHA256 signature sent in `X-Paymaster-Signature` */
+  secret: string;
+  /** 3000 ms by default */
+  timeoutMs?: number;
+  /** Sponsor the op when the webhook fails or times out; such ops are refused by default */
+  failOpen?: boolean;
+  headers?: { [name: string]: string };
+}
 
+/**
+ * Checking signers against the paymaster's `signers(address)` view before they sign
+ */
+export interface SignerCheckConfig {
+  /** On by default */
+  enabled?: boolean;
+  /** How long a signer's on-chain status is trusted, 60 seconds by default */
+  cacheTtlSeconds?: number;
+}
+
+/**
+ * Background polling of the paymaster's EntryPoint deposit and stake. Amounts are in wei.
+ */
+export interface DepositMonitorConfig {
+  /** 60 seconds by default */
+  pollIntervalSeconds?: number;
+  /** Alert when the deposit drops below this */
+  minDeposit?: string;
+  /** Alert when the stake drops below this */
+  minStake?: string;
+  /** Receives a JSON POST for every alert raised */
+  alertWebhookUrl?: string;
+  /** Refuse to sign ops whose max cost the last polled deposit cannot cover */
+  refuseWhenUnderfunded?: boolean;
+}
+
+/**
+ * Limits on signatures handed out by `pm_getPaymasterData` that have not been used yet
+ */
+export interface OutstandingSignatureConfig {
+  /** Unused, unexpired signatures a sender may hold at once; unlimited by default */
+  maxPerSender?: number;
+}
+
+/**
+ * How long signatures stay valid and which bundlers may submit the ops they cover
+ */
+export interface SponsorshipModeConfig {
+  /** Longest validity window, 3600 seconds by default. Callers may ask for less with `validUntil` in the context */
+  validitySeconds?: number;
+  /** How far `validAfter` is backdated to absorb clock skew, 60 seconds by default */
+  validAfterSkewSeconds?: number;
+  /** Bit 0 of the mode byte, true by default. When false the contract only accepts ops submitted by allowlisted bundlers */
+  allowAllBundlers?: boolean;
+  /** The bundlers on the contract's allowlist; required when `allowAllBundlers` is false */
+  allowedBundlers?: string[];
+}
+
+/**
+ * Chain-wide sponsorship settings, with overrides for free and token sponsorship
+ */
+export interface SponsorshipConfig extends SponsorshipModeConfig {
+  verifying?: SponsorshipModeConfig;
+  erc20?: SponsorshipModeConfig;
+}
+
+/**
+ * How requests are spread over a chain's RPC endpoints when `rpc` lists several
+ */
+export interface RpcFailoverConfig {
+  /** `priority` tries endpoints in order; `quorum` asks all of them and needs `quorum` identical answers. Priority by default */
+  strategy?: 'priority' | 'quorum';
+  /** Matching answers required in quorum mode, a majority of the endpoints by default */
+  quorum?: number;
+  /** Per-request timeout, 10000 ms by default */
+  timeoutMs?: number;
+  /** Further rounds over the endpoints after all of them failed, 2 by default */
+  retries?: number;
+  /** Delay before the first retry, doubled for each further one; 200 ms by default */
+  backoffMs?: number;
+  circuitBreaker?: {
+    /** Consecutive failures that take an endpoint out of rotation, 3 by default */
+    failureThreshold?: number;
+    /** How long it stays out before a trial request, 30 seconds by default */
+    cooldownSeconds?: number;
+  };
+}
+
+/**
+ * A paymaster contract deployed against a specific EntryPoint version
+ */
+export interface PaymasterDeployment {
+  paymasterAddress: string;
+  entryPointVersion: EntryPointVersion;
+  entryPoint?: string;
+}
+
+/**
+ * A chain's paymaster deployment: its contracts, signer, RPC endpoints and sponsorship rules
+ */
+export interface ChainConfig {
+  paymasterAddress: string;
+  /** One endpoint, or several in order of preference */
+  rpc: string | string[];
+  rpcFailover?: RpcFailoverConfig;
+  paymasterPrivateKey?: string;
+  signer?: SignerConfig;
+  signerCheck?: SignerCheckConfig;
+  /** EntryPoint version of `paymasterAddress`, v0.7 by default */
+  entryPointVersion?: EntryPointVersion;
+  entryPoint?: string;
+  /** Paymasters for further EntryPoint versions served from the same chain */
+  paymasters?: PaymasterDeployment[];
+  /** Check generated paymasterData against the contract before returning it */
+  verification?: 'getHash' | 'simulateValidation';
+  gasEstimation?: GasEstimationConfig;
+  gasPrice?: GasPriceConfig;
+  monitor?: DepositMonitorConfig;
+  indexer?: SponsorshipIndexerConfig;
+  outstanding?: OutstandingSignatureConfig;
+  sponsorship?: SponsorshipConfig;
+  tokens?: {
+    [tokenAddress: string]: TokenConfig;
+  };
+  policy?: SponsorshipPolicyConfig;
+  /** Asked to approve ops not billed to an API key project with a webhook of its own */
+  sponsorshipWebhook?: SponsorshipWebhookConfig;
+}
+
+/**
+ * A product served with paymaster contracts of its own, on routes under `/paymaster/<tenant>/<chainId>`
+ */
+export interface TenantConfig {
+  /** Default signer for the tenant's chains, in place of the top-level one */
+  paymasterPrivateKey?: string;
+  signer?: SignerConfig;
+  chains: {
+    [key: string]: ChainConfig;
+  };
+}
+
+/**
+ * The paymaster's settings, loaded from the config file by `loadConfig`
+ */
 export interface PaymasterConfig {
-  paymasterPrivateKey: string;
-  paymasterAbi: any[];
+  paymasterPrivateKey?: string;
+  /** Default signer for chains without their own; takes precedence over `paymasterPrivateKey` */
+  signer?: SignerConfig;
+  apiKeys?: ApiKeyConfig;
+  ledger?: LedgerConfig;
+  /** Most calls one JSON-RPC batch may carry, 20 by default */
+  maxBatchSize?: number;
+  /** Served on `/paymaster/<chainId>` */
   chains: {
-    [key: string]: {
-      paymasterAddress: string;
-      rpc: string;
-      paymasterPrivateKey?: string;
+    [key: string]: ChainConfig;
+  };
+  tenants?: {
+    [tenant: string]: TenantConfig;
+  };
+}
+
+/**
+ * One chain served by the paymaster, either from the top-level `chains` or from a tenant's
+ */
+export interface ChainScope {
+  /** Names the chain's runtime, see `chainKey` */
+  key: string;
+  chainId: string;
+  tenant?: string;
+  config: ChainConfig;
+  /** Fallback for a chain without a signer of its own: the tenant's, else the top-level one */
+  signer?: SignerConfig;
+  paymasterPrivateKey?: string;
+}
+
+/**
+ * The chain ID for top-level chains, `<tenant>/<chainId>` for a tenant's, as in their route
+ */
+export function chainKey(chainId: string, tenant?: string): string {
+  return tenant === undefined ? chainId : `${tenant}/${chainId}`;
+}
+
+/**
+ * Every chain served by the config, top-level chains first
+ */
+export function listChains(config: PaymasterConfig): ChainScope[] {
+  const scopes: ChainScope[] = Object.entries(config.chains).map(([chainId, chainConfig]) => ({
+    key: chainKey(chainId),
+    chainId,
+    config: chainConfig,
+    signer: config.signer,
+    paymasterPrivateKey: config.paymasterPrivateKey
+  }));
+  for (const [tenant, tenantConfig] of Object.entries(config.tenants ?? {})) {
+    // A tenant with its own signer does not fall back to the top-level one
+    const ownSigner = tenantConfig.signer !== undefined || tenantConfig.paymasterPrivateKey !== undefined;
+    for (const [chainId, chainConfig] of Object.entries(tenantConfig.chains)) {
+      scopes.push({
+        key: chainKey(chainId, tenant),
+        chainId,
+        tenant,
+        config: chainConfig,
+        signer: ownSigner ? tenantConfig.signer : config.signer,
+        paymasterPrivateKey: ownSigner ? tenantConfig.paymasterPrivateKey : config.paymasterPrivateKey
+      });
     }
   }
-}
\ No newline at end of file
+  return scopes;
+}
+
+/**
+ * Whether the chain has a signer of its own or one to fall back to
+ */
+export function hasSigner(scope: ChainScope): boolean {
+  return Boolean(scope.config.signer || scope.config.paymasterPrivateKey || scope.signer || scope.paymasterPrivateKey);
+}
@@ -0,0 +1,124 @@
+import { readFile } from 'node:fs/promises';
+import * as path from 'node:path';
+import { Ajv } from 'ajv';
+import { parse as parseYaml } from 'yaml';
+import { ConfigError } from '../errors/configError.js';
+import { hasSigner, listChains, PaymasterConfig } from './index.js';
+import { paymasterConfigSchema } from './schema.js';
+
+/** Read from the working directory unless `PAYMASTER_CONFIG_FILE` names another file */
+export const DEFAULT_CONFIG_FILE = 'paymaster.config.yaml';
+
+const validateConfig = new Ajv({ allErrors: true, allowUnionTypes: true }).compile<PaymasterConfig>(paymasterConfigSchema);
+
+export function resolveConfigPath(env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(env.PAYMASTER_CONFIG_FILE || DEFAULT_CONFIG_FILE);
+}
+
+async function readConfigFile(file: string): Promise<unknown> {
+  let content: string;
+  try {
+    content = await readFile(file, 'utf8');
+  } catch (error) {
+    throw new ConfigError(file, [(error as NodeJS.ErrnoException).code === 'ENOENT'
+      ? 'file not found; set PAYMASTER_CONFIG_FILE or create it'
+      : (error as Error).message]);
+  }
+
+  try {
+    return file.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new ConfigError(file, [`cannot be parsed: ${(error as Error).message}`]);
+  }
+}
+
+/**
+ * Secrets and deployment-specific paths given in the environment take precedence over the file:
+ * `PAYMASTER_PRIVATE_KEY`, which replaces the file's top-level `signer` too, `PAYMASTER_KEYSTORE_FILE` with
+ * `PAYMASTER_KEYSTORE_PASSWORD`, `PAYMASTER_API_KEYS_FILE`, `PAYMASTER_LEDGER_FILE` with `PAYMASTER_LEDGER_TOKEN`,
+ * and `PAYMASTER_RPC_<chainId>` per chain, tenants' included, a comma-separated list when the chain has several endpoints
+ */
+function applyEnvOverrides(config: Record<string, unknown>, env: NodeJS.ProcessEnv): void {
+  if (env.PAYMASTER_PRIVATE_KEY) {
+    // The file's signer would otherwise take precedence over the key and silently ignore it
+    config.paymasterPrivateKey = env.PAYMASTER_PRIVATE_KEY;
+    delete config.signer;
+  }
+  if (env.PAYMASTER_KEYSTORE_FILE) {
+    config.signer = { type: 'keystore', path: env.PAYMASTER_KEYSTORE_FILE, password: env.PAYMASTER_KEYSTORE_PASSWORD ?? '' };
+  }
+  if (env.PAYMASTER_API_KEYS_FILE) {
+    config.apiKeys = { ...asRecord(config.apiKeys), storePath: env.PAYMASTER_API_KEYS_FILE };
+  }
+  if (env.PAYMASTER_LEDGER_FILE) {
+    config.ledger = { ...asRecord(config.ledger), storePath: env.PAYMASTER_LEDGER_FILE };
+  }
+  if (env.PAYMASTER_LEDGER_TOKEN && isRecord(config.ledger)) {
+    config.ledger.authToken = env.PAYMASTER_LEDGER_TOKEN;
+  }
+
+  applyRpcOverrides(config.chains, env);
+  if (isRecord(config.tenants)) {
+    for (const tenant of Object.values(config.tenants)) {
+      if (isRecord(tenant)) {
+        applyRpcOverrides(tenant.chains, env);
+      }
+    }
+  }
+}
+
+// Endpoints belong to the chain, so a tenant's chains take the same override as the top-level ones
+function applyRpcOverrides(chains: unknown, env: NodeJS.ProcessEnv): void {
+  if (!isRecord(chains)) {
+    return;
+  }
+  for (const [chainId, chain] of Object.entries(chains)) {
+    const rpc = env[`PAYMASTER_RPC_${chainId}`];
+    if (rpc && isRecord(chain)) {
+      chain.rpc = rpc.includes(',') ? rpc.split(',').map((url) => url.trim()) : rpc;
+    }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return isRecord(value) ? value : undefined;
+}
+
+/**
+ * Load the paymaster config from a YAML or JSON file with environment overrides applied,
+ * throwing a ConfigError that lists every problem found. Every chain needs a signer unless `requireSigner` is false.
+ */
+export async function loadConfig(
+  file: string = resolveConfigPath(),
+  env: NodeJS.ProcessEnv = process.env,
+  { requireSigner = true }: { requireSigner?: boolean } = {}
+): Promise<PaymasterConfig> {
+  const config = await readConfigFile(file);
+  if (!isRecord(config)) {
+    throw new ConfigError(file, ['must be a mapping with a `chains` section']);
+  }
+
+  applyEnvOverrides(config, env);
+
+  if (!validateConfig(config)) {
+    throw new ConfigError(file, validateConfig.errors!.map((error) => {
+      const at = error.instancePath || '/';
+      return error.keyword === 'additionalProperties'
+        ? `${at}: unknown property ${error.params.additionalProperty}`
+        : `${at}: ${error.message}`;
+    }));
+  }
+
+  const unsigned = requireSigner ? listChains(config).filter((scope) => !hasSigner(scope)) : [];
+  if (unsigned.length > 0) {
+    throw new ConfigError(file, unsigned.map(({ chainId, tenant }) =>
+      `${tenant === undefined ? '' : `/tenants/${tenant}`}/chains/${chainId}: no signer; set PAYMASTER_PRIVATE_KEY or configure a signer`
+    ));
+  }
+
+  return config;
+}
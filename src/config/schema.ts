@@ -0,0 +1,186 @@
+/**
+ * JSON schema for `PaymasterConfig`, checked when the config file is loaded so mistakes surface at startup.
+ * Unknown properties are rejected to catch misspelled settings.
+ */
+
+const address = { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$' };
+/** Wei amounts and other uint256 values, as decimal strings */
+const uint = { type: 'string', pattern: '^[0-9]+$' };
+const positiveInteger = { type: 'integer', minimum: 1 };
+const nonNegativeInteger = { type: 'integer', minimum: 0 };
+const entryPointVersion = { enum: ['0.6', '0.7', '0.8'] };
+
+function object(properties: { [name: string]: unknown }, required: string[] = []) {
+  return { type: 'object', properties, required, additionalProperties: false };
+}
+
+const signer = {
+  oneOf: [
+    object({ type: { const: 'privateKey' }, privateKey: { type: 'string' } }, ['type', 'privateKey']),
+    object({ type: { const: 'keystore' }, path: { type: 'string' }, password: { type: 'string' } }, ['type', 'path', 'password']),
+    object({
+      type: { const: 'remote' },
+      url: { type: 'string' },
+      address,
+      headers: { type: 'object', additionalProperties: { type: 'string' } },
+      timeoutMs: positiveInteger
+    }, ['type', 'url', 'address']),
+    object({
+      type: { const: 'multi' },
+      strategy: { enum: ['roundRobin', 'failover'] },
+      signers: { type: 'array', items: { $ref: '#/$defs/signer' }, minItems: 1 }
+    }, ['type', 'strategy', 'signers'])
+  ]
+};
+
+const sponsorshipMode = {
+  validitySeconds: positiveInteger,
+  validAfterSkewSeconds: nonNegativeInteger,
+  allowAllBundlers: { type: 'boolean' },
+  allowedBundlers: { type: 'array', items: address }
+};
+
+const feeBounds = object({ maxFeePerGas: uint, maxPriorityFeePerGas: uint });
+
+const chain = object({
+  paymasterAddress: address,
+  rpc: {
+    oneOf: [
+      { type: 'string', minLength: 1 },
+      { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 }
+    ]
+  },
+  rpcFailover: object({
+    strategy: { enum: ['priority', 'quorum'] },
+    quorum: positiveInteger,
+    timeoutMs: positiveInteger,
+    retries: nonNegativeInteger,
+    backoffMs: nonNegativeInteger,
+    circuitBreaker: object({ failureThreshold: positiveInteger, cooldownSeconds: nonNegativeInteger })
+  }),
+  paymasterPrivateKey: { type: 'string' },
+  signer: { $ref: '#/$defs/signer' },
+  signerCheck: object({ enabled: { type: 'boolean' }, cacheTtlSeconds: nonNegativeInteger }),
+  entryPointVersion,
+  entryPoint: address,
+  paymasters: {
+    type: 'array',
+    items: object({ paymasterAddress: address, entryPointVersion, entryPoint: address }, ['paymasterAddress', 'entryPointVersion'])
+  },
+  verification: { enum: ['getHash', 'simulateValidation'] },
+  gasEstimation: object({
+    multiplier: { type: 'number', minimum: 1 },
+    cacheTtlSeconds: nonNegativeInteger,
+    fallbackVerificationGasLimit: positiveInteger,
+    fallbackPostOpGasLimit: nonNegativeInteger
+  }),
+  gasPrice: object({
+    legacy: { type: 'boolean' },
+    blockCount: positiveInteger,
+    percentiles: { type: 'array', items: { type: 'number', minimum: 0, maximum: 100 }, minItems: 3, maxItems: 3 },
+    floor: feeBounds,
+    ceiling: feeBounds,
+    cacheTtlSeconds: nonNegativeInteger
+  }),
+  monitor: object({
+    pollIntervalSeconds: positiveInteger,
+    minDeposit: uint,
+    minStake: uint,
+    alertWebhookUrl: { type: 'string' },
+    refuseWhenUnderfunded: { type: 'boolean' }
+  }),
+  indexer: object({
+    startBlock: nonNegativeInteger,
+    confirmations: nonNegativeInteger,
+    maxReorgDepth: nonNegativeInteger,
+    batchSize: positiveInteger,
+    pollIntervalSeconds: positiveInteger
+  }),
+  outstanding: object({ maxPerSender: positiveInteger }),
+  sponsorship: object({
+    ...sponsorshipMode,
+    verifying: object(sponsorshipMode),
+    erc20: object(sponsorshipMode)
+  }),
+  tokens: {
+    type: 'object',
+    propertyNames: address,
+    additionalProperties: {
+      ...object({
+        exchangeRate: uint,
+        rate: {
+          oneOf: [
+            object({ type: { const: 'static' }, exchangeRate: uint }, ['type', 'exchangeRate']),
+            object({ type: { const: 'chainlink' }, aggregator: address, inverse: { type: 'boolean' } }, ['type', 'aggregator']),
+            object({
+              type: { const: 'http' },
+              url: { type: 'string' },
+              priceField: { type: 'string' },
+              updatedAtField: { type: 'string' },
+              inverse: { type: 'boolean' },
+              headers: { type: 'object', additionalProperties: { type: 'string' } },
+              timeoutMs: positiveInteger
+            }, ['type', 'url'])
+          ]
+        },
+        decimals: { type: 'integer', minimum: 0, maximum: 36 },
+        markupPercent: { type: 'number', minimum: 0 },
+        maxAgeSeconds: positiveInteger,
+        cacheTtlSeconds: nonNegativeInteger,
+        postOpGas: nonNegativeInteger
+      }),
+      // Exactly one of the static shorthand and a rate source
+      oneOf: [{ required: ['exchangeRate'] }, { required: ['rate'] }]
+    }
+  },
+  policy: object({
+    allowedSenders: { type: 'array', items: address },
+    deniedSenders: { type: 'array', items: address },
+    allowedTargets: { type: 'array', items: address },
+    allowedSelectors: { type: 'array', items: { type: 'string', pattern: '^0x[0-9a-fA-F]{8}$' } },
+    maxGasCostPerOp: uint,
+    maxSpendPerSenderPerDay: uint,
+    maxSpendPerDay: uint
+  }),
+  sponsorshipWebhook: object({
+    url: { type: 'string' },
+    secret: { type: 'string', minLength: 1 },
+    timeoutMs: positiveInteger,
+    failOpen: { type: 'boolean' },
+    headers: { type: 'object', additionalProperties: { type: 'string' } }
+  }, ['url', 'secret'])
+}, ['paymasterAddress', 'rpc']);
+
+const chains = {
+  type: 'object',
+  propertyNames: { pattern: '^[0-9]+$' },
+  additionalProperties: chain
+};
+/** Used in routes, so kept URL-safe and never numeric, which would read as a chain ID */
+const tenantName = { pattern: '^[a-z][a-z0-9-]*$', maxLength: 64 };
+
+export const paymasterConfigSchema = {
+  $defs: { signer },
+  ...object({
+    paymasterPrivateKey: { type: 'string' },
+    signer: { $ref: '#/$defs/signer' },
+    apiKeys: object({ storePath: { type: 'string' }, usageStorePath: { type: 'string' } }, ['storePath']),
+    ledger: object({ storePath: { type: 'string' }, authToken: { type: 'string' } }, ['storePath']),
+    maxBatchSize: positiveInteger,
+    chains,
+    tenants: {
+      type: 'object',
+      propertyNames: tenantName,
+      additionalProperties: object({
+        paymasterPrivateKey: { type: 'string' },
+        signer: { $ref: '#/$defs/signer' },
+        chains: { ...chains, minProperties: 1 }
+      }, ['chains'])
+    }
+  }, ['chains']),
+  // Top-level chains may be left empty when every chain belongs to a tenant
+  anyOf: [
+    { type: 'object', properties: { chains: { type: 'object', minProperties: 1 } } },
+    { type: 'object', required: ['tenants'], properties: { tenants: { type: 'object', minProperties: 1 } } }
+  ]
+};
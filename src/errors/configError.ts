@@ -0,0 +1,12 @@
+/**
+ * The paymaster config file could not be read or does not describe a usable config
+ */
+export class ConfigError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly problems: string[]
+  ) {
+    super(`Invalid paymaster config ${file}:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
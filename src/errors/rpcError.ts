@@ -0,0 +1,33 @@
+/**
+ * JSON-RPC error codes returned by the paymaster endpoint
+ */
+export const RpcErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  SponsorshipRejected: -32001,
+  Unauthorized: -32002,
+  LimitExceeded: -32005
+} as const;
+
+/**
+ * An error that is surfaced to the caller as a JSON-RPC error object
+ */
+export class RpcError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+    public readonly data?: unknown
+  ) {
+    super(message);
+    this.name = 'RpcError';
+  }
+
+  toJSON(): { code: number, message: string, data?: unknown } {
+    return this.data === undefined
+      ? { code: this.code, message: this.message }
+      : { code: this.code, message: this.message, data: this.data };
+  }
+}
@@ -0,0 +1,53 @@
+import fp from 'fastify-plugin'
+import { Stats, unwatchFile, watchFile } from 'node:fs'
+import { loadConfig, resolveConfigPath } from '../config/loader.js'
+import { PaymasterService } from '../services/paymasterService.js'
+
+const CONFIG_POLL_INTERVAL_MS = 2000
+
+/**
+ * Shares one PaymasterService between the paymaster and status routes,
+ * running its background monitors for the lifetime of the server.
+ * The config is validated before the server starts, and its chains are reloaded on SIGHUP or when the file changes.
+ */
+export default fp(async (fastify) => {
+  const configPath = resolveConfigPath()
+  const paymasterService = new PaymasterService(await loadConfig(configPath), fastify.log)
+  fastify.decorate('paymasterService', paymasterService)
+
+  let reloading = Promise.resolve()
+  function reload (reason: string) {
+    reloading = reloading.then(async () => {
+      try {
+        paymasterService.reload(await loadConfig(configPath))
+        fastify.log.info({ configPath, reason }, 'Reloaded paymaster config')
+      } catch (error) {
+        fastify.log.error({ err: error, configPath, reason }, 'Paymaster config not reloaded; keeping the current one')
+      }
+    })
+  }
+  const onSighup = () => reload('SIGHUP')
+  const onConfigChange = (current: Stats, previous: Stats) => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      reload('file change')
+    }
+  }
+
+  fastify.addHook('onReady', async () => {
+    paymasterService.start()
+    process.on('SIGHUP', onSighup)
+    watchFile(configPath, { interval: CONFIG_POLL_INTERVAL_MS, persistent: false }, onConfigChange)
+  })
+  fastify.addHook('onClose', async () => {
+    process.off('SIGHUP', onSighup)
+    unwatchFile(configPath, onConfigChange)
+    await reloading
+    paymasterService.close()
+  })
+})
+
+declare module 'fastify' {
+  export interface FastifyInstance {
+    paymasterService: PaymasterService;
+  }
+}
@@ -0,0 +1,11 @@
+import fp from 'fastify-plugin'
+
+/**
+ * Echoes the request ID on every reply, so a caller can quote it when reporting a problem.
+ * It is the caller's X-Request-Id when one was sent, and one Fastify generated otherwise.
+ */
+export default fp(async (fastify) => {
+  fastify.addHook('onRequest', async (request, reply) => {
+    reply.header('x-request-id', request.id)
+  })
+})
@@ -0,0 +1,134 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify'
+import { timingSafeEqual } from 'node:crypto'
+import { chainKey } from '../../config/index.js'
+import { LedgerEntry, LedgerFilter, LedgerGroupBy, LedgerSummaryRow } from '../../services/sponsorshipLedger.js'
+import { toCsv } from '../../utils/csv.js'
+import type {} from '../../plugins/paymaster.js'
+
+const ENTRY_COLUMNS: (keyof LedgerEntry)[] = [
+  'timestamp', 'blockNumber', 'transactionHash', 'userOpHash', 'sender', 'project', 'entryPoint', 'paymaster',
+  'mode', 'success', 'actualGasCost', 'maxCost', 'token', 'tokenAmountPaid', 'exchangeRate', 'signedAt'
+]
+const SUMMARY_COLUMNS: (keyof LedgerSummaryRow)[] = ['key', 'token', 'ops', 'actualGasCost', 'tokenAmountPaid']
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/
+
+type LedgerQuery = {
+  sender?: string
+  project?: string
+  from?: string
+  to?: string
+  format?: 'json' | 'csv'
+  groupBy?: LedgerGroupBy
+}
+
+const ledger: FastifyPluginAsync = async (fastify, opts): Promise<void> => {
+  fastify.addHook('onRequest', async function (request, reply) {
+    if (!fastify.paymasterService.ledger) {
+      return reply.notFound('Sponsorship ledger is not configured')
+    }
+    const token = fastify.paymasterService.ledgerAuthToken
+    if (!token) {
+      return reply.notFound('Sponsorship ledger routes need ledger.authToken')
+    }
+    if (!bearerMatches(request.headers.authorization, token)) {
+      return reply.unauthorized('Invalid ledger token')
+    }
+  })
+
+  fastify.get('/:chainId/entries', { schema: { querystring: entriesQuerySchema } }, getEntries)
+  fastify.get('/:tenant/:chainId/entries', { schema: { querystring: entriesQuerySchema } }, getEntries)
+  fastify.get('/:chainId/summary', { schema: { querystring: summaryQuerySchema } }, summarize)
+  fastify.get('/:tenant/:chainId/summary', { schema: { querystring: summaryQuerySchema } }, summarize)
+
+  async function getEntries (request: FastifyRequest, reply: FastifyReply) {
+    const chain = checkChain(request, reply)
+    if (!chain) {
+      return reply
+    }
+    const query = request.query as LedgerQuery
+
+    const entries = await fastify.paymasterService.ledger!.getEntries(chain.key, toFilter(query))
+    if (query.format === 'csv') {
+      return sendCsv(reply, `ledger-${chain.name}.csv`, toCsv(entries, ENTRY_COLUMNS))
+    }
+    return { ...chain.params, entries }
+  }
+
+  async function summarize (request: FastifyRequest, reply: FastifyReply) {
+    const chain = checkChain(request, reply)
+    if (!chain) {
+      return reply
+    }
+    const query = request.query as LedgerQuery
+    const groupBy = query.groupBy ?? 'day'
+
+    const rows = await fastify.paymasterService.ledger!.summarize(chain.key, groupBy, toFilter(query))
+    if (query.format === 'csv') {
+      return sendCsv(reply, `ledger-${chain.name}-by-${groupBy}.csv`, toCsv(rows, SUMMARY_COLUMNS))
+    }
+    return { ...chain.params, groupBy, rows }
+  }
+}
+
+export default ledger
+
+/**
+ * The chain's ledger key, its name in CSV file names and the route params echoed in JSON replies
+ */
+function checkChain (
+  request: FastifyRequest,
+  reply: FastifyReply
+): { key: string, name: string, params: { chainId: string, tenant?: string } } | undefined {
+  const { tenant, chainId } = request.params as { tenant?: string, chainId: string }
+  const key = chainKey(chainId, tenant)
+  if (!request.server.paymasterService.hasChain(key)) {
+    reply.notFound(`Chain ${key} not supported`)
+    return undefined
+  }
+  return {
+    key,
+    name: tenant === undefined ? chainId : `${tenant}-${chainId}`,
+    params: tenant === undefined ? { chainId } : { chainId, tenant }
+  }
+}
+
+function toFilter (query: LedgerQuery): LedgerFilter {
+  return { sender: query.sender, project: query.project, fromDay: query.from, toDay: query.to }
+}
+
+function sendCsv (reply: FastifyReply, filename: string, csv: string) {
+  return reply
+    .header('content-type', 'text/csv; charset=utf-8')
+    .header('content-disposition', `attachment; filename="${filename}"`)
+    .send(csv)
+}
+
+function bearerMatches (header: string | undefined, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`)
+  const actual = Buffer.from(header ?? '')
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+const filterProperties = {
+  sender: { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$' },
+  project: { type: 'string' },
+  from: { type: 'string', pattern: DAY.source },
+  to: { type: 'string', pattern: DAY.source },
+  format: { type: 'string', enum: ['json', 'csv'] }
+}
+
+const entriesQuerySchema = {
+  type: 'object',
+  properties: filterProperties,
+  additionalProperties: false
+}
+
+const summaryQuerySchema = {
+  type: 'object',
+  properties: {
+    ...filterProperties,
+    groupBy: { type: 'string', enum: ['sender', 'project', 'day'] }
+  },
+  additionalProperties: false
+}
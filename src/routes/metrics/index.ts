@@ -0,0 +1,12 @@
+import { FastifyPluginAsync } from 'fastify'
+import type {} from '../../plugins/paymaster.js'
+
+const metrics: FastifyPluginAsync = async (fastify, opts): Promise<void> => {
+  // Prometheus scrape endpoint
+  fastify.get('/', async function (request, reply) {
+    const { registry } = fastify.paymasterService.metrics
+    return reply.type(registry.contentType).send(await registry.metrics())
+  })
+}
+
+export default metrics
@@ -1,57 +1,134 @@
-import { FastifyPluginAsync, FastifyRequest } from 'fastify'
-import { PaymasterService } from '../../services/paymasterService.js'
-import config from '../../config/index.js'
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify'
+import { chainKey } from '../../config/index.js'
+import { RpcError, RpcErrorCode } from '../../errors/rpcError.js'
+import { countCalls, errorResponse, handleJsonRpc, JsonRpcId, JsonRpcMethodHandler } from '../../services/jsonRpc.js'
+import type {} from '../../plugins/paymaster.js'
 
 const paymaster: FastifyPluginAsync = async (fastify, opts): Promise<void> => {
-  const paymasterService = new PaymasterService(config)
+  const paymasterService = fastify.paymasterService
 
-  fastify.post('/:chainId', { schema: pimlicoSchema }, async function (request: FastifyRequest, reply) {
-    const { id, method, params } = request.body as {
-      id: number,
-      method: string,
-      params: any[]
+  // Malformed bodies and unexpected failures are answered as JSON-RPC errors, never as stack traces
+  fastify.setErrorHandler(function (error, request, reply) {
+    if (error.validation) {
+      return reply.code(400).send(errorResponse(null, new RpcError(RpcErrorCode.InvalidRequest, 'Invalid request')))
     }
+    if (error instanceof SyntaxError || error.code?.startsWith('FST_ERR_CTP')) {
+      return reply.code(400).send(errorResponse(null, new RpcError(RpcErrorCode.ParseError, 'Parse error')))
+    }
+    request.log.error({ err: error }, 'Unhandled error in paymaster route')
+    return reply.code(500).send(errorResponse(null, new RpcError(RpcErrorCode.InternalError, 'Internal error')))
+  })
+
+  // Tenants' chains are served under their name, each with its own paymaster and signer
+  fastify.post('/:chainId', { schema: jsonRpcSchema }, serve)
+  fastify.post('/:tenant/:chainId', { schema: jsonRpcSchema }, serve)
 
-    const chainId = (request.params as { chainId: string }).chainId;
-    if (!chainId || !config.chains[chainId]) {
-      return reply.code(400).send({
-        jsonrpc: '2.0',
-        error: { code: -32603, message: 'Invalid chainId' },
-        id: id
-      })
+  async function serve (request: FastifyRequest, reply: FastifyReply) {
+    const body = request.body
+    const id = requestId(body)
+
+    const params = request.params as { tenant?: string, chainId: string }
+    const chainId = params.chainId && chainKey(params.chainId, params.tenant)
+    if (!chainId || !paymasterService.hasChain(chainId)) {
+      return reply.code(400).send(errorResponse(id, new RpcError(RpcErrorCode.InvalidRequest, 'Invalid chainId')))
     }
 
-    switch (method) {
-      case 'pimlico_getUserOperationGasPrice':
-        return await paymasterService.getUserOperationGasPrice(id, params, chainId);
-      case 'pm_getPaymasterStubData':
-        return await paymasterService.getPaymasterStubData(id, params, chainId);
-      case 'pm_getPaymasterData':
-        return await paymasterService.getPaymasterData(id, params, chainId);
-      default:
-        return reply.code(400).send({
-          jsonrpc: '2.0',
-          error: {
-            code: -32603,
-            message: 'Invalid method'
-          },
-          id: id
-        })
+    // Refused before authenticating, so an oversized batch uses none of the key's rate limit
+    const calls = countCalls(body)
+    if (calls > paymasterService.maxBatchSize) {
+      return reply.code(400).send(errorResponse(id, new RpcError(
+        RpcErrorCode.InvalidRequest,
+        `Invalid request: batch of ${calls} calls exceeds the limit of ${paymasterService.maxBatchSize}`
+      )))
     }
-  })
+
+    let project
+    try {
+      const apiKey = (request.query as { apiKey?: string }).apiKey ?? request.headers['x-api-key'] as string | undefined
+      project = await paymasterService.authenticate(apiKey, chainId, calls)
+    } catch (error) {
+      if (error instanceof RpcError) {
+        return reply.code(httpStatusFor(error)).send(errorResponse(id, error))
+      }
+      throw error
+    }
+
+    const handlers: { [method: string]: JsonRpcMethodHandler } = instrument(request, chainId, {
+      pimlico_getUserOperationGasPrice: (id, params) => paymasterService.getUserOperationGasPrice(id, params, chainId),
+      pm_getGasPriceHistory: (id, params) => paymasterService.getGasPriceHistory(id, params, chainId),
+      pm_getPaymasterStubData: (id, params) => paymasterService.getPaymasterStubData(id, params, chainId),
+      pm_getPaymasterData: (id, params) => paymasterService.getPaymasterData(id, params, chainId, project),
+      pm_quoteUserOperation: (id, params) => paymasterService.quoteUserOperation(id, params, chainId, project),
+      pm_debugUserOperation: (id, params) => paymasterService.debugUserOperation(id, params, chainId),
+      pm_supportedEntryPoints: (id) => paymasterService.getSupportedEntryPoints(id, chainId),
+      pm_getSupportedTokens: (id, params) => paymasterService.getSupportedTokens(id, params, chainId),
+      eth_chainId: (id) => paymasterService.getChainId(id, chainId)
+    })
+
+    const response = await handleJsonRpc(body, handlers, request.log)
+    if (response === undefined) {
+      return reply.code(204).send()
+    }
+    return response
+  }
 }
 
 export default paymaster
 
-const pimlicoSchema = {
+/**
+ * Record each method call's outcome and latency in the metrics and the request log
+ */
+function instrument (
+  request: FastifyRequest,
+  chainId: string,
+  handlers: { [method: string]: JsonRpcMethodHandler }
+): { [method: string]: JsonRpcMethodHandler } {
+  const metrics = request.server.paymasterService.metrics
+  return Object.fromEntries(Object.entries(handlers).map(([method, handler]) => [
+    method,
+    async (id: JsonRpcId, params: unknown[]) => {
+      const started = performance.now()
+      const done = (error?: unknown) => {
+        const durationMs = performance.now() - started
+        metrics.observeRequest(method, chainId, durationMs / 1000, error)
+        if (error === undefined) {
+          request.log.info({ method, chainId, durationMs }, 'JSON-RPC method succeeded')
+        } else if (error instanceof RpcError) {
+          request.log.info({ method, chainId, durationMs, code: error.code, data: error.data }, `JSON-RPC method failed: ${error.message}`)
+        }
+      }
+      try {
+        const response = await handler(id, params)
+        done()
+        return response
+      } catch (error) {
+        // Unexpected errors are logged with their stack by handleJsonRpc
+        done(error)
+        throw error
+      }
+    }
+  ]))
+}
+
+// Used for errors raised before dispatch, where a batch has no single id
+function requestId (body: unknown): JsonRpcId {
+  const id = (body as { id?: unknown } | null)?.id
+  return typeof id === 'string' || typeof id === 'number' ? id : null
+}
+
+function httpStatusFor (error: RpcError): number {
+  switch (error.code) {
+    case RpcErrorCode.Unauthorized:
+      return 401
+    case RpcErrorCode.LimitExceeded:
+      return 429
+    default:
+      return 400
+  }
+}
+
+const jsonRpcSchema = {
   body: {
-    type: 'object',
-    properties: {
-      id: { type: 'number', default: 1 },
-      jsonrpc: { type: 'string', default: '2.0' },
-      method: { type: 'string' },
-      params: { type: 'array' },
-    },
-    required: ['method', 'params'],
+    anyOf: [{ type: 'object' }, { type: 'array' }]
   },
 }
@@ -0,0 +1,62 @@
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify'
+import { ethers } from 'ethers'
+import { chainKey } from '../../config/index.js'
+import type {} from '../../plugins/paymaster.js'
+
+const status: FastifyPluginAsync = async (fastify, opts): Promise<void> => {
+  fastify.get('/:chainId', getStatus)
+  fastify.get('/:tenant/:chainId', getStatus)
+  fastify.get('/:chainId/rpc', getRpcHealth)
+  fastify.get('/:tenant/:chainId/rpc', getRpcHealth)
+
+  async function getStatus (request: FastifyRequest, reply: FastifyReply) {
+    const { tenant, chainId } = request.params as { tenant?: string, chainId: string }
+    const key = chainKey(chainId, tenant)
+    if (!fastify.paymasterService.hasChain(key)) {
+      return reply.notFound(`Chain ${key} not supported`)
+    }
+
+    let funding
+    try {
+      funding = await fastify.paymasterService.getStatus(key)
+    } catch (error) {
+      request.log.error({ err: error }, 'Failed to read paymaster status')
+      return reply.badGateway('Failed to read paymaster status from the chain')
+    }
+
+    return {
+      chainId,
+      ...(tenant === undefined ? {} : { tenant }),
+      paymasters: funding.map((paymaster) => ({
+        entryPoint: paymaster.entryPoint,
+        entryPointVersion: paymaster.entryPointVersion,
+        paymaster: paymaster.paymaster,
+        deposit: paymaster.deposit.toString(),
+        depositEther: ethers.formatEther(paymaster.deposit),
+        stake: {
+          staked: paymaster.staked,
+          amount: paymaster.stake.toString(),
+          unstakeDelaySec: paymaster.unstakeDelaySec,
+          withdrawTime: paymaster.withdrawTime
+        },
+        treasury: paymaster.treasury,
+        contractEntryPoint: paymaster.contractEntryPoint,
+        alerts: paymaster.alerts,
+        updatedAt: paymaster.updatedAt.toISOString()
+      }))
+    }
+  }
+
+  // Answered from local state, so it works even when every endpoint is down
+  async function getRpcHealth (request: FastifyRequest, reply: FastifyReply) {
+    const { tenant, chainId } = request.params as { tenant?: string, chainId: string }
+    const key = chainKey(chainId, tenant)
+    if (!fastify.paymasterService.hasChain(key)) {
+      return reply.notFound(`Chain ${key} not supported`)
+    }
+
+    return { chainId, ...(tenant === undefined ? {} : { tenant }), ...fastify.paymasterService.getRpcHealth(key) }
+  }
+}
+
+export default status
@@ -0,0 +1,242 @@
+import { readFile, rename, stat, writeFile } from 'node:fs/promises';
+import { SponsorshipWebhookConfig } from '../config/index.js';
+import { RpcError, RpcErrorCode } from '../errors/rpcError.js';
+
+/**
+ * A dApp project identified by an API key, with its own chains, rate limit and budget
+ */
+export interface ApiKeyProject {
+  key: string;
+  project: string;
+  /** Chains the key may use; all configured chains when absent */
+  allowedChains?: string[];
+  /** Tenants whose chains the key may use; only the top-level chains when absent */
+  allowedTenants?: string[];
+  rateLimit?: {
+    requests: number;
+    windowSeconds: number;
+  };
+  /** Cumulative sponsored gas cost in wei the key may spend */
+  sponsoredGasBudget?: string;
+  /** Asked to approve the project's ops in place of the chain's webhook */
+  sponsorshipWebhook?: SponsorshipWebhookConfig;
+}
+
+export interface ApiKeyUsage {
+  /** Cumulative max gas cost in wei of the ops signed for the key */
+  sponsoredGasCost: string;
+  sponsoredOps: number;
+  lastSponsoredAt?: string;
+}
+
+/**
+ * Storage for API key projects and their usage
+ */
+export interface ApiKeyStore {
+  getProject(key: string): Promise<ApiKeyProject | undefined>;
+  getUsage(key: string): Promise<ApiKeyUsage>;
+  /**
+   * Count an op's cost against the key unless it would take the total past `budget`, as one step so concurrent
+   * requests cannot both slip under it. Returns false, counting nothing, when the budget would be passed.
+   */
+  tryAddUsage(key: string, sponsoredGasCost: bigint, budget?: bigint): Promise<boolean>;
+  /** Take back an op counted by `tryAddUsage` that was not signed after all */
+  removeUsage(key: string, sponsoredGasCost: bigint): Promise<void>;
+}
+
+interface ApiKeyFile {
+  keys: { [key: string]: Omit<ApiKeyProject, 'key'> };
+  /** Written by earlier versions, which kept usage in the key file; seeds the usage file when there is none */
+  usage?: { [key: string]: ApiKeyUsage };
+}
+
+const EMPTY_USAGE: ApiKeyUsage = { sponsoredGasCost: '0', sponsoredOps: 0 };
+
+/**
+ * The usage file kept next to a key file: `keys.json` keeps its usage in `keys.usage.json`
+ */
+export function defaultUsagePath(keysPath: string): string {
+  return keysPath.replace(/(\.json)?$/, '.usage.json');
+}
+
+/**
+ * ApiKeyStore backed by JSON files. Keys are edited by hand and re-read whenever their file changes;
+ * usage is written by the paymaster alone, to a file of its own so it never overwrites those edits.
+ */
+export class FileApiKeyStore implements ApiKeyStore {
+  private keys?: { mtimeMs: number, file: ApiKeyFile };
+  private usage?: Promise<{ [key: string]: ApiKeyUsage }>;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string, private readonly usagePath: string = defaultUsagePath(path)) { }
+
+  private async loadKeys(): Promise<ApiKeyFile> {
+    const { mtimeMs } = await stat(this.path);
+    if (this.keys?.mtimeMs !== mtimeMs) {
+      let file: ApiKeyFile;
+      try {
+        const parsed = JSON.parse(await readFile(this.path, 'utf8')) as ApiKeyFile;
+        file = { keys: parsed.keys ?? {}, usage: parsed.usage };
+      } catch (error) {
+        // Caught mid-edit: keep serving the keys read last, and try again on the next request
+        if (this.keys) {
+          return this.keys.file;
+        }
+        throw error;
+      }
+      this.keys = { mtimeMs, file };
+    }
+    return this.keys.file;
+  }
+
+  private loadUsage(): Promise<{ [key: string]: ApiKeyUsage }> {
+    this.usage ??= readFile(this.usagePath, 'utf8').then(
+      (content) => JSON.parse(content) as { [key: string]: ApiKeyUsage },
+      async (error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+        return { ...(await this.loadKeys()).usage };
+      }
+    );
+    return this.usage;
+  }
+
+  async getProject(key: string): Promise<ApiKeyProject | undefined> {
+    const { keys } = await this.loadKeys();
+    return Object.prototype.hasOwnProperty.call(keys, key) ? { key, ...keys[key] } : undefined;
+  }
+
+  async getUsage(key: string): Promise<ApiKeyUsage> {
+    const usage = await this.loadUsage();
+    return usage[key] ?? EMPTY_USAGE;
+  }
+
+  async tryAddUsage(key: string, sponsoredGasCost: bigint, budget?: bigint): Promise<boolean> {
+    const usage = await this.loadUsage();
+    // Nothing is awaited between reading and updating the key's usage
+    const current = usage[key] ?? EMPTY_USAGE;
+    const total = BigInt(current.sponsoredGasCost) + sponsoredGasCost;
+    if (budget !== undefined && total > budget) {
+      return false;
+    }
+    usage[key] = {
+      sponsoredGasCost: total.toString(),
+      sponsoredOps: current.sponsoredOps + 1,
+      lastSponsoredAt: new Date().toISOString()
+    };
+    await this.save(usage);
+    return true;
+  }
+
+  async removeUsage(key: string, sponsoredGasCost: bigint): Promise<void> {
+    const usage = await this.loadUsage();
+    const current = usage[key] ?? EMPTY_USAGE;
+    usage[key] = {
+      ...current,
+      sponsoredGasCost: (BigInt(current.sponsoredGasCost) - sponsoredGasCost).toString(),
+      sponsoredOps: current.sponsoredOps - 1
+    };
+    await this.save(usage);
+  }
+
+  private async save(usage: { [key: string]: ApiKeyUsage }): Promise<void> {
+    // Serialize writes so concurrent requests never interleave partial files, and write each to a temporary file
+    // renamed over the last so a crash mid-write never leaves a truncated one
+    const write = this.writes.then(async () => {
+      const temporary = `${this.usagePath}.writing`;
+      await writeFile(temporary, JSON.stringify(usage, null, 2));
+      await rename(temporary, this.usagePath);
+    });
+    this.writes = write.catch(() => undefined);
+    await write;
+  }
+}
+
+/**
+ * Authenticates API keys and enforces their rate limits and sponsored gas budgets
+ */
+export class ApiKeyService {
+  private readonly requestWindows = new Map<string, { start: number, count: number }>();
+
+  constructor(private readonly store: ApiKeyStore) { }
+
+  /**
+   * Resolve the project for a key, checking that it may use the chain, served by `tenant` when it is a tenant's, and is
+   * within its rate limit. Each of the request's `calls` counts against the limit, so a batch costs as much as its
+   * calls sent one by one.
+   */
+  async authenticate(key: string | undefined, chainId: string, calls = 1, tenant?: string): Promise<ApiKeyProject> {
+    if (!key) {
+      throw new RpcError(RpcErrorCode.Unauthorized, 'Missing API key');
+    }
+
+    const project = await this.store.getProject(key);
+    if (!project) {
+      throw new RpcError(RpcErrorCode.Unauthorized, 'Invalid API key');
+    }
+
+    if (project.allowedChains && !project.allowedChains.includes(chainId)) {
+      throw new RpcError(RpcErrorCode.Unauthorized, `API key not allowed on chain ${chainId}`);
+    }
+
+    if (tenant !== undefined && !project.allowedTenants?.includes(tenant)) {
+      throw new RpcError(RpcErrorCode.Unauthorized, `API key not allowed for tenant ${tenant}`);
+    }
+
+    if (project.rateLimit) {
+      this.consumeRateLimit(project, calls);
+    }
+
+    return project;
+  }
+
+  private consumeRateLimit(project: ApiKeyProject, calls: number): void {
+    const { requests, windowSeconds } = project.rateLimit!;
+    const now = Date.now();
+    let window = this.requestWindows.get(project.key);
+
+    if (!window || now - window.start >= windowSeconds * 1000) {
+      window = { start: now, count: 0 };
+      this.requestWindows.set(project.key, window);
+    }
+
+    if (window.count + calls > requests) {
+      throw new RpcError(RpcErrorCode.LimitExceeded, `Rate limit exceeded for project ${project.project}`);
+    }
+    window.count += calls;
+  }
+
+  /**
+   * Throw if sponsoring `maxCost` more would take the project past its budget
+   */
+  async assertBudget(project: ApiKeyProject, maxCost: bigint): Promise<void> {
+    if (project.sponsoredGasBudget === undefined) {
+      return;
+    }
+
+    const usage = await this.store.getUsage(project.key);
+    if (BigInt(usage.sponsoredGasCost) + maxCost > BigInt(project.sponsoredGasBudget)) {
+      throw budgetExhausted(project);
+    }
+  }
+
+  /**
+   * Count `maxCost` against the project before its op is signed, throwing if that would pass its budget.
+   * Undo with `refundBudget` if the op is not signed after all.
+   */
+  async reserveBudget(project: ApiKeyProject, maxCost: bigint): Promise<void> {
+    const budget = project.sponsoredGasBudget === undefined ? undefined : BigInt(project.sponsoredGasBudget);
+    if (!await this.store.tryAddUsage(project.key, maxCost, budget)) {
+      throw budgetExhausted(project);
+    }
+  }
+
+  async refundBudget(project: ApiKeyProject, maxCost: bigint): Promise<void> {
+    await this.store.removeUsage(project.key, maxCost);
+  }
+}
+
+function budgetExhausted(project: ApiKeyProject): RpcError {
+  return new RpcError(RpcErrorCode.LimitExceeded, `Sponsored gas budget exhausted for project ${project.project}`);
+}
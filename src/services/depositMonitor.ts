@@ -0,0 +1,210 @@
+import { ethers } from 'ethers';
+import { DepositMonitorConfig, EntryPointVersion } from '../config/index.js';
+import { Logger, silentLogger } from '../utils/logger.js';
+
+export interface MonitoredPaymaster {
+  entryPoint: string;
+  entryPointVersion: EntryPointVersion;
+  paymasterContract: ethers.Contract;
+}
+
+export type DepositAlertType = 'lowDeposit' | 'lowStake' | 'entryPointMismatch';
+
+export interface DepositAlert {
+  type: DepositAlertType;
+  message: string;
+}
+
+/**
+ * A paymaster's EntryPoint balance as of its last poll
+ */
+export interface PaymasterFunding {
+  entryPoint: string;
+  entryPointVersion: EntryPointVersion;
+  paymaster: string;
+  deposit: bigint;
+  staked: boolean;
+  stake: bigint;
+  unstakeDelaySec: number;
+  /** Zero unless the stake is unlocked */
+  withdrawTime: number;
+  treasury: string | null;
+  /** The EntryPoint the contract reports serving */
+  contractEntryPoint: string | null;
+  alerts: DepositAlert[];
+  updatedAt: Date;
+}
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 60;
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+const entryPointInterface = new ethers.Interface([
+  'function getDepositInfo(address account) view returns (tuple(uint256 deposit, bool staked, uint112 stake, uint32 unstakeDelaySec, uint48 withdrawTime) info)'
+]);
+
+/**
+ * Polls a chain's paymaster deposits and stakes, raising webhook alerts when they fall below the configured thresholds.
+ * An alert fires once when its condition starts to hold and again only after it has cleared.
+ */
+export class DepositMonitor {
+  private funding = new Map<string, PaymasterFunding>();
+  private timer?: NodeJS.Timeout;
+  private polling?: Promise<PaymasterFunding[]>;
+
+  constructor(
+    private readonly chainId: string,
+    private readonly provider: ethers.Provider,
+    private readonly paymasters: MonitoredPaymaster[],
+    private readonly config: DepositMonitorConfig = {},
+    private readonly log: Logger = silentLogger
+  ) { }
+
+  /**
+   * Poll now and then on every interval until `stop`
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    const poll = () => this.poll().catch((error) => {
+      this.log.error({ err: error }, 'Failed to poll paymaster deposits');
+    });
+    void poll();
+    this.timer = setInterval(poll, (this.config.pollIntervalSeconds ?? DEFAULT_POLL_INTERVAL_SECONDS) * 1000);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Read every paymaster's deposit and stake, then raise alerts for new threshold breaches
+   */
+  poll(): Promise<PaymasterFunding[]> {
+    // Share one round of reads between the timer and on-demand callers
+    this.polling ??= this.readAll().finally(() => { this.polling = undefined; });
+    return this.polling;
+  }
+
+  /**
+   * The last polled funding, polling first when nothing has been read yet
+   */
+  async getFunding(): Promise<PaymasterFunding[]> {
+    if (this.funding.size < this.paymasters.length) {
+      return this.poll();
+    }
+    return [...this.funding.values()];
+  }
+
+  /**
+   * The last polled funding without polling, e.g. for metrics scrapes that must not wait on the chain
+   */
+  getLastFunding(): PaymasterFunding[] {
+    return [...this.funding.values()];
+  }
+
+  /**
+   * Last polled deposit of the paymaster serving `entryPoint`
+   */
+  async getDeposit(entryPoint: string): Promise<bigint | undefined> {
+    return (await this.getFunding()).find((funding) => funding.entryPoint === entryPoint)?.deposit;
+  }
+
+  private async readAll(): Promise<PaymasterFunding[]> {
+    const results = await Promise.all(this.paymasters.map((paymaster) => this.read(paymaster)));
+
+    for (const funding of results) {
+      const previous = this.funding.get(funding.entryPoint);
+      const raised = funding.alerts.filter((alert) => !previous?.alerts.some((known) => known.type === alert.type));
+      this.funding.set(funding.entryPoint, funding);
+      for (const alert of raised) {
+        this.log.warn({ alert: alert.type, entryPoint: funding.entryPoint }, `Paymaster alert: ${alert.message}`);
+        await this.sendAlert(funding, alert);
+      }
+    }
+
+    return results;
+  }
+
+  private async read(paymaster: MonitoredPaymaster): Promise<PaymasterFunding> {
+    const contract = paymaster.paymasterContract;
+    const address = contract.target.toString();
+
+    const [depositInfoResult, treasury, contractEntryPoint] = await Promise.all([
+      this.provider.call({
+        to: paymaster.entryPoint,
+        data: entryPointInterface.encodeFunctionData('getDepositInfo', [address])
+      }),
+      // Optional views: older paymasters may not implement them
+      contract.treasury().catch(() => null),
+      contract.entryPoint().catch(() => null)
+    ]);
+    const [info] = entryPointInterface.decodeFunctionResult('getDepositInfo', depositInfoResult);
+
+    const funding: PaymasterFunding = {
+      entryPoint: paymaster.entryPoint,
+      entryPointVersion: paymaster.entryPointVersion,
+      paymaster: address,
+      deposit: info.deposit,
+      staked: info.staked,
+      stake: info.stake,
+      unstakeDelaySec: Number(info.unstakeDelaySec),
+      withdrawTime: Number(info.withdrawTime),
+      treasury,
+      contractEntryPoint,
+      alerts: [],
+      updatedAt: new Date()
+    };
+
+    if (this.config.minDeposit !== undefined && funding.deposit < BigInt(this.config.minDeposit)) {
+      funding.alerts.push({
+        type: 'lowDeposit',
+        message: `deposit of paymaster ${address} is ${funding.deposit} wei, below ${this.config.minDeposit}`
+      });
+    }
+    if (this.config.minStake !== undefined && funding.stake < BigInt(this.config.minStake)) {
+      funding.alerts.push({
+        type: 'lowStake',
+        message: `stake of paymaster ${address} is ${funding.stake} wei, below ${this.config.minStake}`
+      });
+    }
+    if (contractEntryPoint && ethers.getAddress(contractEntryPoint) !== paymaster.entryPoint) {
+      funding.alerts.push({
+        type: 'entryPointMismatch',
+        message: `paymaster ${address} serves EntryPoint ${contractEntryPoint}, not ${paymaster.entryPoint}`
+      });
+    }
+
+    return funding;
+  }
+
+  private async sendAlert(funding: PaymasterFunding, alert: DepositAlert): Promise<void> {
+    if (!this.config.alertWebhookUrl) {
+      return;
+    }
+    try {
+      const response = await fetch(this.config.alertWebhookUrl, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          alert: alert.type,
+          message: alert.message,
+          chainId: this.chainId,
+          entryPoint: funding.entryPoint,
+          paymaster: funding.paymaster,
+          deposit: funding.deposit.toString(),
+          stake: funding.stake.toString(),
+          timestamp: funding.updatedAt.toISOString()
+        }),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      });
+      if (!response.ok) {
+        this.log.error({ alert: alert.type, status: response.status }, 'Alert webhook responded with an error');
+      }
+    } catch (error) {
+      this.log.error({ err: error, alert: alert.type }, 'Failed to deliver paymaster alert');
+    }
+  }
+}
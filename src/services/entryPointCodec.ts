@@ -0,0 +1,342 @@
+import { ethers, solidityPacked } from 'ethers';
+import { EntryPointVersion } from '../config/index.js';
+import { UserOperation } from '../types/userOperation.js';
+
+const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+/** Packed initCode prefix marking an EIP-7702 account in EntryPoint v0.8 */
+const EIP7702_INITCODE_MARKER = ethers.zeroPadBytes('0x7702', 20);
+
+const PACKED_USEROP_TYPEHASH = ethers.id(
+  'PackedUserOperation(address sender,uint256 nonce,bytes initCode,bytes callData,bytes32 accountGasLimits,uint256 preVerificationGas,bytes32 gasFees,bytes paymasterAndData)'
+);
+
+/**
+ * The paymaster part of a user operation, split into its fields
+ */
+export interface PaymasterFields {
+  paymaster: string;
+  paymasterVerificationGasLimit: bigint;
+  paymasterPostOpGasLimit: bigint;
+  paymasterData: string;
+}
+
+const PACKED_USEROP_STRUCT =
+  'tuple(address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature)';
+
+/**
+ * Version-specific packing and hashing of user operations
+ */
+export interface EntryPointCodec {
+  readonly version: EntryPointVersion;
+  /** ABI type of the on-chain UserOperation struct taken by `getHash` and `validatePaymasterUserOp` */
+  readonly userOpStructType: string;
+  /** Build the on-chain UserOperation struct for contract calls */
+  toUserOpStruct(userOp: UserOperation, paymasterAndData: string): unknown[];
+  /** Split the paymaster fields out of a user operation, or null when it names no paymaster */
+  getPaymasterFields(userOp: UserOperation): PaymasterFields | null;
+  /** Pack paymasterAndData from the paymaster address, its gas limits and the paymaster data */
+  packPaymasterAndData(
+    paymaster: string,
+    verificationGasLimit: bigint | number | string,
+    postOpGasLimit: bigint | number | string,
+    paymasterData: string
+  ): string;
+  /** The hash the paymaster signs, as computed by the contract's `getHash` */
+  getPaymasterHash(userOp: UserOperation, paymasterAndDataWithoutSignature: string, chainId: number): string;
+  /** The EntryPoint's userOpHash */
+  getUserOpHash(userOp: UserOperation, paymasterAndData: string, entryPoint: string, chainId: number): string;
+}
+
+function packUint(high128: bigint | string | number, low128: bigint | string | number): string {
+  const result = (BigInt(high128) << 128n) | BigInt(low128);
+  return ethers.zeroPadValue(ethers.toBeHex(result), 32);
+}
+
+function getAccountGasLimits(userOp: UserOperation): string {
+  return packUint(userOp.verificationGasLimit, userOp.callGasLimit);
+}
+
+function getGasFees(userOp: UserOperation): string {
+  return packUint(userOp.maxPriorityFeePerGas, userOp.maxFeePerGas);
+}
+
+/**
+ * initCode of a user operation, packed from `factory`/`factoryData` for unpacked v0.7+ ops
+ */
+export function getInitCode(userOp: UserOperation): string {
+  if (userOp.factory && userOp.factory !== '0x') {
+    const factory = ethers.dataLength(userOp.factory) === 20
+      ? userOp.factory
+      : ethers.zeroPadBytes(userOp.factory, 20);
+    return ethers.concat([factory, userOp.factoryData || '0x']);
+  }
+  return userOp.initCode || '0x';
+}
+
+/**
+ * keccak256 of the initCode, replacing the EIP-7702 marker with the authorized delegate as the v0.8 userOpHash does
+ */
+function getInitCodeHashV8(userOp: UserOperation): string {
+  const initCode = getInitCode(userOp);
+  const initCodeLength = ethers.dataLength(initCode);
+  const prefix = ethers.dataSlice(initCode, 0, Math.min(initCodeLength, 20));
+  if (initCodeLength < 2 || ethers.zeroPadBytes(prefix, 20) !== EIP7702_INITCODE_MARKER) {
+    return ethers.keccak256(initCode);
+  }
+
+  if (!userOp.eip7702Auth) {
+    throw new Error('EIP-7702 initCode requires eip7702Auth');
+  }
+  const delegate = ethers.getAddress(userOp.eip7702Auth.address);
+  return initCodeLength <= 20
+    ? ethers.keccak256(delegate)
+    : ethers.keccak256(ethers.concat([delegate, ethers.dataSlice(initCode, 20)]));
+}
+
+/**
+ * The paymaster's getHash over a packed op, which hashes the raw initCode on every EntryPoint version
+ */
+function packedPaymasterHash(userOp: UserOperation, paymasterAndDataWithoutSignature: string, chainId: number): string {
+  const userOpHash = ethers.keccak256(
+    abiCoder.encode(
+      ['address', 'uint256', 'bytes32', 'uint256', 'bytes32', 'bytes32', 'bytes32', 'bytes32'],
+      [
+        userOp.sender,
+        userOp.nonce,
+        getAccountGasLimits(userOp),
+        userOp.preVerificationGas,
+        getGasFees(userOp),
+        ethers.keccak256(getInitCode(userOp)),
+        ethers.keccak256(userOp.callData),
+        ethers.keccak256(paymasterAndDataWithoutSignature)
+      ]
+    )
+  );
+
+  return ethers.keccak256(abiCoder.encode(['bytes32', 'uint256'], [userOpHash, chainId]));
+}
+
+function toPackedUserOpStruct(userOp: UserOperation, paymasterAndData: string): unknown[] {
+  return [
+    userOp.sender,
+    userOp.nonce,
+    getInitCode(userOp),
+    userOp.callData,
+    getAccountGasLimits(userOp),
+    userOp.preVerificationGas,
+    getGasFees(userOp),
+    paymasterAndData,
+    userOp.signature
+  ];
+}
+
+function getPaymasterFieldsV7(userOp: UserOperation): PaymasterFields | null {
+  if (userOp.paymaster && userOp.paymaster !== '0x') {
+    return {
+      paymaster: ethers.getAddress(userOp.paymaster),
+      paymasterVerificationGasLimit: BigInt(userOp.paymasterVerificationGasLimit || '0'),
+      paymasterPostOpGasLimit: BigInt(userOp.paymasterPostOpGasLimit || '0'),
+      paymasterData: userOp.paymasterData || '0x'
+    };
+  }
+  if (userOp.paymasterAndData && ethers.dataLength(userOp.paymasterAndData) >= 52) {
+    return {
+      paymaster: ethers.getAddress(ethers.dataSlice(userOp.paymasterAndData, 0, 20)),
+      paymasterVerificationGasLimit: BigInt(ethers.dataSlice(userOp.paymasterAndData, 20, 36)),
+      paymasterPostOpGasLimit: BigInt(ethers.dataSlice(userOp.paymasterAndData, 36, 52)),
+      paymasterData: ethers.dataSlice(userOp.paymasterAndData, 52)
+    };
+  }
+  return null;
+}
+
+function packPaymasterAndDataV7(
+  paymaster: string,
+  verificationGasLimit: bigint | number | string,
+  postOpGasLimit: bigint | number | string,
+  paymasterData: string
+): string {
+  return solidityPacked(
+    ['address', 'uint128', 'uint128', 'bytes'],
+    [paymaster, BigInt(verificationGasLimit), BigInt(postOpGasLimit), paymasterData]
+  );
+}
+
+const entryPointV06: EntryPointCodec = {
+  version: '0.6',
+
+  userOpStructType:
+    'tuple(address sender, uint256 nonce, bytes initCode, bytes callData, uint256 callGasLimit, uint256 verificationGasLimit, uint256 preVerificationGas, uint256 maxFeePerGas, uint256 maxPriorityFeePerGas, bytes paymasterAndData, bytes signature)',
+
+  toUserOpStruct(userOp, paymasterAndData) {
+    return [
+      userOp.sender,
+      userOp.nonce,
+      getInitCode(userOp),
+      userOp.callData,
+      userOp.callGasLimit,
+      userOp.verificationGasLimit,
+      userOp.preVerificationGas,
+      userOp.maxFeePerGas,
+      userOp.maxPriorityFeePerGas,
+      paymasterAndData,
+      userOp.signature
+    ];
+  },
+
+  getPaymasterFields(userOp) {
+    if (!userOp.paymasterAndData || ethers.dataLength(userOp.paymasterAndData) < 20) {
+      return null;
+    }
+    return {
+      paymaster: ethers.getAddress(ethers.dataSlice(userOp.paymasterAndData, 0, 20)),
+      paymasterVerificationGasLimit: 0n,
+      paymasterPostOpGasLimit: 0n,
+      paymasterData: ethers.dataSlice(userOp.paymasterAndData, 20)
+    };
+  },
+
+  // v0.6 has no paymaster gas limits in paymasterAndData; the account's verificationGasLimit covers the paymaster
+  packPaymasterAndData(paymaster, _verificationGasLimit, _postOpGasLimit, paymasterData) {
+    return solidityPacked(['address', 'bytes'], [paymaster, paymasterData]);
+  },
+
+  getPaymasterHash(userOp, paymasterAndDataWithoutSignature, chainId) {
+    const userOpHash = ethers.keccak256(
+      abiCoder.encode(
+        ['address', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'bytes32', 'bytes32', 'bytes32'],
+        [
+          userOp.sender,
+          userOp.nonce,
+          userOp.callGasLimit,
+          userOp.verificationGasLimit,
+          userOp.preVerificationGas,
+          userOp.maxFeePerGas,
+          userOp.maxPriorityFeePerGas,
+          ethers.keccak256(getInitCode(userOp)),
+          ethers.keccak256(userOp.callData),
+          ethers.keccak256(paymasterAndDataWithoutSignature)
+        ]
+      )
+    );
+
+    return ethers.keccak256(abiCoder.encode(['bytes32', 'uint256'], [userOpHash, chainId]));
+  },
+
+  getUserOpHash(userOp, paymasterAndData, entryPoint, chainId) {
+    const packed = abiCoder.encode(
+      ['address', 'uint256', 'bytes32', 'bytes32', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'bytes32'],
+      [
+        userOp.sender,
+        userOp.nonce,
+        ethers.keccak256(getInitCode(userOp)),
+        ethers.keccak256(userOp.callData),
+        userOp.callGasLimit,
+        userOp.verificationGasLimit,
+        userOp.preVerificationGas,
+        userOp.maxFeePerGas,
+        userOp.maxPriorityFeePerGas,
+        ethers.keccak256(paymasterAndData)
+      ]
+    );
+
+    return ethers.keccak256(
+      abiCoder.encode(['bytes32', 'address', 'uint256'], [ethers.keccak256(packed), entryPoint, chainId])
+    );
+  }
+};
+
+const entryPointV07: EntryPointCodec = {
+  version: '0.7',
+
+  userOpStructType: PACKED_USEROP_STRUCT,
+
+  toUserOpStruct: toPackedUserOpStruct,
+
+  getPaymasterFields: getPaymasterFieldsV7,
+
+  packPaymasterAndData: packPaymasterAndDataV7,
+
+  getPaymasterHash(userOp, paymasterAndDataWithoutSignature, chainId) {
+    return packedPaymasterHash(userOp, paymasterAndDataWithoutSignature, chainId);
+  },
+
+  getUserOpHash(userOp, paymasterAndData, entryPoint, chainId) {
+    const packed = abiCoder.encode(
+      ['address', 'uint256', 'bytes32', 'bytes32', 'bytes32', 'uint256', 'bytes32', 'bytes32'],
+      [
+        userOp.sender,
+        userOp.nonce,
+        ethers.keccak256(getInitCode(userOp)),
+        ethers.keccak256(userOp.callData),
+        getAccountGasLimits(userOp),
+        userOp.preVerificationGas,
+        getGasFees(userOp),
+        ethers.keccak256(paymasterAndData)
+      ]
+    );
+
+    return ethers.keccak256(
+      abiCoder.encode(['bytes32', 'address', 'uint256'], [ethers.keccak256(packed), entryPoint, chainId])
+    );
+  }
+};
+
+const entryPointV08: EntryPointCodec = {
+  version: '0.8',
+
+  userOpStructType: PACKED_USEROP_STRUCT,
+
+  toUserOpStruct: toPackedUserOpStruct,
+
+  getPaymasterFields: getPaymasterFieldsV7,
+
+  packPaymasterAndData: packPaymasterAndDataV7,
+
+  getPaymasterHash(userOp, paymasterAndDataWithoutSignature, chainId) {
+    return packedPaymasterHash(userOp, paymasterAndDataWithoutSignature, chainId);
+  },
+
+  // EIP-712 typed data hash over the PackedUserOperation, with the EntryPoint as verifying contract
+  getUserOpHash(userOp, paymasterAndData, entryPoint, chainId) {
+    const structHash = ethers.keccak256(
+      abiCoder.encode(
+        ['bytes32', 'address', 'uint256', 'bytes32', 'bytes32', 'bytes32', 'uint256', 'bytes32', 'bytes32'],
+        [
+          PACKED_USEROP_TYPEHASH,
+          userOp.sender,
+          userOp.nonce,
+          getInitCodeHashV8(userOp),
+          ethers.keccak256(userOp.callData),
+          getAccountGasLimits(userOp),
+          userOp.preVerificationGas,
+          getGasFees(userOp),
+          ethers.keccak256(paymasterAndData)
+        ]
+      )
+    );
+    const domainSeparator = ethers.TypedDataEncoder.hashDomain({
+      name: 'ERC4337',
+      version: '1',
+      chainId,
+      verifyingContract: entryPoint
+    });
+
+    return ethers.keccak256(ethers.concat(['0x1901', domainSeparator, structHash]));
+  }
+};
+
+const codecs: { [version in EntryPointVersion]: EntryPointCodec } = {
+  '0.6': entryPointV06,
+  '0.7': entryPointV07,
+  '0.8': entryPointV08
+};
+
+export function getEntryPointCodec(version: EntryPointVersion): EntryPointCodec {
+  const codec = codecs[version];
+  if (!codec) {
+    throw new Error(`Unsupported EntryPoint version: ${version}`);
+  }
+  return codec;
+}
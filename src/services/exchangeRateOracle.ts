@@ -0,0 +1,253 @@
+import { ethers } from 'ethers';
+import { ExchangeRateSourceConfig, TokenConfig } from '../config/index.js';
+import { Logger, silentLogger } from '../utils/logger.js';
+
+/**
+ * A raw rate as read from its source, in token units per 1e18 wei and before markup
+ */
+export interface ExchangeRateReading {
+  rate: bigint;
+  updatedAt: Date;
+}
+
+/**
+ * Reads one token's exchange rate. Implemented for static values, on-chain aggregators and HTTP feeds.
+ */
+export interface ExchangeRateSource {
+  readonly type: ExchangeRateSourceConfig['type'];
+  read(): Promise<ExchangeRateReading>;
+}
+
+/**
+ * A token's current rate with markup, as signed into token-mode paymasterData
+ */
+export interface ExchangeRateQuote {
+  token: string;
+  /** Token units per 1e18 wei, markup included */
+  exchangeRate: bigint;
+  /** The rate as read from the source */
+  sourceRate: bigint;
+  source: ExchangeRateSourceConfig['type'];
+  updatedAt: Date;
+}
+
+const DEFAULT_MAX_AGE_SECONDS = 3600;
+const DEFAULT_CACHE_TTL_SECONDS = 30;
+const DEFAULT_HTTP_TIMEOUT_MS = 5000;
+const PRICE_DECIMALS = 18;
+const WEI_PER_NATIVE = 10n ** 18n;
+
+const aggregatorInterface = new ethers.Interface([
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)'
+]);
+
+/**
+ * Convert a price with `priceDecimals` decimals into token units per 1e18 wei.
+ * The price is of the native token in the token, or of the token in the native token when `inverse`.
+ */
+export function priceToExchangeRate(price: bigint, priceDecimals: number, tokenDecimals: number, inverse = false): bigint {
+  if (price <= 0n) {
+    throw new Error(`Price must be positive, got ${price}`);
+  }
+  const tokenUnit = 10n ** BigInt(tokenDecimals);
+  const priceUnit = 10n ** BigInt(priceDecimals);
+  return inverse ? tokenUnit * priceUnit / price : price * tokenUnit / priceUnit;
+}
+
+class StaticExchangeRateSource implements ExchangeRateSource {
+  readonly type = 'static';
+
+  constructor(private readonly rate: bigint) { }
+
+  // A configured rate does not age
+  async read(): Promise<ExchangeRateReading> {
+    return { rate: this.rate, updatedAt: new Date() };
+  }
+}
+
+class ChainlinkExchangeRateSource implements ExchangeRateSource {
+  readonly type = 'chainlink';
+  private feedDecimals?: number;
+
+  constructor(
+    private readonly provider: ethers.Provider,
+    private readonly aggregator: string,
+    private readonly tokenDecimals: number,
+    private readonly inverse: boolean
+  ) { }
+
+  async read(): Promise<ExchangeRateReading> {
+    this.feedDecimals ??= Number(aggregatorInterface.decodeFunctionResult('decimals', await this.provider.call({
+      to: this.aggregator,
+      data: aggregatorInterface.encodeFunctionData('decimals')
+    }))[0]);
+    const [, answer, , updatedAt] = aggregatorInterface.decodeFunctionResult('latestRoundData', await this.provider.call({
+      to: this.aggregator,
+      data: aggregatorInterface.encodeFunctionData('latestRoundData')
+    }));
+    return {
+      rate: priceToExchangeRate(answer, this.feedDecimals, this.tokenDecimals, this.inverse),
+      updatedAt: new Date(Number(updatedAt) * 1000)
+    };
+  }
+}
+
+function readField(body: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => typeof value === 'object' && value !== null ? (value as { [key: string]: unknown })[key] : undefined,
+    body
+  );
+}
+
+class HttpExchangeRateSource implements ExchangeRateSource {
+  readonly type = 'http';
+
+  constructor(
+    private readonly config: Extract<ExchangeRateSourceConfig, { type: 'http' }>,
+    private readonly tokenDecimals: number
+  ) { }
+
+  async read(): Promise<ExchangeRateReading> {
+    const response = await fetch(this.config.url, {
+      headers: { accept: 'application/json', ...this.config.headers },
+      signal: AbortSignal.timeout(this.config.timeoutMs ?? DEFAULT_HTTP_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Price feed responded with HTTP ${response.status}`);
+    }
+    const body = await response.json();
+
+    const price = readField(body, this.config.priceField ?? 'price');
+    if (typeof price !== 'string' && typeof price !== 'number') {
+      throw new Error(`Price feed response has no ${this.config.priceField ?? 'price'}`);
+    }
+    const updatedAt = this.config.updatedAtField === undefined ? undefined : readField(body, this.config.updatedAtField);
+    if (this.config.updatedAtField !== undefined && typeof updatedAt !== 'number') {
+      throw new Error(`Price feed response has no numeric ${this.config.updatedAtField}`);
+    }
+
+    return {
+      rate: priceToExchangeRate(
+        ethers.parseUnits(typeof price === 'number' ? price.toFixed(PRICE_DECIMALS) : price, PRICE_DECIMALS),
+        PRICE_DECIMALS,
+        this.tokenDecimals,
+        this.config.inverse
+      ),
+      updatedAt: updatedAt === undefined ? new Date() : new Date(updatedAt as number * 1000)
+    };
+  }
+}
+
+/**
+ * Build the rate source a token configures, checking what it needs is there
+ */
+export function createExchangeRateSource(token: string, config: TokenConfig, provider: ethers.Provider): ExchangeRateSource {
+  const source: ExchangeRateSourceConfig = config.rate ?? { type: 'static', exchangeRate: config.exchangeRate ?? '' };
+  if (source.type === 'static') {
+    let rate: bigint;
+    try {
+      rate = BigInt(source.exchangeRate);
+    } catch {
+      rate = 0n;
+    }
+    if (rate <= 0n) {
+      throw new Error(`Invalid exchange rate configured for token ${token}`);
+    }
+    return new StaticExchangeRateSource(rate);
+  }
+
+  if (config.decimals === undefined) {
+    throw new Error(`Token ${token} needs decimals to convert the prices of its ${source.type} feed`);
+  }
+  return source.type === 'chainlink'
+    ? new ChainlinkExchangeRateSource(provider, ethers.getAddress(source.aggregator), config.decimals, source.inverse ?? false)
+    : new HttpExchangeRateSource(source, config.decimals);
+}
+
+interface TokenRate {
+  source: ExchangeRateSource;
+  markupBps: bigint;
+  maxAgeMs: number;
+  cacheTtlMs: number;
+  cached?: { quote: ExchangeRateQuote, readAt: number };
+  reading?: Promise<ExchangeRateQuote>;
+}
+
+/**
+ * Current exchange rates of a chain's tokens, read from their sources, marked up and cached.
+ * A rate older than the token's `maxAgeSeconds` is refused rather than signed; a cached rate still within it
+ * is served when its source fails to refresh.
+ */
+export class ExchangeRateOracle {
+  private readonly rates = new Map<string, TokenRate>();
+
+  constructor(
+    tokens: { [token: string]: TokenConfig },
+    provider: ethers.Provider,
+    private readonly log: Logger = silentLogger
+  ) {
+    for (const [token, config] of Object.entries(tokens)) {
+      const source = createExchangeRateSource(token, config, provider);
+      this.rates.set(token, {
+        source,
+        markupBps: BigInt(Math.round((config.markupPercent ?? 0) * 100)),
+        maxAgeMs: source.type === 'static' ? Infinity : (config.maxAgeSeconds ?? DEFAULT_MAX_AGE_SECONDS) * 1000,
+        cacheTtlMs: source.type === 'static' ? Infinity : (config.cacheTtlSeconds ?? DEFAULT_CACHE_TTL_SECONDS) * 1000
+      });
+    }
+  }
+
+  async getRate(token: string): Promise<ExchangeRateQuote> {
+    const rate = this.rates.get(token);
+    if (!rate) {
+      throw new Error(`No exchange rate configured for token ${token}`);
+    }
+
+    if (rate.cached && Date.now() - rate.cached.readAt < rate.cacheTtlMs) {
+      return this.checkFresh(rate, rate.cached.quote);
+    }
+
+    rate.reading ??= this.read(token, rate).finally(() => { rate.reading = undefined; });
+    try {
+      return this.checkFresh(rate, await rate.reading);
+    } catch (error) {
+      if (!rate.cached) {
+        throw error;
+      }
+      this.log.warn({ err: error, token }, 'Failed to refresh exchange rate, using the cached one');
+      return this.checkFresh(rate, rate.cached.quote);
+    }
+  }
+
+  private async read(token: string, rate: TokenRate): Promise<ExchangeRateQuote> {
+    const reading = await rate.source.read();
+    const quote: ExchangeRateQuote = {
+      token,
+      exchangeRate: reading.rate * (10000n + rate.markupBps) / 10000n,
+      sourceRate: reading.rate,
+      source: rate.source.type,
+      updatedAt: reading.updatedAt
+    };
+    if (quote.exchangeRate <= 0n) {
+      throw new Error(`Exchange rate for token ${token} rounds to zero`);
+    }
+    rate.cached = { quote, readAt: Date.now() };
+    return quote;
+  }
+
+  private checkFresh(rate: TokenRate, quote: ExchangeRateQuote): ExchangeRateQuote {
+    const age = Date.now() - quote.updatedAt.getTime();
+    if (age > rate.maxAgeMs) {
+      throw new Error(`Exchange rate for token ${quote.token} is stale: last updated ${Math.round(age / 1000)}s ago`);
+    }
+    return quote;
+  }
+}
+
+/**
+ * The most tokens the paymaster can charge for `maxGasCost`, as computed by the contract's `getCostInToken`
+ */
+export function getCostInToken(maxGasCost: bigint, postOpGas: bigint, feePerGas: bigint, exchangeRate: bigint): bigint {
+  return (maxGasCost + postOpGas * feePerGas) * exchangeRate / WEI_PER_NATIVE;
+}
@@ -0,0 +1,287 @@
+import { ethers } from 'ethers';
+import { RpcFailoverConfig } from '../config/index.js';
+
+type JsonRpcPayloads = ethers.JsonRpcPayload | ethers.JsonRpcPayload[];
+// JsonRpcProvider types these as results, though error responses come back in the same array
+type JsonRpcResponses = ethers.JsonRpcResult[];
+
+function rpcErrorOf(response: ethers.JsonRpcResult): ethers.JsonRpcError['error'] | undefined {
+  return (response as Partial<ethers.JsonRpcError>).error;
+}
+
+/**
+ * An RPC endpoint's circuit and request history, as reported on the status route
+ */
+export interface RpcEndpointHealth {
+  /** Origin only; paths and query strings often carry API keys */
+  url: string;
+  /**
+   * `open` endpoints are skipped until their cooldown ends. `halfOpen` ones then take one trial request at a time,
+   * which closes the circuit if it succeeds and opens it again if it fails.
+   */
+  state: 'closed' | 'open' | 'halfOpen';
+  consecutiveFailures: number;
+  requests: number;
+  failures: number;
+  /** Moving average over successful requests */
+  latencyMs: number | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+}
+
+export interface RpcHealth {
+  strategy: 'priority' | 'quorum';
+  endpoints: RpcEndpointHealth[];
+}
+
+/**
+ * Told about every request made to a single endpoint, e.g. to export latency metrics
+ */
+export type RpcRequestObserver = (endpoint: string, durationMs: number, outcome: 'success' | 'error') => void;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BACKOFF_MS = 200;
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_SECONDS = 30;
+const LATENCY_SMOOTHING = 0.2;
+
+// Node-side failures, as opposed to answers such as a reverted eth_call, which every node would give
+const ENDPOINT_ERROR_CODES = new Set([-32603, -32005]);
+
+function redactUrl(url: string): string {
+  try {
+    const { origin, pathname, search } = new URL(url);
+    return pathname.length > 1 || search ? `${origin}/***` : origin;
+  } catch {
+    return '***';
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+class RpcEndpoint {
+  readonly provider: ethers.JsonRpcProvider;
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  /** Set while the one request a half-open circuit lets through is in flight */
+  private trialInFlight = false;
+  private requests = 0;
+  private failures = 0;
+  private latencyMs: number | null = null;
+  private lastSuccessAt: Date | null = null;
+  private lastFailureAt: Date | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    readonly url: string,
+    network: ethers.Network,
+    timeoutMs: number,
+    private readonly failureThreshold: number,
+    private readonly cooldownMs: number,
+    private readonly observer?: RpcRequestObserver
+  ) {
+    const request = new ethers.FetchRequest(url);
+    request.timeout = timeoutMs;
+    // Retries are ours to make, against the next endpoint rather than the throttling one
+    request.setThrottleParams({ maxAttempts: 1 });
+    this.provider = new ethers.JsonRpcProvider(request, network, { staticNetwork: network, batchMaxCount: 1 });
+  }
+
+  isAvailable(now: number): boolean {
+    return now >= this.openUntil && !this.trialInFlight;
+  }
+
+  async send(payload: JsonRpcPayloads): Promise<JsonRpcResponses> {
+    const started = Date.now();
+    // Claimed before the first await, so requests sent side by side cannot both take the trial
+    const trial = this.consecutiveFailures >= this.failureThreshold && !this.trialInFlight;
+    this.trialInFlight ||= trial;
+    this.requests++;
+    try {
+      const responses = await this.provider._send(payload);
+      const failed = responses.map(rpcErrorOf).find((error) => error && ENDPOINT_ERROR_CODES.has(error.code));
+      if (failed) {
+        throw new Error(`RPC error ${failed.code}: ${failed.message}`);
+      }
+      this.recordSuccess(Date.now() - started);
+      this.observer?.(redactUrl(this.url), Date.now() - started, 'success');
+      return responses;
+    } catch (error) {
+      this.recordFailure(error);
+      this.observer?.(redactUrl(this.url), Date.now() - started, 'error');
+      throw error;
+    } finally {
+      if (trial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  private recordSuccess(latencyMs: number): void {
+    this.consecutiveFailures = 0;
+    this.openUntil = 0;
+    this.lastSuccessAt = new Date();
+    this.latencyMs = this.latencyMs === null
+      ? latencyMs
+      : Math.round(this.latencyMs + (latencyMs - this.latencyMs) * LATENCY_SMOOTHING);
+  }
+
+  private recordFailure(error: unknown): void {
+    this.failures++;
+    this.consecutiveFailures++;
+    this.lastFailureAt = new Date();
+    this.lastError = error instanceof Error ? error.message : String(error);
+    if (this.consecutiveFailures >= this.failureThreshold) {
+      this.openUntil = Date.now() + this.cooldownMs;
+    }
+  }
+
+  getHealth(): RpcEndpointHealth {
+    const now = Date.now();
+    return {
+      url: redactUrl(this.url),
+      state: this.consecutiveFailures < this.failureThreshold ? 'closed' : now < this.openUntil ? 'open' : 'halfOpen',
+      consecutiveFailures: this.consecutiveFailures,
+      requests: this.requests,
+      failures: this.failures,
+      latencyMs: this.latencyMs,
+      lastSuccessAt: this.lastSuccessAt?.toISOString() ?? null,
+      lastFailureAt: this.lastFailureAt?.toISOString() ?? null,
+      lastError: this.lastError
+    };
+  }
+}
+
+/**
+ * Identifies a response by its content, so answers from different nodes can be compared
+ */
+function responseKey(responses: JsonRpcResponses): string {
+  return JSON.stringify(
+    [...responses]
+      .sort((a, b) => Number(a.id) - Number(b.id))
+      .map((response) => rpcErrorOf(response) ? { error: rpcErrorOf(response) } : { result: response.result })
+  );
+}
+
+/**
+ * A JsonRpcProvider spread over several endpoints of one chain. `priority` sends each request to the first
+ * healthy endpoint and fails over down the list; `quorum` sends it to every healthy endpoint and returns the answer
+ * at least `quorum` of them agree on. Endpoints that keep failing are skipped until their cooldown ends.
+ */
+export class FailoverJsonRpcProvider extends ethers.JsonRpcProvider {
+  private readonly endpoints: RpcEndpoint[];
+  private readonly strategy: 'priority' | 'quorum';
+  private readonly quorum: number;
+  private readonly retries: number;
+  private readonly backoffMs: number;
+
+  constructor(urls: string[], chainId: number, config: RpcFailoverConfig = {}, observer?: RpcRequestObserver) {
+    if (urls.length === 0) {
+      throw new Error(`No RPC endpoints configured for chain ${chainId}`);
+    }
+    const network = ethers.Network.from(chainId);
+    super(undefined, network, { staticNetwork: network, batchMaxCount: 1 });
+
+    this.endpoints = urls.map((url) => new RpcEndpoint(
+      url,
+      network,
+      config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      config.circuitBreaker?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+      (config.circuitBreaker?.cooldownSeconds ?? DEFAULT_COOLDOWN_SECONDS) * 1000,
+      observer
+    ));
+    this.strategy = config.strategy ?? 'priority';
+    this.quorum = config.quorum ?? Math.floor(urls.length / 2) + 1;
+    if (this.strategy === 'quorum' && (this.quorum < 1 || this.quorum > urls.length)) {
+      throw new Error(`Quorum ${this.quorum} is not reachable with ${urls.length} RPC endpoints on chain ${chainId}`);
+    }
+    this.retries = config.retries ?? DEFAULT_RETRIES;
+    this.backoffMs = config.backoffMs ?? DEFAULT_BACKOFF_MS;
+  }
+
+  async _send(payload: JsonRpcPayloads): Promise<JsonRpcResponses> {
+    let lastError: unknown;
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      if (attempt > 0) {
+        await sleep(this.backoffMs * 2 ** (attempt - 1));
+      }
+      try {
+        return this.strategy === 'quorum' ? await this.sendQuorum(payload) : await this.sendPriority(payload);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Endpoints whose circuit lets requests through, or all of them when none does, rather than failing outright
+   */
+  private availableEndpoints(): RpcEndpoint[] {
+    const now = Date.now();
+    const available = this.endpoints.filter((endpoint) => endpoint.isAvailable(now));
+    return available.length > 0 ? available : this.endpoints;
+  }
+
+  private async sendPriority(payload: JsonRpcPayloads): Promise<JsonRpcResponses> {
+    const endpoints = this.availableEndpoints();
+    const fallback = endpoints === this.endpoints;
+    let lastError: unknown = new Error('No RPC endpoint is available');
+    for (const endpoint of endpoints) {
+      // Another request may have taken a half-open endpoint's trial while those before it were tried
+      if (!fallback && !endpoint.isAvailable(Date.now())) {
+        continue;
+      }
+      try {
+        return await endpoint.send(payload);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Resolves as soon as `quorum` endpoints gave the same answer, without waiting for slow ones
+   */
+  private sendQuorum(payload: JsonRpcPayloads): Promise<JsonRpcResponses> {
+    const endpoints = this.availableEndpoints();
+    const votes = new Map<string, number>();
+    let settled = 0;
+
+    return new Promise((resolve, reject) => {
+      for (const endpoint of endpoints) {
+        endpoint.send(payload)
+          .then((responses) => {
+            const key = responseKey(responses);
+            const count = (votes.get(key) ?? 0) + 1;
+            votes.set(key, count);
+            if (count >= this.quorum) {
+              resolve(responses);
+            }
+          }, () => undefined)
+          .finally(() => {
+            if (++settled === endpoints.length) {
+              const counts = [...votes.values()];
+              reject(new Error(`RPC quorum of ${this.quorum} not reached: ${counts.length ? counts.join('/') : 'no'} matching answers`));
+            }
+          });
+      }
+    });
+  }
+
+  getHealth(): RpcHealth {
+    return { strategy: this.strategy, endpoints: this.endpoints.map((endpoint) => endpoint.getHealth()) };
+  }
+
+  destroy(): void {
+    for (const endpoint of this.endpoints) {
+      endpoint.provider.destroy();
+    }
+    super.destroy();
+  }
+}
@@ -0,0 +1,136 @@
+import { ethers } from 'ethers';
+import { GasEstimationConfig } from '../config/index.js';
+import { PaymasterMode } from '../types/paymaster.js';
+import { UserOperation } from '../types/userOperation.js';
+import { Logger, silentLogger } from '../utils/logger.js';
+import { EntryPointCodec } from './entryPointCodec.js';
+import { paymasterInterface } from './paymasterVerifier.js';
+
+export interface PaymasterGasLimits {
+  verificationGasLimit: bigint;
+  postOpGasLimit: bigint;
+}
+
+export interface GasEstimationRequest {
+  /** Identifies what the estimate may be reused for, e.g. chain, EntryPoint and mode */
+  cacheKey: string;
+  provider: ethers.Provider;
+  paymaster: string;
+  entryPoint: string;
+  codec: EntryPointCodec;
+  mode: PaymasterMode;
+  userOp: UserOperation;
+  chainId: number;
+  maxCost: bigint;
+  /**
+   * Stub paymasterAndData for the given limits. The simulation goes to a third-party node, so it must carry nothing
+   * that could get the op sponsored; a stub signature costs the same to check as a real one.
+   */
+  stubPaymasterAndData(verificationGasLimit: bigint, postOpGasLimit: bigint): string;
+}
+
+const DEFAULT_MULTIPLIER = 1.2;
+const DEFAULT_CACHE_TTL_SECONDS = 300;
+const DEFAULT_FALLBACK_VERIFICATION_GAS_LIMIT = 100000;
+const DEFAULT_FALLBACK_POST_OP_GAS_LIMIT = 50000;
+
+const POST_OP_MODE_SUCCEEDED = 0;
+const TX_BASE_GAS = 21000n;
+// The EntryPoint counts its own work against paymasterVerificationGasLimit too: charging the paymaster's deposit and
+// the cold call into it, neither of which a direct call from the EntryPoint's address pays for
+const ENTRY_POINT_VALIDATION_OVERHEAD = 10000n;
+
+// estimateGas covers a whole transaction; strip the intrinsic cost to get the execution gas
+function intrinsicGas(data: string): bigint {
+  let gas = TX_BASE_GAS;
+  for (const byte of ethers.getBytes(data)) {
+    gas += byte === 0 ? 4n : 16n;
+  }
+  return gas;
+}
+
+/**
+ * Derives paymasterVerificationGasLimit / paymasterPostOpGasLimit by simulating the paymaster,
+ * caching the result per chain, EntryPoint and mode
+ */
+export class PaymasterGasEstimator {
+  private readonly cache = new Map<string, { limits: PaymasterGasLimits, expiresAt: number }>();
+
+  constructor(
+    private readonly config: GasEstimationConfig = {},
+    private readonly log: Logger = silentLogger
+  ) { }
+
+  private get fallbackVerificationGasLimit(): bigint {
+    return BigInt(this.config.fallbackVerificationGasLimit ?? DEFAULT_FALLBACK_VERIFICATION_GAS_LIMIT);
+  }
+
+  private get fallbackPostOpGasLimit(): bigint {
+    return BigInt(this.config.fallbackPostOpGasLimit ?? DEFAULT_FALLBACK_POST_OP_GAS_LIMIT);
+  }
+
+  private applyMultiplier(gas: bigint): bigint {
+    const multiplier = this.config.multiplier ?? DEFAULT_MULTIPLIER;
+    return gas * BigInt(Math.round(multiplier * 1000)) / 1000n;
+  }
+
+  private async simulate(request: GasEstimationRequest, data: string): Promise<bigint> {
+    const gas = await request.provider.estimateGas({ from: request.entryPoint, to: request.paymaster, data });
+    const executionGas = gas - intrinsicGas(data);
+    return executionGas > 0n ? executionGas : 0n;
+  }
+
+  async estimate(request: GasEstimationRequest): Promise<PaymasterGasLimits> {
+    const cached = this.cache.get(request.cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.limits;
+    }
+
+    const iface = paymasterInterface(request.codec);
+    // Free sponsorship returns an empty context, so the EntryPoint never calls postOp
+    const needsPostOp = request.mode === PaymasterMode.Erc20;
+    const fallback: PaymasterGasLimits = {
+      verificationGasLimit: this.fallbackVerificationGasLimit,
+      postOpGasLimit: needsPostOp ? this.fallbackPostOpGasLimit : 0n
+    };
+
+    let validateData: string;
+    let verificationGasLimit: bigint;
+    try {
+      const paymasterAndData = request.stubPaymasterAndData(fallback.verificationGasLimit, fallback.postOpGasLimit);
+      const userOpHash = request.codec.getUserOpHash(request.userOp, paymasterAndData, request.entryPoint, request.chainId);
+      validateData = iface.encodeFunctionData('validatePaymasterUserOp', [
+        request.codec.toUserOpStruct(request.userOp, paymasterAndData),
+        userOpHash,
+        request.maxCost
+      ]);
+      verificationGasLimit = this.applyMultiplier(await this.simulate(request, validateData) + ENTRY_POINT_VALIDATION_OVERHEAD);
+    } catch (error) {
+      this.log.warn({ err: error, cacheKey: request.cacheKey }, 'Failed to simulate validatePaymasterUserOp, using fallback gas limits');
+      return fallback;
+    }
+
+    let postOpGasLimit = 0n;
+    if (needsPostOp) {
+      try {
+        const result = await request.provider.call({ from: request.entryPoint, to: request.paymaster, data: validateData });
+        const [context] = iface.decodeFunctionResult('validatePaymasterUserOp', result);
+        const postOpArgs = request.codec.version === '0.6'
+          ? [POST_OP_MODE_SUCCEEDED, context, request.maxCost]
+          : [POST_OP_MODE_SUCCEEDED, context, request.maxCost, BigInt(request.userOp.maxFeePerGas)];
+        postOpGasLimit = this.applyMultiplier(await this.simulate(request, iface.encodeFunctionData('postOp', postOpArgs)));
+      } catch (error) {
+        // postOp pulls tokens from the sender, which reverts in simulation until the account holds and approves them
+        this.log.warn({ err: error, cacheKey: request.cacheKey }, 'Failed to simulate postOp, using fallback postOp gas limit');
+        return { verificationGasLimit, postOpGasLimit: fallback.postOpGasLimit };
+      }
+    }
+
+    const limits = { verificationGasLimit, postOpGasLimit };
+    this.cache.set(request.cacheKey, {
+      limits,
+      expiresAt: Date.now() + (this.config.cacheTtlSeconds ?? DEFAULT_CACHE_TTL_SECONDS) * 1000
+    });
+    return limits;
+  }
+}
@@ -0,0 +1,164 @@
+import { ethers } from 'ethers';
+import { GasPriceConfig } from '../config/index.js';
+import { Logger, silentLogger } from '../utils/logger.js';
+
+export interface GasPriceTier {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export interface GasPriceTiers {
+  slow: GasPriceTier;
+  standard: GasPriceTier;
+  fast: GasPriceTier;
+}
+
+/**
+ * Fees observed in one sampled block
+ */
+export interface GasPriceHistoryEntry {
+  blockNumber: number;
+  baseFeePerGas: bigint;
+  gasUsedRatio: number;
+  /** Priority fee rewards at the slow, standard and fast percentiles */
+  priorityFees: [bigint, bigint, bigint];
+}
+
+export interface GasPriceSnapshot {
+  tiers: GasPriceTiers;
+  /** Base fee expected for the next block, or null on legacy chains */
+  baseFeePerGas: bigint | null;
+  history: GasPriceHistoryEntry[];
+}
+
+interface FeeHistoryResponse {
+  oldestBlock: string;
+  baseFeePerGas: string[];
+  gasUsedRatio: number[];
+  reward?: string[][];
+}
+
+const TIERS = ['slow', 'standard', 'fast'] as const;
+
+const DEFAULT_BLOCK_COUNT = 10;
+const DEFAULT_PERCENTILES: [number, number, number] = [25, 50, 75];
+const DEFAULT_CACHE_TTL_SECONDS = 5;
+
+/** Base fee headroom per tier in percent, so ops stay includable while the base fee rises */
+const BASE_FEE_HEADROOM = { slow: 120n, standard: 150n, fast: 200n };
+/** Legacy gas price bump per tier in percent */
+const LEGACY_GAS_PRICE_BUMP = { slow: 100n, standard: 110n, fast: 125n };
+
+function mean(values: bigint[]): bigint {
+  return values.length === 0 ? 0n : values.reduce((sum, value) => sum + value, 0n) / BigInt(values.length);
+}
+
+/**
+ * EIP-1559 aware gas price oracle for one chain, built on eth_feeHistory percentiles with a short TTL cache
+ */
+export class GasPriceOracle {
+  private readonly cache = new Map<number, { snapshot: Promise<GasPriceSnapshot>, expiresAt: number }>();
+
+  constructor(
+    private readonly provider: ethers.JsonRpcProvider,
+    private readonly config: GasPriceConfig = {},
+    private readonly log: Logger = silentLogger
+  ) { }
+
+  async getTiers(): Promise<GasPriceTiers> {
+    return (await this.getSnapshot()).tiers;
+  }
+
+  /**
+   * Current tiers plus the per-block fees they were derived from
+   */
+  async getSnapshot(blockCount = this.config.blockCount ?? DEFAULT_BLOCK_COUNT): Promise<GasPriceSnapshot> {
+    const cached = this.cache.get(blockCount);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.snapshot;
+    }
+
+    // Cache the promise so concurrent requests share one RPC round trip
+    const snapshot = this.fetchSnapshot(blockCount);
+    this.cache.set(blockCount, {
+      snapshot,
+      expiresAt: Date.now() + (this.config.cacheTtlSeconds ?? DEFAULT_CACHE_TTL_SECONDS) * 1000
+    });
+    snapshot.catch(() => this.cache.delete(blockCount));
+
+    return snapshot;
+  }
+
+  private async fetchSnapshot(blockCount: number): Promise<GasPriceSnapshot> {
+    if (this.config.legacy) {
+      return this.fetchLegacySnapshot();
+    }
+
+    const percentiles = this.config.percentiles ?? DEFAULT_PERCENTILES;
+    let feeHistory: FeeHistoryResponse;
+    try {
+      feeHistory = await this.provider.send('eth_feeHistory', [ethers.toQuantity(blockCount), 'latest', percentiles]);
+    } catch (error) {
+      this.log.warn({ err: error }, 'eth_feeHistory failed, falling back to eth_gasPrice');
+      return this.fetchLegacySnapshot();
+    }
+
+    const oldestBlock = Number(feeHistory.oldestBlock);
+    const history: GasPriceHistoryEntry[] = feeHistory.gasUsedRatio.map((gasUsedRatio, i) => ({
+      blockNumber: oldestBlock + i,
+      baseFeePerGas: BigInt(feeHistory.baseFeePerGas[i]),
+      gasUsedRatio,
+      priorityFees: (feeHistory.reward?.[i] ?? ['0x0', '0x0', '0x0']).map((reward) => BigInt(reward)) as [bigint, bigint, bigint]
+    }));
+
+    // The last baseFeePerGas entry is the base fee of the block after the newest sampled one
+    const nextBaseFee = BigInt(feeHistory.baseFeePerGas[feeHistory.baseFeePerGas.length - 1]);
+    // Empty blocks report zero rewards and would drag the averages down
+    const busyBlocks = history.filter((entry) => entry.gasUsedRatio > 0);
+
+    const tiers = {} as GasPriceTiers;
+    TIERS.forEach((tier, i) => {
+      const maxPriorityFeePerGas = mean(busyBlocks.map((entry) => entry.priorityFees[i]));
+      tiers[tier] = this.clamp({
+        maxPriorityFeePerGas,
+        maxFeePerGas: nextBaseFee * BASE_FEE_HEADROOM[tier] / 100n + maxPriorityFeePerGas
+      });
+    });
+
+    return { tiers, baseFeePerGas: nextBaseFee, history };
+  }
+
+  private async fetchLegacySnapshot(): Promise<GasPriceSnapshot> {
+    const gasPrice = BigInt(await this.provider.send('eth_gasPrice', []));
+
+    const tiers = {} as GasPriceTiers;
+    for (const tier of TIERS) {
+      const price = gasPrice * LEGACY_GAS_PRICE_BUMP[tier] / 100n;
+      tiers[tier] = this.clamp({ maxFeePerGas: price, maxPriorityFeePerGas: price });
+    }
+
+    return { tiers, baseFeePerGas: null, history: [] };
+  }
+
+  private clamp(tier: GasPriceTier): GasPriceTier {
+    const bound = (value: bigint, floor?: string, ceiling?: string): bigint => {
+      if (floor !== undefined && value < BigInt(floor)) {
+        value = BigInt(floor);
+      }
+      if (ceiling !== undefined && value > BigInt(ceiling)) {
+        value = BigInt(ceiling);
+      }
+      return value;
+    };
+    const { floor, ceiling } = this.config;
+
+    const maxPriorityFeePerGas = bound(tier.maxPriorityFeePerGas, floor?.maxPriorityFeePerGas, ceiling?.maxPriorityFeePerGas);
+    const maxFeePerGas = bound(tier.maxFeePerGas, floor?.maxFeePerGas, ceiling?.maxFeePerGas);
+
+    // A priority fee above the max fee is invalid
+    return {
+      maxFeePerGas,
+      maxPriorityFeePerGas: maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : maxPriorityFeePerGas
+    };
+  }
+}
@@ -0,0 +1,118 @@
+import { RpcError, RpcErrorCode } from '../errors/rpcError.js';
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: { code: number, message: string, data?: unknown };
+}
+
+/**
+ * A response carrying a result of a known shape
+ */
+export interface JsonRpcSuccess<T> extends JsonRpcResponse {
+  result: T;
+}
+
+/** Most calls a batch may carry unless the config says otherwise */
+export const DEFAULT_MAX_BATCH_SIZE = 20;
+
+export type JsonRpcMethodHandler = (id: JsonRpcId, params: unknown[]) => Promise<JsonRpcResponse>;
+
+export interface JsonRpcLogger {
+  error(obj: unknown, msg?: string): void;
+}
+
+export function errorResponse(id: JsonRpcId, error: RpcError): JsonRpcResponse {
+  return {
+    jsonrpc: '2.0',
+    error: error.toJSON(),
+    id
+  };
+}
+
+function isValidId(id: unknown): id is JsonRpcId {
+  return id === null || typeof id === 'string' || (typeof id === 'number' && Number.isFinite(id));
+}
+
+async function handleSingle(
+  entry: unknown,
+  handlers: { [method: string]: JsonRpcMethodHandler },
+  log: JsonRpcLogger
+): Promise<JsonRpcResponse | undefined> {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    return errorResponse(null, new RpcError(RpcErrorCode.InvalidRequest, 'Invalid request'));
+  }
+
+  const request = entry as { jsonrpc?: unknown, id?: unknown, method?: unknown, params?: unknown };
+  const isNotification = !('id' in request);
+
+  if (!isNotification && !isValidId(request.id)) {
+    return errorResponse(null, new RpcError(RpcErrorCode.InvalidRequest, 'Invalid request: id must be a string, number or null'));
+  }
+  const id = isNotification ? null : request.id as JsonRpcId;
+
+  const response = await (async (): Promise<JsonRpcResponse> => {
+    if (request.jsonrpc !== '2.0') {
+      return errorResponse(id, new RpcError(RpcErrorCode.InvalidRequest, 'Invalid request: jsonrpc must be "2.0"'));
+    }
+    if (typeof request.method !== 'string') {
+      return errorResponse(id, new RpcError(RpcErrorCode.InvalidRequest, 'Invalid request: method must be a string'));
+    }
+    if (request.params !== undefined && !Array.isArray(request.params)) {
+      return errorResponse(id, new RpcError(RpcErrorCode.InvalidParams, 'Invalid params: expected an array'));
+    }
+    if (!Object.prototype.hasOwnProperty.call(handlers, request.method)) {
+      return errorResponse(id, new RpcError(RpcErrorCode.MethodNotFound, `Method not found: ${request.method}`));
+    }
+
+    try {
+      return await handlers[request.method](id, request.params ?? []);
+    } catch (error) {
+      if (error instanceof RpcError) {
+        return errorResponse(id, error);
+      }
+      log.error({ err: error, method: request.method }, 'Unhandled error in JSON-RPC method');
+      return errorResponse(id, new RpcError(RpcErrorCode.InternalError, 'Internal error'));
+    }
+  })();
+
+  return isNotification ? undefined : response;
+}
+
+/**
+ * Number of calls in a request body: the length of a batch, or 1
+ */
+export function countCalls(body: unknown): number {
+  return Array.isArray(body) ? body.length : 1;
+}
+
+/**
+ * Dispatch a JSON-RPC 2.0 request or batch to the given method handlers.
+ * Returns undefined when there is nothing to send back, i.e. the body only held notifications.
+ */
+export async function handleJsonRpc(
+  body: unknown,
+  handlers: { [method: string]: JsonRpcMethodHandler },
+  log: JsonRpcLogger
+): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+  if (!Array.isArray(body)) {
+    return handleSingle(body, handlers, log);
+  }
+
+  if (body.length === 0) {
+    return errorResponse(null, new RpcError(RpcErrorCode.InvalidRequest, 'Invalid request: empty batch'));
+  }
+
+  const responses: JsonRpcResponse[] = [];
+  for (const entry of body) {
+    const response = await handleSingle(entry, handlers, log);
+    if (response) {
+      responses.push(response);
+    }
+  }
+
+  return responses.length > 0 ? responses : undefined;
+}
@@ -0,0 +1,121 @@
+import { ethers } from 'ethers';
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { RpcError, RpcErrorCode } from '../errors/rpcError.js';
+import { PaymasterMode } from '../types/paymaster.js';
+import { PaymasterFunding } from './depositMonitor.js';
+
+/**
+ * Last polled funding of a chain's paymasters, read when metrics are scraped
+ */
+export type FundingSource = () => { chainId: string, funding: PaymasterFunding[] }[];
+
+const MODE_LABELS: { [mode in PaymasterMode]: string } = {
+  [PaymasterMode.Verifying]: 'verifying',
+  [PaymasterMode.Erc20]: 'erc20'
+};
+
+/**
+ * Prometheus metrics of the paymaster, exposed on `/metrics`. Chain IDs and JSON-RPC methods label every series;
+ * only methods the paymaster serves are recorded, so callers cannot grow the label set.
+ */
+export class PaymasterMetrics {
+  readonly registry = new Registry();
+
+  private readonly requests = new Counter({
+    name: 'paymaster_requests_total',
+    help: 'JSON-RPC requests handled, by method, chain and outcome',
+    labelNames: ['method', 'chain_id', 'outcome'] as const,
+    registers: [this.registry]
+  });
+
+  private readonly errors = new Counter({
+    name: 'paymaster_errors_total',
+    help: 'JSON-RPC requests answered with an error, by method, chain and JSON-RPC error code',
+    labelNames: ['method', 'chain_id', 'code'] as const,
+    registers: [this.registry]
+  });
+
+  private readonly requestDuration = new Histogram({
+    name: 'paymaster_request_duration_seconds',
+    help: 'Time to handle a JSON-RPC request, by method and chain',
+    labelNames: ['method', 'chain_id'] as const,
+    registers: [this.registry]
+  });
+
+  private readonly signatures = new Counter({
+    name: 'paymaster_signatures_issued_total',
+    help: 'Paymaster signatures handed out by pm_getPaymasterData, by chain and mode',
+    labelNames: ['chain_id', 'mode'] as const,
+    registers: [this.registry]
+  });
+
+  private readonly policyRejections = new Counter({
+    name: 'paymaster_policy_rejections_total',
+    help: 'Sponsorships refused, by chain and the policy that refused them',
+    labelNames: ['chain_id', 'policy'] as const,
+    registers: [this.registry]
+  });
+
+  private readonly rpcDuration = new Histogram({
+    name: 'paymaster_rpc_request_duration_seconds',
+    help: 'Time taken by upstream RPC requests, by chain, endpoint origin and outcome',
+    labelNames: ['chain_id', 'endpoint', 'outcome'] as const,
+    registers: [this.registry]
+  });
+
+  constructor(fundingSource: FundingSource = () => []) {
+    collectDefaultMetrics({ register: this.registry });
+
+    const collectFunding = (gauge: Gauge<'chain_id' | 'entry_point' | 'paymaster'>, amount: (funding: PaymasterFunding) => bigint) => {
+      gauge.reset();
+      for (const { chainId, funding } of fundingSource()) {
+        for (const paymaster of funding) {
+          gauge.set(
+            { chain_id: chainId, entry_point: paymaster.entryPoint, paymaster: paymaster.paymaster },
+            Number(ethers.formatEther(amount(paymaster)))
+          );
+        }
+      }
+    };
+    new Gauge({
+      name: 'paymaster_deposit_ether',
+      help: 'Paymaster deposit at the EntryPoint as of the last poll, in ether',
+      labelNames: ['chain_id', 'entry_point', 'paymaster'] as const,
+      registers: [this.registry],
+      collect() { collectFunding(this, (funding) => funding.deposit); }
+    });
+    new Gauge({
+      name: 'paymaster_stake_ether',
+      help: 'Paymaster stake at the EntryPoint as of the last poll, in ether',
+      labelNames: ['chain_id', 'entry_point', 'paymaster'] as const,
+      registers: [this.registry],
+      collect() { collectFunding(this, (funding) => funding.stake); }
+    });
+  }
+
+  /**
+   * Count a handled request. A sponsorship rejection also counts against the policy named in its error data.
+   */
+  observeRequest(method: string, chainId: string, durationSeconds: number, error?: unknown): void {
+    this.requestDuration.observe({ method, chain_id: chainId }, durationSeconds);
+    this.requests.inc({ method, chain_id: chainId, outcome: error === undefined ? 'success' : 'error' });
+    if (error === undefined) {
+      return;
+    }
+
+    const code = error instanceof RpcError ? error.code : RpcErrorCode.InternalError;
+    this.errors.inc({ method, chain_id: chainId, code: String(code) });
+    if (error instanceof RpcError && error.code === RpcErrorCode.SponsorshipRejected) {
+      const policy = (error.data as { policy?: unknown } | undefined)?.policy;
+      this.policyRejections.inc({ chain_id: chainId, policy: typeof policy === 'string' ? policy : 'unknown' });
+    }
+  }
+
+  recordSignature(chainId: string, mode: PaymasterMode): void {
+    this.signatures.inc({ chain_id: chainId, mode: MODE_LABELS[mode] });
+  }
+
+  observeRpcRequest(chainId: string, endpoint: string, durationSeconds: number, outcome: 'success' | 'error'): void {
+    this.rpcDuration.observe({ chain_id: chainId, endpoint, outcome }, durationSeconds);
+  }
+}
@@ -0,0 +1,204 @@
+import { PaymasterDataResult } from '../types/paymaster.js';
+
+/**
+ * A signature handed out by `getPaymasterData` that may still be submitted
+ */
+export interface OutstandingSignature {
+  chainId: string;
+  entryPoint: string;
+  sender: string;
+  nonce: bigint;
+  /** Identifies the signed op independently of its validity window, for deduplication */
+  fingerprint: string;
+  /** The `pm_getPaymasterData` result returned for the op */
+  result: PaymasterDataResult;
+  /** Unix seconds after which the signature can no longer be used */
+  validUntil: number;
+}
+
+/**
+ * A place held for a signature still being made, so requests running at the same time count it against the cap
+ */
+export interface OutstandingReservation {
+  readonly chainId: string;
+  readonly sender: string;
+  readonly key: string;
+}
+
+/**
+ * Storage for outstanding signatures, keyed by chain, EntryPoint, sender and nonce
+ */
+export interface OutstandingSignatureStore {
+  get(key: string): Promise<OutstandingSignature | undefined>;
+  set(key: string, signature: OutstandingSignature): Promise<void>;
+  delete(key: string): Promise<void>;
+  listBySender(chainId: string, sender: string): Promise<{ key: string, signature: OutstandingSignature }[]>;
+  /** Drop every signature whose validity ended by `before`, in Unix seconds */
+  deleteExpired(before: number): Promise<void>;
+}
+
+export class InMemoryOutstandingSignatureStore implements OutstandingSignatureStore {
+  private readonly signatures = new Map<string, OutstandingSignature>();
+
+  async get(key: string): Promise<OutstandingSignature | undefined> {
+    return this.signatures.get(key);
+  }
+
+  async set(key: string, signature: OutstandingSignature): Promise<void> {
+    this.signatures.set(key, signature);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.signatures.delete(key);
+  }
+
+  async listBySender(chainId: string, sender: string): Promise<{ key: string, signature: OutstandingSignature }[]> {
+    return [...this.signatures.entries()]
+      .filter(([, signature]) => signature.chainId === chainId && signature.sender === sender)
+      .map(([key, signature]) => ({ key, signature }));
+  }
+
+  async deleteExpired(before: number): Promise<void> {
+    for (const [key, signature] of this.signatures) {
+      if (signature.validUntil <= before) {
+        this.signatures.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Tells whether a signed op's nonce has already been used on-chain
+ */
+export type NonceConsumedCheck = (signature: OutstandingSignature) => Promise<boolean>;
+
+function signatureKey(chainId: string, entryPoint: string, sender: string, nonce: bigint): string {
+  return `${chainId}:${entryPoint}:${sender}:${nonce}`;
+}
+
+const SWEEP_INTERVAL_SECONDS = 60;
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Tracks signatures that are valid but not yet used, so repeat requests get the same signature back
+ * and a sender cannot hold more than a set number of sponsorships at once
+ */
+export class OutstandingSignatureTracker {
+  /** In the order they were taken; a request only counts those taken before its own */
+  private reservations: OutstandingReservation[] = [];
+  private timer?: NodeJS.Timeout;
+
+  constructor(private readonly store: OutstandingSignatureStore = new InMemoryOutstandingSignatureStore()) { }
+
+  /**
+   * Sweep expired signatures on every interval until `stop`. Without a per-sender cap nothing else drops those of
+   * senders that never come back.
+   */
+  start(intervalSeconds = SWEEP_INTERVAL_SECONDS): void {
+    if (this.timer) {
+      return;
+    }
+    // A sweep that fails is simply tried again on the next interval
+    this.timer = setInterval(() => this.sweep().catch(() => undefined), intervalSeconds * 1000);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Drop every signature that can no longer be used
+   */
+  sweep(): Promise<void> {
+    return this.store.deleteExpired(nowSeconds());
+  }
+
+  /**
+   * Hold a place for the sender's signature for `nonce` until it is recorded or released. Synchronous, so a request
+   * takes its place before anything it awaits lets another one in.
+   */
+  reserve(chainId: string, entryPoint: string, sender: string, nonce: bigint): OutstandingReservation {
+    const reservation = { chainId, sender, key: signatureKey(chainId, entryPoint, sender, nonce) };
+    this.reservations.push(reservation);
+    return reservation;
+  }
+
+  /**
+   * Give up a place held by `reserve`; releasing it again does nothing
+   */
+  release(reservation: OutstandingReservation): void {
+    this.reservations = this.reservations.filter((held) => held !== reservation);
+  }
+
+  /**
+   * The outstanding signature for this exact op, if one was handed out and is still valid
+   */
+  async find(
+    chainId: string,
+    entryPoint: string,
+    sender: string,
+    nonce: bigint,
+    fingerprint: string
+  ): Promise<OutstandingSignature | undefined> {
+    const key = signatureKey(chainId, entryPoint, sender, nonce);
+    const signature = await this.store.get(key);
+    if (!signature) {
+      return undefined;
+    }
+    if (signature.validUntil <= nowSeconds()) {
+      await this.store.delete(key);
+      return undefined;
+    }
+    return signature.fingerprint === fingerprint ? signature : undefined;
+  }
+
+  /**
+   * Number of signatures the sender still holds, other than the one for `nonce` which a new signature would replace.
+   * Places reserved before `reservation`, or all of them without one, count as held.
+   * Expired signatures are dropped, and those whose nonce is used on-chain too when `isConsumed` is given.
+   */
+  async countOutstanding(
+    chainId: string,
+    entryPoint: string,
+    sender: string,
+    nonce: bigint,
+    isConsumed?: NonceConsumedCheck,
+    reservation?: OutstandingReservation
+  ): Promise<number> {
+    const replacedKey = signatureKey(chainId, entryPoint, sender, nonce);
+    const held = new Set<string>();
+    for (const { key, signature } of await this.store.listBySender(chainId, sender)) {
+      if (signature.validUntil <= nowSeconds() || (isConsumed && await isConsumed(signature))) {
+        await this.store.delete(key);
+      } else {
+        held.add(key);
+      }
+    }
+    const position = reservation ? this.reservations.indexOf(reservation) : -1;
+    for (const earlier of position === -1 ? this.reservations : this.reservations.slice(0, position)) {
+      if (earlier.chainId === chainId && earlier.sender === sender) {
+        held.add(earlier.key);
+      }
+    }
+    held.delete(replacedKey);
+    return held.size;
+  }
+
+  /**
+   * Store a signature handed out, freeing the place reserved for it
+   */
+  async record(signature: OutstandingSignature, reservation?: OutstandingReservation): Promise<void> {
+    await this.store.set(
+      signatureKey(signature.chainId, signature.entryPoint, signature.sender, signature.nonce),
+      signature
+    );
+    if (reservation) {
+      this.release(reservation);
+    }
+  }
+}
@@ -1,156 +1,866 @@
 import { UserOperation } from '../types/userOperation.js';
 import { ethers, solidityPacked } from 'ethers';
-import { PaymasterConfig } from '../config/index.js';
+import { paymasterAbi } from '../abi/paymaster.js';
+import { ChainScope, DEFAULT_ENTRY_POINT_VERSION, ENTRY_POINT_ADDRESSES, EntryPointVersion, listChains, PaymasterConfig, PaymasterDeployment, SponsorshipModeConfig, SponsorshipWebhookConfig, TokenConfig } from '../config/index.js';
+import {
+  DebugUserOperationResult,
+  PaymasterContext,
+  PaymasterDataResult,
+  PaymasterMode,
+  SponsorshipMode,
+  TokenQuote,
+  UserOperationQuote,
+  UserOperationQuoteEntry
+} from '../types/paymaster.js';
+import { RpcError, RpcErrorCode } from '../errors/rpcError.js';
+import { DEFAULT_MAX_BATCH_SIZE, JsonRpcId, JsonRpcResponse, JsonRpcSuccess } from './jsonRpc.js';
+import { InMemorySpendTracker, PolicyCheckContext, PolicyService, rejectSponsorship } from './policyService.js';
+import { ApiKeyProject, ApiKeyService, FileApiKeyStore } from './apiKeyService.js';
+import { EntryPointCodec, getEntryPointCodec } from './entryPointCodec.js';
+import { PaymasterGasEstimator, PaymasterGasLimits } from './gasEstimator.js';
+import { GasPriceOracle, GasPriceTier, GasPriceTiers } from './gasPriceOracle.js';
+import { DepositMonitor, PaymasterFunding } from './depositMonitor.js';
+import { ExchangeRateOracle, ExchangeRateQuote, getCostInToken } from './exchangeRateOracle.js';
+import { FileLedgerStore, SponsorshipLedger } from './sponsorshipLedger.js';
+import { SponsorshipIndexer } from './sponsorshipIndexer.js';
+import { FailoverJsonRpcProvider, RpcHealth } from './failoverProvider.js';
+import { OutstandingReservation, OutstandingSignature, OutstandingSignatureTracker } from './outstandingSignatures.js';
+import { createPaymasterSigner, OnChainSignerCheck, PaymasterSigner } from './paymasterSigner.js';
+import { PaymasterMetrics } from './metrics.js';
+import { parseUserOperation, UserOperationStage } from './userOperationParser.js';
+import { getMaxCost } from '../utils/userOperation.js';
+import { Logger, silentLogger } from '../utils/logger.js';
+import { requestSponsorshipApproval } from './sponsorshipWebhook.js';
+import { getOnChainPaymasterHash, simulatePaymasterValidation, VerificationMode } from './paymasterVerifier.js';
 
+/**
+ * A mode's sponsorship settings with defaults applied
+ */
+interface SponsorshipSettings {
+  validitySeconds: number;
+  validAfterSkewSeconds: number;
+  allowAllBundlers: boolean;
+  allowedBundlers: string[];
+}
+
+const DEFAULT_VALIDITY_SECONDS = 3600; // 1 hour
+const DEFAULT_VALID_AFTER_SKEW_SECONDS = 60; // 1 minute
+
+/**
+ * Signature placed in stub data: well-formed, so validation costs what it will with a real one, but signed by nobody
+ */
+const STUB_SIGNATURE = '0xffffffffffffffffffffffffffffffff000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c';
+/** Stub data expired at the epoch; 0 would mean "no expiry" to the EntryPoint */
+const STUB_VALID_UNTIL = 1;
+
+/**
+ * Layer a mode's overrides over the chain's sponsorship settings and check the result
+ */
+function resolveSponsorshipSettings(
+  chainId: string,
+  chainConfig: SponsorshipModeConfig = {},
+  modeConfig: SponsorshipModeConfig = {}
+): SponsorshipSettings {
+  const config = { ...chainConfig, ...modeConfig };
+  const settings = {
+    validitySeconds: config.validitySeconds ?? DEFAULT_VALIDITY_SECONDS,
+    validAfterSkewSeconds: config.validAfterSkewSeconds ?? DEFAULT_VALID_AFTER_SKEW_SECONDS,
+    allowAllBundlers: config.allowAllBundlers ?? true,
+    allowedBundlers: (config.allowedBundlers ?? []).map((bundler) => ethers.getAddress(bundler))
+  };
+
+  if (!Number.isInteger(settings.validitySeconds) || settings.validitySeconds <= 0) {
+    throw new Error(`Invalid validitySeconds for chain ${chainId}: ${settings.validitySeconds}`);
+  }
+  if (!Number.isInteger(settings.validAfterSkewSeconds) || settings.validAfterSkewSeconds < 0) {
+    throw new Error(`Invalid validAfterSkewSeconds for chain ${chainId}: ${settings.validAfterSkewSeconds}`);
+  }
+  if (!settings.allowAllBundlers && settings.allowedBundlers.length === 0) {
+    throw new Error(`Chain ${chainId} restricts bundlers but configures no allowedBundlers`);
+  }
+  return settings;
+}
+
+/** How long requests in flight may keep using a replaced chain's provider */
+const RELOAD_GRACE_PERIOD_MS = 30_000;
+
+const entryPointNonceInterface = new ethers.Interface([
+  'function getNonce(address sender, uint192 key) view returns (uint256 nonce)'
+]);
+
+/**
+ * A paymaster contract on a chain together with the EntryPoint it serves
+ */
+interface DeploymentRuntime {
+  entryPoint: string;
+  codec: EntryPointCodec;
+  paymasterContract: ethers.Contract;
+}
+
+/**
+ * Everything needed to serve one chain, rebuilt when the config is reloaded
+ */
+interface ChainRuntime {
+  /** The chain's numeric ID, for hashing and the provider; runtimes themselves are keyed by `chainKey` */
+  chainId: string;
+  tenant?: string;
+  provider: FailoverJsonRpcProvider;
+  /** Undefined for a chain without one, which only a service built with `requireSigner: false` serves */
+  signer?: PaymasterSigner;
+  /** Undefined when signers are not checked against the contract */
+  signerCheck?: OnChainSignerCheck;
+  /** Paymaster deployments keyed by checksummed EntryPoint address */
+  deployments: { [entryPoint: string]: DeploymentRuntime };
+  tokens: { [tokenAddress: string]: TokenConfig };
+  exchangeRates: ExchangeRateOracle;
+  verification?: VerificationMode;
+  gasEstimator: PaymasterGasEstimator;
+  gasPriceOracle: GasPriceOracle;
+  depositMonitor: DepositMonitor;
+  /** Poll deposits in the background rather than only on status requests */
+  monitorEnabled: boolean;
+  refuseWhenUnderfunded: boolean;
+  /** Present when the ledger is configured */
+  indexer?: SponsorshipIndexer;
+  /** Cap on signatures a sender may hold at once; unlimited when undefined */
+  maxOutstandingPerSender?: number;
+  sponsorshipWebhook?: SponsorshipWebhookConfig;
+  sponsorship: { [mode in PaymasterMode]: SponsorshipSettings };
+}
+
+/**
+ * Serves every configured chain. Methods name a chain by `chainKey`: its chain ID for top-level chains and
+ * `<tenant>/<chainId>` for a tenant's, which also keys its ledger entries, outstanding signatures and metrics.
+ */
 export class PaymasterService {
-  private readonly VALIDITY_WINDOW_SECONDS = 3600; // 1 hour
-  private readonly VALIDITY_BEFORE_SECONDS = 60; // 1 minute
-  private readonly DEFAULT_MODE = 1; // mode in bits 1-7, allowAllBundlers in bit 0
-
-  private chainRuntimes: {
-    [key: string]: {
-      provider: ethers.JsonRpcProvider;
-      paymasterContract: ethers.Contract;
-      signer: ethers.Wallet;
-    }
-  } = {};
-
-  constructor(config: PaymasterConfig) {
-    for (const chainId in config.chains) {
-      const _provider = new ethers.JsonRpcProvider(config.chains[chainId].rpc);
-      this.chainRuntimes[chainId] = {
+  private readonly DEFAULT_POST_OP_GAS = 50000;
+  /** Most userOps quoted by one pm_quoteUserOperation call */
+  private readonly MAX_QUOTE_BATCH = 20;
+
+  private chainRuntimes: { [chainKey: string]: ChainRuntime };
+  /** Providers of runtimes replaced by `reload`, destroyed once requests in flight on them are done */
+  private retired: { timer: NodeJS.Timeout, providers: FailoverJsonRpcProvider[] }[] = [];
+  private started = false;
+
+  private readonly spendTracker = new InMemorySpendTracker();
+  private policyService: PolicyService;
+  private readonly apiKeyService?: ApiKeyService;
+  private readonly outstandingSignatures = new OutstandingSignatureTracker();
+  /** Present when `ledger` is configured */
+  readonly ledger?: SponsorshipLedger;
+  /** Bearer token required by the ledger routes, which are closed without one */
+  readonly ledgerAuthToken?: string;
+  /** Most calls one JSON-RPC batch may carry */
+  readonly maxBatchSize: number;
+  readonly metrics: PaymasterMetrics;
+  private readonly requireSigner: boolean;
+
+  /**
+   * Every chain needs a signer unless `requireSigner` is false, for tools that read and encode but never sign
+   */
+  constructor(
+    config: PaymasterConfig,
+    private readonly log: Logger = silentLogger,
+    { requireSigner = true }: { requireSigner?: boolean } = {}
+  ) {
+    this.requireSigner = requireSigner;
+    this.metrics = new PaymasterMetrics(() => Object.entries(this.chainRuntimes).map(([chainId, runtime]) => ({
+      chainId,
+      funding: runtime.depositMonitor.getLastFunding()
+    })));
+    this.policyService = new PolicyService(config, this.spendTracker);
+    if (config.apiKeys) {
+      this.apiKeyService = new ApiKeyService(new FileApiKeyStore(config.apiKeys.storePath, config.apiKeys.usageStorePath));
+    }
+    if (config.ledger) {
+      this.ledger = new SponsorshipLedger(new FileLedgerStore(config.ledger.storePath));
+      this.ledgerAuthToken = config.ledger.authToken;
+    }
+    this.maxBatchSize = config.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+    this.chainRuntimes = this.createChainRuntimes(config);
+  }
+
+  private createChainRuntimes(config: PaymasterConfig): { [chainId: string]: ChainRuntime } {
+    const runtimes: { [chainId: string]: ChainRuntime } = {};
+    try {
+      for (const scope of listChains(config)) {
+        runtimes[scope.key] = this.createChainRuntime(scope);
+      }
+    } catch (error) {
+      for (const runtime of Object.values(runtimes)) {
+        runtime.provider.destroy();
+      }
+      throw error;
+    }
+    return runtimes;
+  }
+
+  private createChainRuntime(scope: ChainScope): ChainRuntime {
+    const { key: chainId, config: chainConfig } = scope;
+    const log = this.log.child({ chainId });
+    // Resolved before the provider is created, so a config error leaves nothing to clean up
+    const signer = this.createSigner(scope);
+    const sponsorship = {
+      [PaymasterMode.Verifying]: resolveSponsorshipSettings(chainId, chainConfig.sponsorship, chainConfig.sponsorship?.verifying),
+      [PaymasterMode.Erc20]: resolveSponsorshipSettings(chainId, chainConfig.sponsorship, chainConfig.sponsorship?.erc20)
+    };
+    const _provider = new FailoverJsonRpcProvider(
+      typeof chainConfig.rpc === 'string' ? [chainConfig.rpc] : chainConfig.rpc,
+      Number(scope.chainId),
+      chainConfig.rpcFailover,
+      (endpoint, durationMs, outcome) => this.metrics.observeRpcRequest(chainId, endpoint, durationMs / 1000, outcome)
+    );
+    // A bad address or token config throws from here on; the provider must not outlive it
+    try {
+      const tokens: { [tokenAddress: string]: TokenConfig } = {};
+      for (const [token, tokenConfig] of Object.entries(chainConfig.tokens || {})) {
+        tokens[ethers.getAddress(token)] = tokenConfig;
+      }
+      const exchangeRates = new ExchangeRateOracle(tokens, _provider, log);
+
+      const deployments: PaymasterDeployment[] = [
+        {
+          paymasterAddress: chainConfig.paymasterAddress,
+          entryPointVersion: chainConfig.entryPointVersion || DEFAULT_ENTRY_POINT_VERSION,
+          entryPoint: chainConfig.entryPoint
+        },
+        ...(chainConfig.paymasters || [])
+      ];
+      const deploymentRuntimes: { [entryPoint: string]: DeploymentRuntime } = {};
+      for (const deployment of deployments) {
+        const entryPoint = ethers.getAddress(deployment.entryPoint || ENTRY_POINT_ADDRESSES[deployment.entryPointVersion]);
+        deploymentRuntimes[entryPoint] = {
+          entryPoint,
+          codec: getEntryPointCodec(deployment.entryPointVersion),
+          paymasterContract: new ethers.Contract(deployment.paymasterAddress, paymasterAbi, _provider)
+        };
+      }
+
+      return {
+        chainId: scope.chainId,
+        tenant: scope.tenant,
         provider: _provider,
-        paymasterContract: new ethers.Contract(
-          config.chains[chainId].paymasterAddress,
-          config.paymasterAbi,
-          _provider
+        signer,
+        signerCheck: chainConfig.signerCheck?.enabled === false
+          ? undefined
+          : new OnChainSignerCheck(chainConfig.signerCheck?.cacheTtlSeconds),
+        deployments: deploymentRuntimes,
+        tokens,
+        exchangeRates,
+        verification: chainConfig.verification,
+        gasEstimator: new PaymasterGasEstimator(chainConfig.gasEstimation, log),
+        gasPriceOracle: new GasPriceOracle(_provider, chainConfig.gasPrice, log),
+        depositMonitor: new DepositMonitor(
+          chainId,
+          _provider,
+          Object.values(deploymentRuntimes).map((deployment) => ({
+            entryPoint: deployment.entryPoint,
+            entryPointVersion: deployment.codec.version,
+            paymasterContract: deployment.paymasterContract
+          })),
+          chainConfig.monitor,
+          log
+        ),
+        monitorEnabled: chainConfig.monitor !== undefined,
+        refuseWhenUnderfunded: chainConfig.monitor?.refuseWhenUnderfunded ?? false,
+        indexer: this.ledger && new SponsorshipIndexer(
+          chainId,
+          _provider,
+          Object.values(deploymentRuntimes),
+          this.ledger.store,
+          chainConfig.indexer,
+          log
         ),
-        signer: new ethers.Wallet(config.chains[chainId].paymasterPrivateKey || config.paymasterPrivateKey, _provider)
+        maxOutstandingPerSender: chainConfig.outstanding?.maxPerSender,
+        sponsorshipWebhook: chainConfig.sponsorshipWebhook,
+        sponsorship
       };
+    } catch (error) {
+      _provider.destroy();
+      throw error;
+    }
+  }
+
+  /**
+   * Start background work: deposit polling on chains with a `monitor` config, ledger indexing and the sweep of
+   * expired outstanding signatures
+   */
+  start(): void {
+    this.started = true;
+    this.outstandingSignatures.start();
+    for (const runtime of Object.values(this.chainRuntimes)) {
+      if (runtime.monitorEnabled) {
+        runtime.depositMonitor.start();
+      }
+      runtime.indexer?.start();
+    }
+  }
+
+  /**
+   * Stop background work and release the chain providers
+   */
+  close(): void {
+    this.started = false;
+    this.outstandingSignatures.stop();
+    for (const runtime of Object.values(this.chainRuntimes)) {
+      runtime.depositMonitor.stop();
+      runtime.indexer?.stop();
+      runtime.provider.destroy();
+    }
+    for (const { timer, providers } of this.retired) {
+      clearTimeout(timer);
+      providers.forEach((provider) => provider.destroy());
+    }
+    this.retired = [];
+  }
+
+  /**
+   * Replace every chain runtime and its policies with those of a reloaded config, so chains can be added,
+   * changed or removed without a restart. A config that fails to build leaves the current chains serving.
+   * API key and ledger settings are only read at startup.
+   */
+  reload(config: PaymasterConfig): void {
+    // Everything that can throw is built before anything is swapped, policies first as they hold no resources
+    const policyService = new PolicyService(config, this.spendTracker);
+    const runtimes = this.createChainRuntimes(config);
+    const previous = Object.values(this.chainRuntimes);
+
+    this.chainRuntimes = runtimes;
+    this.policyService = policyService;
+    for (const runtime of previous) {
+      runtime.depositMonitor.stop();
+      runtime.indexer?.stop();
+    }
+    if (this.started) {
+      this.start();
     }
+
+    const retired = {
+      timer: setTimeout(() => {
+        retired.providers.forEach((provider) => provider.destroy());
+        this.retired = this.retired.filter((entry) => entry !== retired);
+      }, RELOAD_GRACE_PERIOD_MS),
+      providers: previous.map((runtime) => runtime.provider)
+    };
+    retired.timer.unref();
+    this.retired.push(retired);
+  }
+
+  hasChain(chainId: string): boolean {
+    return Object.hasOwn(this.chainRuntimes, chainId);
+  }
+
+  /**
+   * The numeric chain ID behind a `chainKey`, which is what userOp hashes and the `chainId` param commit to
+   */
+  private numericChainId(chainId: string): number {
+    return Number(this.chainRuntimes[chainId].chainId);
   }
 
-  private getValidityTimeWindow(): { validUntil: number, validAfter: number } {
+  /**
+   * The chain's own signer or private key, falling back to its tenant's and then the top-level ones
+   */
+  private createSigner(scope: ChainScope): PaymasterSigner | undefined {
+    const chainConfig = scope.config;
+    if (chainConfig.signer) {
+      return createPaymasterSigner(chainConfig.signer);
+    }
+    if (chainConfig.paymasterPrivateKey) {
+      return createPaymasterSigner({ type: 'privateKey', privateKey: chainConfig.paymasterPrivateKey });
+    }
+    if (scope.signer) {
+      return createPaymasterSigner(scope.signer);
+    }
+    if (scope.paymasterPrivateKey) {
+      return createPaymasterSigner({ type: 'privateKey', privateKey: scope.paymasterPrivateKey });
+    }
+    if (this.requireSigner) {
+      throw new Error(`No paymaster signer configured for chain ${scope.key}`);
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve the API key project for a request of `calls` JSON-RPC calls. Returns undefined when API keys are not configured.
+   */
+  async authenticate(apiKey: string | undefined, chainId: string, calls = 1): Promise<ApiKeyProject | undefined> {
+    const runtime = this.chainRuntimes[chainId];
+    return this.apiKeyService?.authenticate(apiKey, runtime.chainId, calls, runtime.tenant);
+  }
+
+  /**
+   * Validate the ERC-7677 params `[userOp, entryPoint, chainId, context]` against the chain served by the URL,
+   * parsing the userOp with the schema of the EntryPoint's version
+   */
+  private parsePaymasterParams(
+    params: unknown[],
+    chainId: string,
+    stage: UserOperationStage
+  ): { userOp: UserOperation, deployment: DeploymentRuntime, context?: PaymasterContext } {
+    if (params.length < 3) {
+      throw new RpcError(RpcErrorCode.InvalidParams, 'Invalid params: expected [userOp, entryPoint, chainId, context]');
+    }
+
+    const [userOp, entryPoint, requestedChainId, context] = params;
+
+    if (!this.chainRuntimes[chainId]) {
+      throw new RpcError(RpcErrorCode.InvalidParams, `Chain ${chainId} not supported`);
+    }
+
+    const deployment = typeof entryPoint === 'string' && ethers.isAddress(entryPoint)
+      ? this.chainRuntimes[chainId].deployments[ethers.getAddress(entryPoint)]
+      : undefined;
+    if (!deployment) {
+      throw new RpcError(RpcErrorCode.InvalidParams, `EntryPoint ${entryPoint} not supported on chain ${chainId}`);
+    }
+
+    let requestedChain: bigint;
+    try {
+      requestedChain = BigInt(requestedChainId as string);
+    } catch {
+      throw new RpcError(RpcErrorCode.InvalidParams, `Invalid chainId: ${requestedChainId}`);
+    }
+    if (requestedChain !== BigInt(this.chainRuntimes[chainId].chainId)) {
+      throw new RpcError(RpcErrorCode.InvalidParams, `chainId ${requestedChainId} does not match chain ${chainId}`);
+    }
+
+    if (context !== undefined && context !== null && (typeof context !== 'object' || Array.isArray(context))) {
+      throw new RpcError(RpcErrorCode.InvalidParams, 'Invalid params: context must be an object');
+    }
+
+    return {
+      userOp: parseUserOperation(userOp, deployment.codec.version, stage),
+      deployment,
+      context: (context ?? undefined) as PaymasterContext | undefined
+    };
+  }
+
+  /**
+   * The validity window for a new signature: the mode's configured maximum, or the context's shorter `validUntil`
+   */
+  private getValidityTimeWindow(
+    settings: SponsorshipSettings,
+    requestedValidUntil?: number
+  ): { validUntil: number, validAfter: number } {
     const now = Math.floor(Date.now() / 1000);
+    const maxValidUntil = now + settings.validitySeconds;
     return {
-      validUntil: now + this.VALIDITY_WINDOW_SECONDS,
-      validAfter: now - this.VALIDITY_BEFORE_SECONDS
+      validUntil: requestedValidUntil === undefined ? maxValidUntil : Math.min(requestedValidUntil, maxValidUntil),
+      validAfter: now - settings.validAfterSkewSeconds
     };
   }
 
-  private createPaymasterDataWithoutSignature(
-    paymasterAddress: string,
-    verificationGasLimit: bigint | number | string,
-    postOpGasLimit: bigint | number | string,
+  /**
+   * The `validUntil` requested through the ERC-7677 context, if any
+   */
+  private parseRequestedValidUntil(context: PaymasterContext | undefined): number | undefined {
+    if (!context || context.validUntil === undefined) {
+      return undefined;
+    }
+
+    let validUntil: number;
+    try {
+      validUntil = Number(BigInt(context.validUntil));
+    } catch {
+      throw new RpcError(RpcErrorCode.InvalidParams, `Invalid validUntil: ${context.validUntil}`);
+    }
+    if (validUntil <= Math.floor(Date.now() / 1000)) {
+      throw new RpcError(RpcErrorCode.InvalidParams, `validUntil ${context.validUntil} is in the past`);
+    }
+    return validUntil;
+  }
+
+  /**
+   * Resolve the sponsorship mode from the ERC-7677 context: free sponsorship by default,
+   * token mode when the context names a token configured for the chain
+   */
+  private async resolveSponsorshipMode(context: PaymasterContext | undefined, chainId: string): Promise<SponsorshipMode> {
+    if (!context || context.token === undefined) {
+      return { mode: PaymasterMode.Verifying };
+    }
+
+    if (typeof context.token !== 'string' || !ethers.isAddress(context.token)) {
+      throw new RpcError(RpcErrorCode.InvalidParams, `Invalid token address: ${context.token}`, { field: 'context.token' });
+    }
+
+    const token = ethers.getAddress(context.token);
+    const tokenConfig = this.chainRuntimes[chainId].tokens[token];
+    if (!tokenConfig) {
+      throw new RpcError(RpcErrorCode.InvalidParams, `Token ${token} not supported on chain ${chainId}`);
+    }
+
+    const { exchangeRate } = await this.getExchangeRate(chainId, token);
+    return {
+      mode: PaymasterMode.Erc20,
+      token,
+      postOpGas: BigInt(tokenConfig.postOpGas ?? this.DEFAULT_POST_OP_GAS),
+      exchangeRate
+    };
+  }
+
+  /**
+   * The token's current rate, refusing token sponsorship while no fresh rate can be read
+   */
+  private async getExchangeRate(chainId: string, token: string): Promise<ExchangeRateQuote> {
+    try {
+      return await this.chainRuntimes[chainId].exchangeRates.getRate(token);
+    } catch (error) {
+      this.log.error({ err: error, chainId, token }, 'No usable exchange rate');
+      rejectSponsorship('exchangeRate', `no current exchange rate for token ${token}`);
+    }
+  }
+
+  /**
+   * Pack the mode byte, validity window and mode-specific fields that precede the signature
+   */
+  private createPaymasterConfig(
+    sponsorshipMode: SponsorshipMode,
+    allowAllBundlers: boolean,
     validUntil: number,
     validAfter: number
   ): string {
+    // mode in bits 1-7, allowAllBundlers in bit 0
+    const modeByte = (sponsorshipMode.mode << 1) | (allowAllBundlers ? 1 : 0);
+
+    if (sponsorshipMode.mode === PaymasterMode.Erc20) {
+      return solidityPacked(
+        ['uint8', 'uint48', 'uint48', 'address', 'uint128', 'uint256'],
+        [
+          modeByte,
+          BigInt(validUntil),
+          BigInt(validAfter),
+          sponsorshipMode.token,
+          sponsorshipMode.postOpGas,
+          sponsorshipMode.exchangeRate
+        ]
+      );
+    }
+
     return solidityPacked(
-      ['address', 'uint128', 'uint128', 'uint8', 'uint48', 'uint48'],
-      [
-        paymasterAddress,
-        BigInt(verificationGasLimit),
-        BigInt(postOpGasLimit),
-        this.DEFAULT_MODE,
-        BigInt(validUntil),
-        BigInt(validAfter)
-      ]
+      ['uint8', 'uint48', 'uint48'],
+      [modeByte, BigInt(validUntil), BigInt(validAfter)]
     );
   }
 
+  /**
+   * Split paymasterData back into the fields written by `createPaymasterConfig` and the signature
+   */
+  private decodePaymasterData(paymasterData: string) {
+    const VERIFYING_CONFIG_LENGTH = 13;
+    const ERC20_CONFIG_LENGTH = 81;
+
+    if (ethers.dataLength(paymasterData) < VERIFYING_CONFIG_LENGTH) {
+      throw new RpcError(RpcErrorCode.InvalidParams, 'paymasterData is too short');
+    }
+
+    const modeByte = ethers.getBytes(paymasterData)[0];
+    const mode = modeByte >> 1;
+    const decoded = {
+      mode,
+      allowAllBundlers: (modeByte & 1) === 1,
+      validUntil: Number(ethers.dataSlice(paymasterData, 1, 7)),
+      validAfter: Number(ethers.dataSlice(paymasterData, 7, 13))
+    };
+
+    if (mode === PaymasterMode.Erc20) {
+      if (ethers.dataLength(paymasterData) < ERC20_CONFIG_LENGTH) {
+        throw new RpcError(RpcErrorCode.InvalidParams, 'paymasterData is too short for token mode');
+      }
+      return {
+        ...decoded,
+        token: ethers.getAddress(ethers.dataSlice(paymasterData, 13, 33)),
+        postOpGas: BigInt(ethers.dataSlice(paymasterData, 33, 49)).toString(),
+        exchangeRate: BigInt(ethers.dataSlice(paymasterData, 49, 81)).toString(),
+        paymasterConfig: ethers.dataSlice(paymasterData, 0, ERC20_CONFIG_LENGTH),
+        signature: ethers.dataSlice(paymasterData, ERC20_CONFIG_LENGTH)
+      };
+    }
+
+    return {
+      ...decoded,
+      paymasterConfig: ethers.dataSlice(paymasterData, 0, VERIFYING_CONFIG_LENGTH),
+      signature: ethers.dataSlice(paymasterData, VERIFYING_CONFIG_LENGTH)
+    };
+  }
+
   private createPaymasterData(
-    validUntil: number,
-    validAfter: number,
+    paymasterConfig: string,
     signature: string
   ): string {
-    const validUntilHex = ethers.toBeHex(validUntil).slice(2).padStart(12, '0');
-    const validAfterHex = ethers.toBeHex(validAfter).slice(2).padStart(12, '0');
-
     return ethers.hexlify(ethers.concat([
-      `0x0${this.DEFAULT_MODE}`,
-      `0x${validUntilHex}`,
-      `0x${validAfterHex}`,
+      paymasterConfig,
       signature
     ]));
   }
 
-  async getPaymasterStubData(
-    id: number,
-    params: any[],
-    chainId: string
-  ): Promise<any> {
-    try {
-      if (params.length < 4) {
-        throw new Error('Invalid params: expected at least 4 parameters');
-      }
+  /**
+   * Sign the user operation with the chain's paymaster signer, packing and hashing it for the deployment's EntryPoint version
+   */
+  private async signPaymasterData(
+    chainId: string,
+    deployment: DeploymentRuntime,
+    userOp: UserOperation,
+    sponsorshipMode: SponsorshipMode,
+    verificationGasLimit: bigint | number | string,
+    postOpGasLimit: bigint | number | string,
+    requestedValidUntil?: number
+  ): Promise<{ paymasterData: string, paymasterAndData: string, paymasterHash: string, signature: string, validUntil: number }> {
+    const settings = this.chainRuntimes[chainId].sponsorship[sponsorshipMode.mode];
+    const { validUntil, validAfter } = this.getValidityTimeWindow(settings, requestedValidUntil);
+
+    const paymasterConfig = this.createPaymasterConfig(sponsorshipMode, settings.allowAllBundlers, validUntil, validAfter);
+
+    const paymasterAndDataWithOutSignature = deployment.codec.packPaymasterAndData(
+      deployment.paymasterContract.target.toString(),
+      verificationGasLimit,
+      postOpGasLimit,
+      paymasterConfig
+    );
+
+    const paymasterHash = deployment.codec.getPaymasterHash(userOp, paymasterAndDataWithOutSignature, this.numericChainId(chainId));
+
+    const { signer, signerCheck } = this.chainRuntimes[chainId];
+    if (!signer) {
+      throw new Error(`No paymaster signer configured for chain ${chainId}`);
+    }
+    const { signature } = await signer.signMessage(
+      ethers.getBytes(paymasterHash),
+      signerCheck?.filterFor(deployment.paymasterContract)
+    );
+
+    const paymasterData = this.createPaymasterData(paymasterConfig, signature);
+    const paymasterAndData = deployment.codec.packPaymasterAndData(
+      deployment.paymasterContract.target.toString(),
+      verificationGasLimit,
+      postOpGasLimit,
+      paymasterData
+    );
+
+    return { paymasterData, paymasterAndData, paymasterHash, signature, validUntil };
+  }
+
+  /**
+   * paymasterData for gas estimation only: the op has not passed the sponsorship checks, so it is never signed
+   */
+  private createStubPaymasterData(chainId: string, sponsorshipMode: SponsorshipMode): string {
+    const settings = this.chainRuntimes[chainId].sponsorship[sponsorshipMode.mode];
+    return this.createPaymasterData(
+      this.createPaymasterConfig(sponsorshipMode, settings.allowAllBundlers, STUB_VALID_UNTIL, 0),
+      STUB_SIGNATURE
+    );
+  }
+
+  /**
+   * Simulate the paymaster to size its gas limits for the mode in use
+   */
+  private estimatePaymasterGasLimits(
+    chainId: string,
+    deployment: DeploymentRuntime,
+    userOp: UserOperation,
+    sponsorshipMode: SponsorshipMode
+  ): Promise<PaymasterGasLimits> {
+    const { provider, gasEstimator } = this.chainRuntimes[chainId];
+
+    return gasEstimator.estimate({
+      cacheKey: [
+        chainId,
+        deployment.entryPoint,
+        sponsorshipMode.mode,
+        ...(sponsorshipMode.mode === PaymasterMode.Erc20 ? [sponsorshipMode.token] : [])
+      ].join(':'),
+      provider,
+      paymaster: deployment.paymasterContract.target.toString(),
+      entryPoint: deployment.entryPoint,
+      codec: deployment.codec,
+      mode: sponsorshipMode.mode,
+      userOp,
+      chainId: this.numericChainId(chainId),
+      maxCost: getMaxCost(userOp, deployment.codec.version),
+      stubPaymasterAndData: (verificationGasLimit, postOpGasLimit) => deployment.codec.packPaymasterAndData(
+        deployment.paymasterContract.target.toString(),
+        verificationGasLimit,
+        postOpGasLimit,
+        this.createStubPaymasterData(chainId, sponsorshipMode)
+      )
+    });
+  }
 
-      const userOp = params[0];
+  /**
+   * Check signed paymaster data against the contract, so packing mismatches surface here rather than as AA34 at the bundler
+   */
+  private async verifyPaymasterData(
+    chainId: string,
+    deployment: DeploymentRuntime,
+    userOp: UserOperation,
+    mode: PaymasterMode,
+    signed: { paymasterAndData: string, paymasterHash: string },
+    maxCost: bigint
+  ): Promise<void> {
+    const { provider, verification } = this.chainRuntimes[chainId];
+    const paymaster = deployment.paymasterContract.target.toString();
 
-      if (!this.chainRuntimes[chainId]) {
-        throw new Error(`Chain ${chainId} not supported`);
+    if (verification === 'getHash') {
+      const onChainHash = await getOnChainPaymasterHash(provider, paymaster, deployment.codec, mode, userOp, signed.paymasterAndData);
+      if (onChainHash !== signed.paymasterHash) {
+        throw new RpcError(RpcErrorCode.InternalError, 'Paymaster hash does not match on-chain getHash', {
+          paymasterHash: signed.paymasterHash,
+          onChainHash
+        });
       }
+      return;
+    }
+
+    const userOpHash = deployment.codec.getUserOpHash(userOp, signed.paymasterAndData, deployment.entryPoint, this.numericChainId(chainId));
+    const result = await simulatePaymasterValidation(
+      provider,
+      paymaster,
+      deployment.entryPoint,
+      deployment.codec,
+      userOp,
+      signed.paymasterAndData,
+      userOpHash,
+      maxCost
+    );
+    if (result.sigFailed) {
+      throw new RpcError(RpcErrorCode.InternalError, 'Paymaster signature rejected by simulated validatePaymasterUserOp', {
+        paymasterHash: signed.paymasterHash
+      });
+    }
+  }
+
+  /**
+   * Shape the ERC-7677 result: v0.6 takes a single paymasterAndData, later versions take the fields unpacked
+   */
+  private formatPaymasterResult(
+    deployment: DeploymentRuntime,
+    paymasterData: string,
+    gasLimits?: PaymasterGasLimits
+  ): PaymasterDataResult {
+    const paymaster = deployment.paymasterContract.target.toString();
 
-      const { paymasterContract, signer } = this.chainRuntimes[chainId];
+    if (deployment.codec.version === '0.6') {
+      return { paymasterAndData: ethers.concat([paymaster, paymasterData]) };
+    }
 
-      const { validUntil, validAfter } = this.getValidityTimeWindow();
+    return {
+      paymaster,
+      paymasterData,
+      ...(gasLimits && {
+        paymasterPostOpGasLimit: ethers.toQuantity(gasLimits.postOpGasLimit),
+        paymasterVerificationGasLimit: ethers.toQuantity(gasLimits.verificationGasLimit)
+      })
+    };
+  }
 
-      const paymasterAndDataWithOutSignature = this.createPaymasterDataWithoutSignature(
-        paymasterContract.target.toString(),
+  /**
+   * Identifies a sponsorship request independently of when it was signed: the op, its paymaster gas limits and mode
+   */
+  private getSponsorshipFingerprint(
+    chainId: string,
+    deployment: DeploymentRuntime,
+    userOp: UserOperation,
+    sponsorshipMode: SponsorshipMode
+  ): string {
+    return deployment.codec.getPaymasterHash(
+      userOp,
+      deployment.codec.packPaymasterAndData(
+        deployment.paymasterContract.target.toString(),
         userOp.paymasterVerificationGasLimit || 0,
         userOp.paymasterPostOpGasLimit || 0,
-        validUntil,
-        validAfter
-      );
+        this.createPaymasterConfig(
+          sponsorshipMode,
+          this.chainRuntimes[chainId].sponsorship[sponsorshipMode.mode].allowAllBundlers,
+          0,
+          0
+        )
+      ),
+      this.numericChainId(chainId)
+    );
+  }
 
-      const userOpHash = this.getUserOpHash(userOp, paymasterAndDataWithOutSignature, Number(chainId));
+  /**
+   * Whether the EntryPoint nonce sequence has moved past a signed op, i.e. it was executed or can no longer be
+   */
+  private async isNonceConsumed(chainId: string, signature: OutstandingSignature): Promise<boolean> {
+    const nonceKey = signature.nonce >> 64n;
+    const result = await this.chainRuntimes[chainId].provider.call({
+      to: signature.entryPoint,
+      data: entryPointNonceInterface.encodeFunctionData('getNonce', [signature.sender, nonceKey])
+    });
+    const [nonce] = entryPointNonceInterface.decodeFunctionResult('getNonce', result);
+    return nonce > signature.nonce;
+  }
 
-      const signature = await signer.signMessage(
-        ethers.getBytes(userOpHash)
+  /**
+   * Checks beyond the sponsorship policies: the sender's unused signatures, the project's budget and the paymaster's deposit
+   */
+  private async assertSponsorable(
+    chainId: string,
+    deployment: DeploymentRuntime,
+    sender: string,
+    nonce: bigint,
+    maxCost: bigint,
+    project: ApiKeyProject | undefined,
+    reservation?: OutstandingReservation
+  ): Promise<void> {
+    const { maxOutstandingPerSender } = this.chainRuntimes[chainId];
+    if (maxOutstandingPerSender !== undefined) {
+      const countOutstanding = (checkOnChain: boolean) => this.outstandingSignatures.countOutstanding(
+        chainId, deployment.entryPoint, sender, nonce,
+        checkOnChain ? (signature) => this.isNonceConsumed(chainId, signature) : undefined,
+        reservation
       );
+      // Only ask the chain which ops already landed once the cap would be hit
+      if (await countOutstanding(false) >= maxOutstandingPerSender &&
+        await countOutstanding(true) >= maxOutstandingPerSender) {
+        rejectSponsorship(
+          'outstanding',
+          `sender ${sender} already holds ${maxOutstandingPerSender} unused sponsorships`
+        );
+      }
+    }
 
-      const calculateGasLimits = (userOp: any) => {
-        let verificationGas = 40000;
-
-        const callDataLength = (userOp.callData.length - 2) / 2;
-        verificationGas += callDataLength * 16;
-
-        // If there's initCode, add deployment cost
-        if (userOp.initCode && userOp.initCode !== '0x') {
-          verificationGas += 40000; // Additional contract deployment cost
-        }
+    if (project) {
+      await this.apiKeyService!.assertBudget(project, maxCost);
+    }
 
-        // Post-processing gas (usually smaller than verification gas)
-        let postOpGas = 15000 + (callDataLength * 8); // Base cost + 8 gas per byte
+    if (this.chainRuntimes[chainId].refuseWhenUnderfunded) {
+      const deposit = await this.chainRuntimes[chainId].depositMonitor.getDeposit(deployment.entryPoint);
+      if (deposit !== undefined && deposit < maxCost) {
+        rejectSponsorship('deposit', `paymaster deposit ${deposit} cannot cover max cost ${maxCost}`);
+      }
+    }
+  }
 
-        postOpGas = Math.max(postOpGas, 40000);
+  async getPaymasterStubData(
+    id: JsonRpcId,
+    params: unknown[],
+    chainId: string
+  ): Promise<JsonRpcSuccess<PaymasterDataResult>> {
+    try {
+      const { userOp, deployment, context } = this.parsePaymasterParams(params, chainId, 'stub');
 
-        return {
-          verificationGas: Math.min(verificationGas, 150000),
-          postOpGas: Math.min(postOpGas, 50000)
-        };
-      };
+      const sponsorshipMode = await this.resolveSponsorshipMode(context, chainId);
 
-      const gasLimits = calculateGasLimits(userOp);
+      // v0.6 has no paymaster gas limits; the account's verificationGasLimit covers the paymaster
+      const gasLimits = deployment.codec.version === '0.6'
+        ? undefined
+        : await this.estimatePaymasterGasLimits(chainId, deployment, userOp, sponsorshipMode);
 
-      const paymasterData = this.createPaymasterData(validUntil, validAfter, signature);
+      const paymasterData = this.createStubPaymasterData(chainId, sponsorshipMode);
 
-      const stubData = {
+      const stubData: JsonRpcSuccess<PaymasterDataResult> = {
         "id": id,
-        "result": {
-          "paymaster": paymasterContract.target.toString(),
-          "paymasterData": paymasterData,
-          "paymasterPostOpGasLimit": `0x${gasLimits.postOpGas.toString(16)}`,
-          "paymasterVerificationGasLimit": `0x${gasLimits.verificationGas.toString(16)}`
-        },
+        "result": this.formatPaymasterResult(deployment, paymasterData, gasLimits),
         "jsonrpc": "2.0"
       }
       return stubData;
     } catch (error: unknown) {
-      console.error("Error in getPaymasterStubData:", error);
-      const errorMessage = error instanceof Error
-        ? `${error.message}\n${error.stack}`
-        : String(error);
-      throw new Error(`Failed to generate paymaster stub data: ${errorMessage}`);
+      if (error instanceof RpcError) {
+        throw error;
+      }
+      this.log.error({ err: error, chainId }, 'Failed to generate paymaster stub data');
+      throw new RpcError(RpcErrorCode.InternalError, 'Failed to generate paymaster stub data');
     }
   }
 
@@ -159,165 +869,539 @@ export class PaymasterService {
    * @param id - Request ID
    * @param params - Request parameters containing userOp
    * @param chainId - Chain ID for the operation
+   * @param project - API key project the sponsorship is billed to, if API keys are enabled
    * @returns Paymaster data with signature
    */
   async getPaymasterData(
-    id: number,
-    params: any[],
-    chainId: string
-  ): Promise<any> {
+    id: JsonRpcId,
+    params: unknown[],
+    chainId: string,
+    project?: ApiKeyProject
+  ): Promise<JsonRpcSuccess<PaymasterDataResult>> {
+    let reservation: OutstandingReservation | undefined;
+    let reservedSpend: PolicyCheckContext | undefined;
+    let reservedBudget: ApiKeyProject | undefined;
     try {
-      if (params.length < 4) {
-        throw new Error('Invalid params: expected at least 4 parameters');
-      }
+      const { userOp, deployment, context } = this.parsePaymasterParams(params, chainId, 'final');
+      const nonce = BigInt(userOp.nonce);
+      // Taken before the first await, so requests running side by side cannot all slip under the outstanding cap
+      reservation = this.outstandingSignatures.reserve(chainId, deployment.entryPoint, ethers.getAddress(userOp.sender), nonce);
 
-      const userOp = params[0];
+      const sponsorshipMode = await this.resolveSponsorshipMode(context, chainId);
+      const requestedValidUntil = this.parseRequestedValidUntil(context);
 
-      if (!this.chainRuntimes[chainId]) {
-        throw new Error(`Chain ${chainId} not supported`);
-      }
-
-      const { paymasterContract, signer } = this.chainRuntimes[chainId];
+      const policyContext = await this.policyService.check(chainId, userOp, deployment.codec.version);
 
-      const { validUntil, validAfter } = this.getValidityTimeWindow();
+      // A repeat request for an op we already signed gets the same signature, without being charged again,
+      // unless it asks for a shorter validity than that signature has
+      const fingerprint = this.getSponsorshipFingerprint(chainId, deployment, userOp, sponsorshipMode);
+      const outstanding = await this.outstandingSignatures.find(
+        chainId, deployment.entryPoint, policyContext.sender, nonce, fingerprint
+      );
+      const { validUntil: maxValidUntil } = this.getValidityTimeWindow(
+        this.chainRuntimes[chainId].sponsorship[sponsorshipMode.mode],
+        requestedValidUntil
+      );
+      if (outstanding && outstanding.validUntil <= maxValidUntil) {
+        return {
+          "id": id,
+          "result": outstanding.result,
+          "jsonrpc": "2.0"
+        };
+      }
 
-      if (userOp.paymasterVerificationGasLimit === undefined) {
-        throw new Error('Missing paymasterVerificationGasLimit in userOp');
+      await this.assertSponsorable(chainId, deployment, policyContext.sender, nonce, policyContext.maxCost, project, reservation);
+      // The checks above only read the spend and budget; counting the op against them is what requests running
+      // side by side cannot race past, and is undone below if the op ends up unsigned
+      await this.policyService.reserveSpend(policyContext);
+      reservedSpend = policyContext;
+      if (project) {
+        await this.apiKeyService!.reserveBudget(project, policyContext.maxCost);
+        reservedBudget = project;
       }
-      if (userOp.paymasterPostOpGasLimit === undefined) {
-        throw new Error('Missing paymasterPostOpGasLimit in userOp');
+
+      // Asked last, so the partner's service only sees ops every local check let through
+      const webhook = project?.sponsorshipWebhook ?? this.chainRuntimes[chainId].sponsorshipWebhook;
+      const approval = webhook && await requestSponsorshipApproval(webhook, {
+        chainId: this.chainRuntimes[chainId].chainId,
+        tenant: this.chainRuntimes[chainId].tenant ?? null,
+        entryPoint: deployment.entryPoint,
+        entryPointVersion: deployment.codec.version,
+        paymaster: deployment.paymasterContract.target.toString(),
+        project: project?.project ?? null,
+        sender: policyContext.sender,
+        nonce: ethers.toQuantity(nonce),
+        mode: sponsorshipMode.mode,
+        token: sponsorshipMode.mode === PaymasterMode.Erc20 ? sponsorshipMode.token : null,
+        maxCost: policyContext.maxCost.toString(),
+        userOp,
+        calls: policyContext.calls?.map((call) => ({ ...call, value: call.value.toString() })) ?? null,
+        context: context ?? null
+      }, this.log.child({ chainId }));
+      if (approval && !approval.approved) {
+        this.log.info({ chainId, project: project?.project, sender: policyContext.sender, approval }, 'Sponsorship webhook refused the op');
+        rejectSponsorship('webhook', approval.source === 'webhook'
+          ? `denied by the sponsorship webhook${approval.reason ? `: ${approval.reason}` : ''}`
+          : 'the sponsorship webhook gave no usable answer');
       }
 
-      const paymasterAndDataWithOutSignature = this.createPaymasterDataWithoutSignature(
-        paymasterContract.target.toString(),
-        userOp.paymasterVerificationGasLimit,
-        userOp.paymasterPostOpGasLimit,
-        validUntil,
-        validAfter
+      const signed = await this.signPaymasterData(
+        chainId,
+        deployment,
+        userOp,
+        sponsorshipMode,
+        userOp.paymasterVerificationGasLimit || 0,
+        userOp.paymasterPostOpGasLimit || 0,
+        requestedValidUntil
       );
+      const { paymasterData } = signed;
 
-      const userOpHash = this.getUserOpHash(userOp, paymasterAndDataWithOutSignature, Number(chainId));
+      if (this.chainRuntimes[chainId].verification) {
+        await this.verifyPaymasterData(chainId, deployment, userOp, sponsorshipMode.mode, signed, policyContext.maxCost);
+      }
 
-      const signature = await signer.signMessage(
-        ethers.getBytes(userOpHash)
-      );
+      if (this.ledger) {
+        await this.ledger.recordSignedOp({
+          chainId,
+          userOpHash: deployment.codec.getUserOpHash(userOp, signed.paymasterAndData, deployment.entryPoint, this.numericChainId(chainId)),
+          entryPoint: deployment.entryPoint,
+          paymaster: deployment.paymasterContract.target.toString(),
+          sender: policyContext.sender,
+          nonce: ethers.toQuantity(BigInt(userOp.nonce)),
+          mode: sponsorshipMode.mode,
+          token: sponsorshipMode.mode === PaymasterMode.Erc20 ? sponsorshipMode.token : null,
+          maxCost: policyContext.maxCost.toString(),
+          project: project?.project ?? null,
+          signedAt: policyContext.now.toISOString(),
+          validUntil: signed.validUntil,
+          ...(approval ? { approval } : {})
+        });
+      }
 
-      const paymasterData = this.createPaymasterData(validUntil, validAfter, signature);
+      this.metrics.recordSignature(chainId, sponsorshipMode.mode);
+      this.log.info({
+        chainId,
+        project: project?.project,
+        entryPoint: deployment.entryPoint,
+        paymaster: deployment.paymasterContract.target.toString(),
+        sender: policyContext.sender,
+        nonce: ethers.toQuantity(nonce),
+        mode: sponsorshipMode.mode,
+        validUntil: signed.validUntil,
+        approval
+      }, 'Generated paymaster data');
 
-      console.log({
-        message: "Generated paymaster data",
-        paymaster: paymasterContract.target.toString(),
-        paymasterData: paymasterData,
-        signature: signature
-      });
+      const result = this.formatPaymasterResult(deployment, paymasterData);
+      await this.outstandingSignatures.record({
+        chainId,
+        entryPoint: deployment.entryPoint,
+        sender: policyContext.sender,
+        nonce,
+        fingerprint,
+        result,
+        validUntil: signed.validUntil
+      }, reservation);
+
+      reservedSpend = undefined;
+      reservedBudget = undefined;
 
-      const paymasterAndData = {
+      const paymasterAndData: JsonRpcSuccess<PaymasterDataResult> = {
         "id": id,
-        "result": {
-          "paymaster": paymasterContract.target.toString(),
-          "paymasterData": paymasterData,
-        },
+        "result": result,
         "jsonrpc": "2.0"
       }
       return paymasterAndData;
     } catch (error: unknown) {
-      console.error("Error in getPaymasterData:", error);
-      const errorMessage = error instanceof Error
-        ? `${error.message}\n${error.stack}`
-        : String(error);
-      throw new Error(`Failed to generate paymaster data: ${errorMessage}`);
+      if (error instanceof RpcError) {
+        throw error;
+      }
+      this.log.error({ err: error, chainId }, 'Failed to generate paymaster data');
+      throw new RpcError(RpcErrorCode.InternalError, 'Failed to generate paymaster data');
+    } finally {
+      if (reservation) {
+        this.outstandingSignatures.release(reservation);
+      }
+      if (reservedBudget) {
+        await this.apiKeyService!.refundBudget(reservedBudget, reservedSpend!.maxCost);
+      }
+      if (reservedSpend) {
+        await this.policyService.refundSpend(reservedSpend);
+      }
     }
   }
 
-  public async getUserOperationGasPrice(id: number, params: any[], chainId: string): Promise<any> {
+  /**
+   * Quote what sponsoring ops would cost without signing them: their paymaster gas limits, gas price, max cost in wei
+   * and in each token, and whether the sponsorship checks would let them through or which one would refuse them.
+   * Takes the `pm_getPaymasterStubData` params, or the same with an array of userOps to quote a batch; each op in a
+   * batch is quoted on its own, so spend caps are not summed across them and an invalid op only fails its own entry.
+   */
+  async quoteUserOperation(
+    id: JsonRpcId,
+    params: unknown[],
+    chainId: string,
+    project?: ApiKeyProject
+  ): Promise<JsonRpcSuccess<UserOperationQuote | UserOperationQuoteEntry[]>> {
+    const [userOps, ...rest] = params;
+    if (!Array.isArray(userOps)) {
+      return { "id": id, "result": await this.quoteOne(params, chainId, project), "jsonrpc": "2.0" };
+    }
+
+    if (userOps.length === 0 || userOps.length > this.MAX_QUOTE_BATCH) {
+      throw new RpcError(RpcErrorCode.InvalidParams, `Invalid params: expected 1 to ${this.MAX_QUOTE_BATCH} userOps`);
+    }
+    const quotes: UserOperationQuoteEntry[] = [];
+    for (const userOp of userOps) {
+      try {
+        quotes.push(await this.quoteOne([userOp, ...rest], chainId, project));
+      } catch (error) {
+        quotes.push({ "error": (error as RpcError).toJSON() });
+      }
+    }
+    return { "id": id, "result": quotes, "jsonrpc": "2.0" };
+  }
+
+  private async quoteOne(params: unknown[], chainId: string, project?: ApiKeyProject): Promise<UserOperationQuote> {
     try {
-      const { provider } = this.chainRuntimes[chainId];
+      const { userOp: parsed, deployment, context } = this.parsePaymasterParams(params, chainId, 'stub');
+      const version = deployment.codec.version;
 
-      const feeData = await provider.getFeeData();
+      let rejection: { policy: string, reason: string } | null = null;
+      const refuse = (error: unknown) => {
+        if (error instanceof RpcError && error.code === RpcErrorCode.SponsorshipRejected) {
+          rejection = { policy: (error.data as { policy: string }).policy, reason: error.message };
+        } else if (error instanceof RpcError && error.code === RpcErrorCode.LimitExceeded) {
+          rejection = { policy: 'budget', reason: error.message };
+        } else {
+          throw error;
+        }
+      };
 
-      let maxPriorityFeePerGas = feeData.maxPriorityFeePerGas || BigInt(1500000000);
-      maxPriorityFeePerGas = maxPriorityFeePerGas * BigInt(3) / BigInt(2);
+      // A token whose rate cannot be read refuses token mode, but the op is still costed as sponsored
+      let sponsorshipMode: SponsorshipMode = { mode: PaymasterMode.Verifying };
+      try {
+        sponsorshipMode = await this.resolveSponsorshipMode(context, chainId);
+      } catch (error) {
+        refuse(error);
+      }
 
-      const slowMaxPriorityFee = maxPriorityFeePerGas * BigInt(80) / BigInt(100);
-      const standardMaxPriorityFee = maxPriorityFeePerGas;
-      const fastMaxPriorityFee = maxPriorityFeePerGas * BigInt(120) / BigInt(100);
+      // Ops that leave the gas price to the paymaster are priced at the oracle's standard tier
+      let userOp = parsed;
+      const gasPriceSource = BigInt(userOp.maxFeePerGas) === 0n ? 'oracle' : 'userOp';
+      if (gasPriceSource === 'oracle') {
+        const { standard } = await this.chainRuntimes[chainId].gasPriceOracle.getTiers();
+        userOp = {
+          ...userOp,
+          maxFeePerGas: ethers.toQuantity(standard.maxFeePerGas),
+          maxPriorityFeePerGas: ethers.toQuantity(standard.maxPriorityFeePerGas)
+        };
+      }
 
-      const baseFee = feeData.gasPrice ? feeData.gasPrice - maxPriorityFeePerGas : BigInt(30000000000);
+      const gasLimits = version === '0.6'
+        ? undefined
+        : await this.estimatePaymasterGasLimits(chainId, deployment, userOp, sponsorshipMode);
+      if (gasLimits) {
+        userOp = {
+          ...userOp,
+          paymasterVerificationGasLimit: ethers.toQuantity(gasLimits.verificationGasLimit),
+          paymasterPostOpGasLimit: ethers.toQuantity(gasLimits.postOpGasLimit)
+        };
+      }
+      const maxCost = getMaxCost(userOp, version);
+
+      if (!rejection) {
+        try {
+          const policyContext = await this.policyService.check(chainId, userOp, version);
+          await this.assertSponsorable(chainId, deployment, policyContext.sender, BigInt(userOp.nonce), maxCost, project);
+        } catch (error) {
+          refuse(error);
+        }
+      }
+
+      return {
+        "sponsorable": rejection === null,
+        "mode": sponsorshipMode.mode === PaymasterMode.Erc20 ? 'erc20' : 'verifying',
+        "token": sponsorshipMode.mode === PaymasterMode.Erc20 ? sponsorshipMode.token : null,
+        "gasLimits": {
+          "callGasLimit": userOp.callGasLimit,
+          "verificationGasLimit": userOp.verificationGasLimit,
+          "preVerificationGas": userOp.preVerificationGas,
+          ...(gasLimits && {
+            "paymasterVerificationGasLimit": ethers.toQuantity(gasLimits.verificationGasLimit),
+            "paymasterPostOpGasLimit": ethers.toQuantity(gasLimits.postOpGasLimit)
+          })
+        },
+        "gasPrice": {
+          "maxFeePerGas": userOp.maxFeePerGas,
+          "maxPriorityFeePerGas": userOp.maxPriorityFeePerGas,
+          "source": gasPriceSource
+        },
+        "maxCost": ethers.toQuantity(maxCost),
+        "tokens": await this.quoteTokenCosts(chainId, { maxGasCost: maxCost, feePerGas: BigInt(userOp.maxFeePerGas) }),
+        "policies": this.policyService.getPolicyNames(chainId),
+        // The webhook is only asked when the op is signed
+        "approvalRequired": (project?.sponsorshipWebhook ?? this.chainRuntimes[chainId].sponsorshipWebhook) !== undefined,
+        "rejection": rejection
+      };
+    } catch (error: unknown) {
+      if (error instanceof RpcError) {
+        throw error;
+      }
+      this.log.error({ err: error, chainId }, 'Failed to quote user operation');
+      throw new RpcError(RpcErrorCode.InternalError, 'Failed to quote user operation');
+    }
+  }
+
+  private formatGasPriceTiers(tiers: GasPriceTiers): { [tier: string]: { [field: string]: string } } {
+    const format = (tier: GasPriceTier) => ({
+      "maxFeePerGas": ethers.toQuantity(tier.maxFeePerGas),
+      "maxPriorityFeePerGas": ethers.toQuantity(tier.maxPriorityFeePerGas)
+    });
+    return {
+      "fast": format(tiers.fast),
+      "slow": format(tiers.slow),
+      "standard": format(tiers.standard)
+    };
+  }
+
+  public async getUserOperationGasPrice(id: JsonRpcId, params: unknown[], chainId: string): Promise<JsonRpcResponse> {
+    try {
+      const tiers = await this.chainRuntimes[chainId].gasPriceOracle.getTiers();
+
+      return {
+        "id": id,
+        "result": this.formatGasPriceTiers(tiers),
+        "jsonrpc": "2.0"
+      };
+    } catch (error) {
+      this.log.error({ err: error, chainId }, 'Failed to get gas price');
+      throw new RpcError(RpcErrorCode.InternalError, 'Failed to get gas price');
+    }
+  }
+
+  /**
+   * Gas price tiers together with the per-block fees they were derived from
+   * @param params - `[blockCount?]`, at most 1024 blocks
+   */
+  public async getGasPriceHistory(id: JsonRpcId, params: unknown[], chainId: string): Promise<JsonRpcResponse> {
+    const MAX_BLOCK_COUNT = 1024;
+    const [blockCount] = params;
+    if (blockCount !== undefined && (!Number.isInteger(Number(blockCount)) || Number(blockCount) < 1 || Number(blockCount) > MAX_BLOCK_COUNT)) {
+      throw new RpcError(RpcErrorCode.InvalidParams, `Invalid blockCount: expected an integer between 1 and ${MAX_BLOCK_COUNT}`);
+    }
+
+    try {
+      const snapshot = await this.chainRuntimes[chainId].gasPriceOracle.getSnapshot(
+        blockCount === undefined ? undefined : Number(blockCount)
+      );
 
       return {
         "id": id,
         "result": {
-          "fast": {
-            "maxFeePerGas": `0x${((baseFee + fastMaxPriorityFee) * BigInt(3) / BigInt(2)).toString(16)}`,
-            "maxPriorityFeePerGas": `0x${fastMaxPriorityFee.toString(16)}`
-          },
-          "slow": {
-            "maxFeePerGas": `0x${((baseFee + slowMaxPriorityFee) * BigInt(3) / BigInt(2)).toString(16)}`,
-            "maxPriorityFeePerGas": `0x${slowMaxPriorityFee.toString(16)}`
-          },
-          "standard": {
-            "maxFeePerGas": `0x${((baseFee + standardMaxPriorityFee) * BigInt(3) / BigInt(2)).toString(16)}`,
-            "maxPriorityFeePerGas": `0x${standardMaxPriorityFee.toString(16)}`
-          }
+          ...this.formatGasPriceTiers(snapshot.tiers),
+          "baseFeePerGas": snapshot.baseFeePerGas === null ? null : ethers.toQuantity(snapshot.baseFeePerGas),
+          "history": snapshot.history.map((entry) => ({
+            "blockNumber": ethers.toQuantity(entry.blockNumber),
+            "baseFeePerGas": ethers.toQuantity(entry.baseFeePerGas),
+            "gasUsedRatio": entry.gasUsedRatio,
+            "slow": ethers.toQuantity(entry.priorityFees[0]),
+            "standard": ethers.toQuantity(entry.priorityFees[1]),
+            "fast": ethers.toQuantity(entry.priorityFees[2])
+          }))
         },
         "jsonrpc": "2.0"
       };
     } catch (error) {
-      console.error("Error getting gas price:", error);
-      throw new Error(`Failed to get gas price: ${error instanceof Error ? error.message : String(error)}`);
+      this.log.error({ err: error, chainId }, 'Failed to get gas price history');
+      throw new RpcError(RpcErrorCode.InternalError, 'Failed to get gas price history');
     }
   }
 
-  private packUint(high128: bigint | string | number, low128: bigint | string | number): string {
-    const highBigInt = BigInt(high128);
-    const lowBigInt = BigInt(low128);
-    const result = (highBigInt << 128n) | lowBigInt;
-    return ethers.zeroPadValue(ethers.toBeHex(result), 32);
+  /**
+   * Decode a signed user operation's paymaster fields and compare the off-chain and on-chain hashes
+   * @param params - `[userOp, entryPoint, chainId]`, with the userOp carrying paymaster fields
+   */
+  public async debugUserOperation(
+    id: JsonRpcId,
+    params: unknown[],
+    chainId: string
+  ): Promise<JsonRpcSuccess<DebugUserOperationResult>> {
+    const { userOp, deployment } = this.parsePaymasterParams(params, chainId, 'final');
+    const { provider, signer, sponsorship } = this.chainRuntimes[chainId];
+    const { codec } = deployment;
+    const signerAddresses = signer ? await signer.getAddresses() : [];
+
+    const fields = codec.getPaymasterFields(userOp);
+    if (!fields) {
+      throw new RpcError(RpcErrorCode.InvalidParams, 'userOp has no paymaster fields');
+    }
+
+    const { paymasterConfig, signature, ...paymasterData } = this.decodePaymasterData(fields.paymasterData);
+    const paymasterAndData = codec.packPaymasterAndData(
+      fields.paymaster,
+      fields.paymasterVerificationGasLimit,
+      fields.paymasterPostOpGasLimit,
+      fields.paymasterData
+    );
+    const paymasterHash = codec.getPaymasterHash(
+      userOp,
+      codec.packPaymasterAndData(fields.paymaster, fields.paymasterVerificationGasLimit, fields.paymasterPostOpGasLimit, paymasterConfig),
+      this.numericChainId(chainId)
+    );
+
+    let onChainHash: string | null = null;
+    let onChainError: string | undefined;
+    try {
+      onChainHash = await getOnChainPaymasterHash(provider, fields.paymaster, codec, paymasterData.mode, userOp, paymasterAndData);
+    } catch (error) {
+      onChainError = error instanceof Error ? error.message : String(error);
+    }
+
+    let recoveredSigner: string | null = null;
+    try {
+      recoveredSigner = ethers.verifyMessage(ethers.getBytes(paymasterHash), signature);
+    } catch {
+      // malformed signature; reported as recoveredSigner: null
+    }
+
+    let signerAuthorized: boolean | null = null;
+    if (recoveredSigner) {
+      try {
+        signerAuthorized = await deployment.paymasterContract.signers(recoveredSigner);
+      } catch {
+        // reported as authorized: null
+      }
+    }
+
+    return {
+      "id": id,
+      "result": {
+        "entryPoint": deployment.entryPoint,
+        "entryPointVersion": codec.version,
+        "paymaster": fields.paymaster,
+        "paymasterVerificationGasLimit": ethers.toQuantity(fields.paymasterVerificationGasLimit),
+        "paymasterPostOpGasLimit": ethers.toQuantity(fields.paymasterPostOpGasLimit),
+        "paymasterData": { ...paymasterData, signature },
+        // The contract checks the submitting bundler against its own allowlist; this is the list we configured
+        "allowedBundlers": paymasterData.allowAllBundlers
+          ? null
+          : sponsorship[paymasterData.mode as PaymasterMode]?.allowedBundlers ?? [],
+        "paymasterHash": {
+          "offChain": paymasterHash,
+          "onChain": onChainHash,
+          "match": onChainHash === paymasterHash,
+          ...(onChainError && { "error": onChainError })
+        },
+        "signer": {
+          "recovered": recoveredSigner,
+          "expected": signerAddresses,
+          "match": recoveredSigner !== null && signerAddresses.includes(recoveredSigner),
+          "authorized": signerAuthorized
+        },
+        "userOpHash": codec.getUserOpHash(userOp, paymasterAndData, deployment.entryPoint, this.numericChainId(chainId))
+      },
+      "jsonrpc": "2.0"
+    };
   }
 
-  private getUserOpHash(
-    userOp: UserOperation,
-    paymasterAndDataWithOutSignature: string,
-    chainId: number
-  ): string {
-    const verificationGasLimit = BigInt(userOp.verificationGasLimit || '0');
-    const callGasLimit = BigInt(userOp.callGasLimit || '0');
-    const accountGasLimits = this.packUint(verificationGasLimit, callGasLimit);
+  /**
+   * Deposit, stake and open alerts of every paymaster on the chain
+   */
+  async getStatus(chainId: string): Promise<PaymasterFunding[]> {
+    return this.chainRuntimes[chainId].depositMonitor.getFunding();
+  }
 
-    const maxPriorityFeePerGasBigInt = BigInt(userOp.maxPriorityFeePerGas || '0');
-    const maxFeePerGasBigInt = BigInt(userOp.maxFeePerGas || '0');
-    const gasFees = this.packUint(maxPriorityFeePerGasBigInt, maxFeePerGasBigInt);
+  /**
+   * Circuit state and request history of each of the chain's RPC endpoints
+   */
+  getRpcHealth(chainId: string): RpcHealth {
+    return this.chainRuntimes[chainId].provider.getHealth();
+  }
 
-    const userOpHash = ethers.keccak256(
-      ethers.AbiCoder.defaultAbiCoder().encode(
-        [
-          "address",
-          "uint256",
-          "uint256",
-          "uint256",
-          "uint256",
-          "bytes32",
-          "bytes32",
-          "bytes32"
-        ],
-        [
-          userOp.sender,
-          userOp.nonce,
-          accountGasLimits,
-          userOp.preVerificationGas,
-          gasFees,
-          ethers.keccak256(userOp.initCode || '0x'),
-          ethers.keccak256(userOp.callData || '0x'),
-          ethers.keccak256(paymasterAndDataWithOutSignature)
-        ]
-      )
-    );
+  /**
+   * The chain's paymaster contracts, connected to its provider, for admin tooling
+   */
+  getPaymasterContracts(chainId: string): { entryPoint: string, entryPointVersion: EntryPointVersion, contract: ethers.Contract }[] {
+    return Object.values(this.chainRuntimes[chainId].deployments).map((deployment) => ({
+      entryPoint: deployment.entryPoint,
+      entryPointVersion: deployment.codec.version,
+      contract: deployment.paymasterContract
+    }));
+  }
 
-    return ethers.keccak256(
-      ethers.AbiCoder.defaultAbiCoder().encode(
-        ["bytes32", "uint256"],
-        [userOpHash, chainId]
-      )
+  getProvider(chainId: string): ethers.JsonRpcProvider {
+    return this.chainRuntimes[chainId].provider;
+  }
+
+  /**
+   * Addresses of the keys that sign for the chain, none when it has no signer
+   */
+  async getSignerAddresses(chainId: string): Promise<string[]> {
+    return await this.chainRuntimes[chainId].signer?.getAddresses() ?? [];
+  }
+
+  /**
+   * Tokens accepted in token mode with their current exchange rates. Given `[userOp, entryPoint, chainId]`,
+   * each token also quotes the most the op may cost in that token, from the gas limits the op carries.
+   */
+  public async getSupportedTokens(id: JsonRpcId, params: unknown[], chainId: string): Promise<JsonRpcSuccess<{ tokens: TokenQuote[] }>> {
+    const op = params.length > 0 ? this.parsePaymasterParams(params, chainId, 'stub') : undefined;
+    const tokens = await this.quoteTokenCosts(
+      chainId,
+      op && { maxGasCost: getMaxCost(op.userOp, op.deployment.codec.version), feePerGas: BigInt(op.userOp.maxFeePerGas) }
     );
+
+    return {
+      "id": id,
+      "result": { "tokens": tokens },
+      "jsonrpc": "2.0"
+    };
+  }
+
+  /**
+   * Each token's current rate and, given an op's max gas cost, the most the op may cost in that token
+   */
+  private quoteTokenCosts(chainId: string, cost?: { maxGasCost: bigint, feePerGas: bigint }): Promise<TokenQuote[]> {
+    const runtime = this.chainRuntimes[chainId];
+    return Promise.all(Object.entries(runtime.tokens).map(async ([token, tokenConfig]) => {
+      const postOpGas = BigInt(tokenConfig.postOpGas ?? this.DEFAULT_POST_OP_GAS);
+      const base = {
+        "token": token,
+        "decimals": tokenConfig.decimals ?? null,
+        "postOpGas": ethers.toQuantity(postOpGas)
+      };
+      let quote: ExchangeRateQuote;
+      try {
+        quote = await runtime.exchangeRates.getRate(token);
+      } catch (error) {
+        this.log.warn({ err: error, chainId, token }, 'No usable exchange rate');
+        return { ...base, "exchangeRate": null, "error": 'Exchange rate unavailable' };
+      }
+      return {
+        ...base,
+        "exchangeRate": ethers.toQuantity(quote.exchangeRate),
+        "source": quote.source,
+        "updatedAt": quote.updatedAt.toISOString(),
+        ...(cost && {
+          "maxCostInToken": ethers.toQuantity(getCostInToken(cost.maxGasCost, postOpGas, cost.feePerGas, quote.exchangeRate))
+        })
+      };
+    }));
+  }
+
+  public async getSupportedEntryPoints(id: JsonRpcId, chainId: string): Promise<JsonRpcResponse> {
+    return {
+      "id": id,
+      "result": Object.keys(this.chainRuntimes[chainId].deployments),
+      "jsonrpc": "2.0"
+    };
+  }
+
+  public async getChainId(id: JsonRpcId, chainId: string): Promise<JsonRpcResponse> {
+    return {
+      "id": id,
+      "result": ethers.toQuantity(this.numericChainId(chainId)),
+      "jsonrpc": "2.0"
+    };
   }
-} 
\ No newline at end of file
+}
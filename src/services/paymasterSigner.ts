@@ -0,0 +1,220 @@
+import { readFileSync } from 'node:fs';
+import { ethers } from 'ethers';
+import { SignerConfig } from '../config/index.js';
+
+/**
+ * Decides whether a signer address may be used, e.g. by asking the paymaster contract
+ */
+export type SignerFilter = (address: string) => Promise<boolean>;
+
+export interface PaymasterSignature {
+  signer: string;
+  signature: string;
+}
+
+/**
+ * Produces the EIP-191 signature over the paymaster hash
+ */
+export interface PaymasterSigner {
+  /** Every address this signer may sign with */
+  getAddresses(): Promise<string[]>;
+  /**
+   * Sign `message` as an EIP-191 personal message with an address accepted by `filter`
+   */
+  signMessage(message: Uint8Array, filter?: SignerFilter): Promise<PaymasterSignature>;
+}
+
+/**
+ * Thrown when no address behind a signer is accepted by the filter
+ */
+export class SignerUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignerUnavailableError';
+  }
+}
+
+/**
+ * A signer backed by a single address
+ */
+abstract class SingleKeySigner implements PaymasterSigner {
+  abstract readonly address: string;
+
+  protected abstract sign(message: Uint8Array): Promise<string>;
+
+  async getAddresses(): Promise<string[]> {
+    return [this.address];
+  }
+
+  async signMessage(message: Uint8Array, filter?: SignerFilter): Promise<PaymasterSignature> {
+    if (filter && !(await filter(this.address))) {
+      throw new SignerUnavailableError(`Signer ${this.address} is not authorized`);
+    }
+    return { signer: this.address, signature: await this.sign(message) };
+  }
+}
+
+/**
+ * Signs with a private key held in memory
+ */
+export class WalletSigner extends SingleKeySigner {
+  readonly address: string;
+
+  constructor(private readonly wallet: ethers.BaseWallet) {
+    super();
+    this.address = wallet.address;
+  }
+
+  protected sign(message: Uint8Array): Promise<string> {
+    return this.wallet.signMessage(message);
+  }
+}
+
+/**
+ * Signs with the key in an encrypted JSON keystore, decrypted on first use
+ */
+export class KeystoreSigner extends SingleKeySigner {
+  readonly address: string;
+  private wallet?: Promise<ethers.Wallet>;
+
+  constructor(private readonly json: string, private readonly password: string) {
+    super();
+    // The keystore records its address in the clear, so it is known before the slow decryption
+    this.address = ethers.getAddress(`0x${JSON.parse(json).address}`);
+  }
+
+  static fromFile(path: string, password: string): KeystoreSigner {
+    return new KeystoreSigner(readFileSync(path, 'utf8'), password);
+  }
+
+  protected async sign(message: Uint8Array): Promise<string> {
+    if (!this.wallet) {
+      this.wallet = ethers.Wallet.fromEncryptedJson(this.json, this.password) as Promise<ethers.Wallet>;
+      this.wallet.catch(() => { this.wallet = undefined; });
+    }
+    return (await this.wallet).signMessage(message);
+  }
+}
+
+/**
+ * Delegates signing to an HTTP service holding the key, e.g. in a KMS or HSM.
+ *
+ * Request: `POST url` with `{ "address": "0x..", "message": "0x.." }`, where `message` is
+ * to be signed as an EIP-191 personal message. Response: `{ "signature": "0x.." }`.
+ * The returned signature must recover to `address`.
+ */
+export class RemoteSigner extends SingleKeySigner {
+  readonly address: string;
+
+  constructor(
+    private readonly url: string,
+    address: string,
+    private readonly headers: { [name: string]: string } = {},
+    private readonly timeoutMs = 5000
+  ) {
+    super();
+    this.address = ethers.getAddress(address);
+  }
+
+  protected async sign(message: Uint8Array): Promise<string> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...this.headers },
+      body: JSON.stringify({ address: this.address, message: ethers.hexlify(message) }),
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+    if (!response.ok) {
+      throw new Error(`Remote signer responded with HTTP ${response.status}`);
+    }
+
+    const { signature } = await response.json() as { signature?: string };
+    if (typeof signature !== 'string' || ethers.verifyMessage(message, signature) !== this.address) {
+      throw new Error(`Remote signer returned an invalid signature for ${this.address}`);
+    }
+    return signature;
+  }
+}
+
+/**
+ * Spreads signing over several signers, skipping those the filter rejects or that fail to sign
+ */
+export class MultiSigner implements PaymasterSigner {
+  private next = 0;
+
+  constructor(
+    private readonly signers: PaymasterSigner[],
+    private readonly strategy: 'roundRobin' | 'failover'
+  ) {
+    if (signers.length === 0) {
+      throw new Error('MultiSigner needs at least one signer');
+    }
+  }
+
+  async getAddresses(): Promise<string[]> {
+    return (await Promise.all(this.signers.map((signer) => signer.getAddresses()))).flat();
+  }
+
+  async signMessage(message: Uint8Array, filter?: SignerFilter): Promise<PaymasterSignature> {
+    // Failover always prefers the first signer; round robin starts one further on every call
+    const start = this.strategy === 'roundRobin' ? this.next++ % this.signers.length : 0;
+
+    const errors: string[] = [];
+    for (let i = 0; i < this.signers.length; i++) {
+      const signer = this.signers[(start + i) % this.signers.length];
+      try {
+        return await signer.signMessage(message, filter);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+    throw new SignerUnavailableError(`No signer available: ${errors.join('; ')}`);
+  }
+}
+
+/**
+ * Checks signer addresses against the paymaster's `signers(address)` view, caching the answers
+ * so keys rotated through `addSigner` / `removeSigner` are picked up within the TTL
+ */
+export class OnChainSignerCheck {
+  private readonly cache = new Map<string, { authorized: boolean, expiresAt: number }>();
+
+  constructor(private readonly cacheTtlSeconds = 60) { }
+
+  filterFor(paymasterContract: ethers.Contract): SignerFilter {
+    return async (address) => {
+      const key = `${paymasterContract.target}:${address}`;
+      const cached = this.cache.get(key);
+      if (cached && cached.expiresAt > Date.now()) {
+        return cached.authorized;
+      }
+
+      let authorized: boolean;
+      try {
+        authorized = await paymasterContract.signers(address);
+      } catch (error) {
+        // Keep signing with the last known answer while the RPC is unavailable
+        if (cached) {
+          return cached.authorized;
+        }
+        throw error;
+      }
+      this.cache.set(key, { authorized, expiresAt: Date.now() + this.cacheTtlSeconds * 1000 });
+      return authorized;
+    };
+  }
+}
+
+export function createPaymasterSigner(config: SignerConfig): PaymasterSigner {
+  switch (config.type) {
+    case 'privateKey':
+      return new WalletSigner(new ethers.Wallet(config.privateKey));
+    case 'keystore':
+      return KeystoreSigner.fromFile(config.path, config.password);
+    case 'remote':
+      return new RemoteSigner(config.url, config.address, config.headers, config.timeoutMs);
+    case 'multi':
+      return new MultiSigner(config.signers.map(createPaymasterSigner), config.strategy);
+    default:
+      throw new Error(`Unknown signer type: ${(config as { type: string }).type}`);
+  }
+}
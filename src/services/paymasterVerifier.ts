@@ -0,0 +1,92 @@
+import { ethers } from 'ethers';
+import { EntryPointVersion } from '../config/index.js';
+import { PaymasterMode } from '../types/paymaster.js';
+import { UserOperation } from '../types/userOperation.js';
+import { EntryPointCodec } from './entryPointCodec.js';
+
+/**
+ * How generated paymaster data is checked against the chain before it is returned
+ */
+export type VerificationMode = 'getHash' | 'simulateValidation';
+
+/**
+ * validationData returned by `validatePaymasterUserOp`, unpacked
+ */
+export interface PaymasterValidationResult {
+  sigFailed: boolean;
+  validUntil: number;
+  validAfter: number;
+}
+
+const paymasterInterfaces = new Map<EntryPointVersion, ethers.Interface>();
+
+/**
+ * The paymaster's EntryPoint-facing functions, encoded for the codec's EntryPoint version.
+ * The config ABI only describes the v0.7 struct.
+ */
+export function paymasterInterface(codec: EntryPointCodec): ethers.Interface {
+  let iface = paymasterInterfaces.get(codec.version);
+  if (!iface) {
+    iface = new ethers.Interface([
+      `function getHash(uint8 _mode, ${codec.userOpStructType} _userOp) view returns (bytes32)`,
+      `function validatePaymasterUserOp(${codec.userOpStructType} userOp, bytes32 userOpHash, uint256 maxCost) returns (bytes context, uint256 validationData)`,
+      codec.version === '0.6'
+        ? 'function postOp(uint8 mode, bytes context, uint256 actualGasCost)'
+        : 'function postOp(uint8 mode, bytes context, uint256 actualGasCost, uint256 actualUserOpFeePerGas)'
+    ]);
+    paymasterInterfaces.set(codec.version, iface);
+  }
+  return iface;
+}
+
+/**
+ * Ask the paymaster contract for the hash it expects to be signed
+ */
+export async function getOnChainPaymasterHash(
+  provider: ethers.Provider,
+  paymaster: string,
+  codec: EntryPointCodec,
+  mode: PaymasterMode,
+  userOp: UserOperation,
+  paymasterAndData: string
+): Promise<string> {
+  const iface = paymasterInterface(codec);
+  const result = await provider.call({
+    to: paymaster,
+    data: iface.encodeFunctionData('getHash', [mode, codec.toUserOpStruct(userOp, paymasterAndData)])
+  });
+  return iface.decodeFunctionResult('getHash', result)[0];
+}
+
+/**
+ * Run `validatePaymasterUserOp` through eth_call as the EntryPoint would, and unpack its validationData
+ */
+export async function simulatePaymasterValidation(
+  provider: ethers.Provider,
+  paymaster: string,
+  entryPoint: string,
+  codec: EntryPointCodec,
+  userOp: UserOperation,
+  paymasterAndData: string,
+  userOpHash: string,
+  maxCost: bigint
+): Promise<PaymasterValidationResult> {
+  const iface = paymasterInterface(codec);
+  const result = await provider.call({
+    from: entryPoint,
+    to: paymaster,
+    data: iface.encodeFunctionData('validatePaymasterUserOp', [
+      codec.toUserOpStruct(userOp, paymasterAndData),
+      userOpHash,
+      maxCost
+    ])
+  });
+  const validationData: bigint = iface.decodeFunctionResult('validatePaymasterUserOp', result)[1];
+
+  const mask48 = (1n << 48n) - 1n;
+  return {
+    sigFailed: (validationData & ((1n << 160n) - 1n)) === 1n,
+    validUntil: Number((validationData >> 160n) & mask48),
+    validAfter: Number((validationData >> 208n) & mask48)
+  };
+}
@@ -0,0 +1,248 @@
+import { ethers } from 'ethers';
+import { EntryPointVersion, listChains, PaymasterConfig, SponsorshipPolicyConfig } from '../config/index.js';
+import { RpcError, RpcErrorCode } from '../errors/rpcError.js';
+import { UserOperation } from '../types/userOperation.js';
+import { DecodedCall, decodeCalls } from '../utils/callData.js';
+import { getMaxCost } from '../utils/userOperation.js';
+
+/**
+ * Everything a policy may inspect when deciding whether to sponsor a user operation
+ */
+export interface PolicyCheckContext {
+  chainId: string;
+  userOp: UserOperation;
+  sender: string;
+  /** Calls decoded from `callData`, or null when the account format is unknown */
+  calls: DecodedCall[] | null;
+  maxCost: bigint;
+  now: Date;
+}
+
+/**
+ * A sponsorship rule. `check` throws (usually via `rejectSponsorship`) to refuse the op.
+ */
+export interface SponsorshipPolicy {
+  readonly name: string;
+  check(context: PolicyCheckContext): Promise<void> | void;
+}
+
+/**
+ * Storage for cumulative sponsored gas cost, keyed by chain, sender and day
+ */
+export interface SpendTracker {
+  getSpend(key: string): Promise<bigint>;
+  addSpend(key: string, amount: bigint): Promise<void>;
+  /**
+   * Add `amount` unless the total would pass `limit`, as one step so concurrent callers cannot both slip under it
+   */
+  tryAddSpend(key: string, amount: bigint, limit?: bigint): Promise<boolean>;
+}
+
+export class InMemorySpendTracker implements SpendTracker {
+  private readonly spend = new Map<string, bigint>();
+
+  async getSpend(key: string): Promise<bigint> {
+    return this.spend.get(key) ?? 0n;
+  }
+
+  async addSpend(key: string, amount: bigint): Promise<void> {
+    this.spend.set(key, (this.spend.get(key) ?? 0n) + amount);
+  }
+
+  async tryAddSpend(key: string, amount: bigint, limit?: bigint): Promise<boolean> {
+    const total = (this.spend.get(key) ?? 0n) + amount;
+    if (limit !== undefined && total > limit) {
+      return false;
+    }
+    this.spend.set(key, total);
+    return true;
+  }
+}
+
+export function rejectSponsorship(policy: string, reason: string): never {
+  throw new RpcError(RpcErrorCode.SponsorshipRejected, `Sponsorship rejected: ${reason}`, { policy });
+}
+
+function dayKey(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function senderSpendKey(context: PolicyCheckContext): string {
+  return `${context.chainId}:${context.sender}:${dayKey(context.now)}`;
+}
+
+function chainSpendKey(context: PolicyCheckContext): string {
+  return `${context.chainId}:*:${dayKey(context.now)}`;
+}
+
+function toAddressSet(addresses: string[] = []): Set<string> {
+  return new Set(addresses.map((address) => ethers.getAddress(address)));
+}
+
+function senderPolicy(config: SponsorshipPolicyConfig): SponsorshipPolicy {
+  const allowed = config.allowedSenders ? toAddressSet(config.allowedSenders) : null;
+  const denied = toAddressSet(config.deniedSenders);
+
+  return {
+    name: 'sender',
+    check({ sender }) {
+      if (denied.has(sender)) {
+        rejectSponsorship(this.name, `sender ${sender} is denied`);
+      }
+      if (allowed && !allowed.has(sender)) {
+        rejectSponsorship(this.name, `sender ${sender} is not allowed`);
+      }
+    }
+  };
+}
+
+function callPolicy(config: SponsorshipPolicyConfig): SponsorshipPolicy {
+  const targets = config.allowedTargets ? toAddressSet(config.allowedTargets) : null;
+  const selectors = config.allowedSelectors
+    ? new Set(config.allowedSelectors.map((selector) => selector.toLowerCase()))
+    : null;
+
+  return {
+    name: 'call',
+    check({ calls }) {
+      if (!targets && !selectors) {
+        return;
+      }
+      if (!calls) {
+        rejectSponsorship(this.name, 'callData could not be decoded');
+      }
+      for (const call of calls) {
+        if (targets && !targets.has(call.target)) {
+          rejectSponsorship(this.name, `target ${call.target} is not allowed`);
+        }
+        if (selectors && (!call.selector || !selectors.has(call.selector.toLowerCase()))) {
+          rejectSponsorship(this.name, `selector ${call.selector ?? '0x'} is not allowed`);
+        }
+      }
+    }
+  };
+}
+
+function maxGasCostPolicy(maxGasCostPerOp: bigint): SponsorshipPolicy {
+  return {
+    name: 'maxGasCost',
+    check({ maxCost }) {
+      if (maxCost > maxGasCostPerOp) {
+        rejectSponsorship(this.name, `max gas cost ${maxCost} exceeds limit ${maxGasCostPerOp}`);
+      }
+    }
+  };
+}
+
+function spendCapPolicy(config: SponsorshipPolicyConfig, tracker: SpendTracker): SponsorshipPolicy {
+  return {
+    name: 'spendCap',
+    async check(context) {
+      if (config.maxSpendPerSenderPerDay !== undefined) {
+        const spent = await tracker.getSpend(senderSpendKey(context));
+        if (spent + context.maxCost > BigInt(config.maxSpendPerSenderPerDay)) {
+          rejectSponsorship(this.name, `daily spend cap reached for sender ${context.sender}`);
+        }
+      }
+      if (config.maxSpendPerDay !== undefined) {
+        const spent = await tracker.getSpend(chainSpendKey(context));
+        if (spent + context.maxCost > BigInt(config.maxSpendPerDay)) {
+          rejectSponsorship(this.name, `daily spend cap reached for chain ${context.chainId}`);
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Runs the configured sponsorship policies for a chain before the paymaster signs. Chains are named by `chainKey`,
+ * so each tenant's chains have their own policies and spend caps.
+ */
+export class PolicyService {
+  private readonly policies: { [chainId: string]: SponsorshipPolicy[] } = {};
+  private readonly spendCaps: { [chainId: string]: { perSender?: bigint, perDay?: bigint } } = {};
+
+  constructor(
+    config: PaymasterConfig,
+    private readonly spendTracker: SpendTracker = new InMemorySpendTracker()
+  ) {
+    for (const { key: chainId, config: chainConfig } of listChains(config)) {
+      const policyConfig = chainConfig.policy;
+      this.policies[chainId] = [];
+      if (!policyConfig) {
+        continue;
+      }
+      this.spendCaps[chainId] = {
+        perSender: policyConfig.maxSpendPerSenderPerDay === undefined ? undefined : BigInt(policyConfig.maxSpendPerSenderPerDay),
+        perDay: policyConfig.maxSpendPerDay === undefined ? undefined : BigInt(policyConfig.maxSpendPerDay)
+      };
+
+      this.policies[chainId].push(senderPolicy(policyConfig), callPolicy(policyConfig));
+      if (policyConfig.maxGasCostPerOp !== undefined) {
+        this.policies[chainId].push(maxGasCostPolicy(BigInt(policyConfig.maxGasCostPerOp)));
+      }
+      if (policyConfig.maxSpendPerSenderPerDay !== undefined || policyConfig.maxSpendPerDay !== undefined) {
+        this.policies[chainId].push(spendCapPolicy(policyConfig, this.spendTracker));
+      }
+    }
+  }
+
+  /**
+   * Register an additional policy for a chain, run after the configured ones
+   */
+  addPolicy(chainId: string, policy: SponsorshipPolicy): void {
+    (this.policies[chainId] ??= []).push(policy);
+  }
+
+  /**
+   * Names of the policies run for the chain, in order
+   */
+  getPolicyNames(chainId: string): string[] {
+    return (this.policies[chainId] ?? []).map((policy) => policy.name);
+  }
+
+  /**
+   * Run every policy for the chain, throwing an RpcError on the first rejection
+   */
+  async check(chainId: string, userOp: UserOperation, entryPointVersion?: EntryPointVersion): Promise<PolicyCheckContext> {
+    if (!userOp.sender || !ethers.isAddress(userOp.sender)) {
+      throw new RpcError(RpcErrorCode.InvalidParams, `Invalid sender: ${userOp.sender}`);
+    }
+
+    const context: PolicyCheckContext = {
+      chainId,
+      userOp,
+      sender: ethers.getAddress(userOp.sender),
+      calls: decodeCalls(userOp.callData),
+      maxCost: getMaxCost(userOp, entryPointVersion),
+      now: new Date()
+    };
+
+    for (const policy of this.policies[chainId] ?? []) {
+      await policy.check(context);
+    }
+
+    return context;
+  }
+
+  /**
+   * Count a checked user operation against the sender and chain spend caps before it is signed, refusing it when
+   * either would be passed; `check` alone only reads the spend, so requests running side by side could all pass it.
+   * Undo with `refundSpend` if the op is not signed after all.
+   */
+  async reserveSpend(context: PolicyCheckContext): Promise<void> {
+    const caps = this.spendCaps[context.chainId] ?? {};
+    if (!await this.spendTracker.tryAddSpend(senderSpendKey(context), context.maxCost, caps.perSender)) {
+      rejectSponsorship('spendCap', `daily spend cap reached for sender ${context.sender}`);
+    }
+    if (!await this.spendTracker.tryAddSpend(chainSpendKey(context), context.maxCost, caps.perDay)) {
+      await this.spendTracker.addSpend(senderSpendKey(context), -context.maxCost);
+      rejectSponsorship('spendCap', `daily spend cap reached for chain ${context.chainId}`);
+    }
+  }
+
+  async refundSpend(context: PolicyCheckContext): Promise<void> {
+    await this.spendTracker.addSpend(senderSpendKey(context), -context.maxCost);
+    await this.spendTracker.addSpend(chainSpendKey(context), -context.maxCost);
+  }
+}
@@ -0,0 +1,177 @@
+import { ethers } from 'ethers';
+import { SponsorshipIndexerConfig } from '../config/index.js';
+import { PaymasterMode } from '../types/paymaster.js';
+import { Logger, silentLogger } from '../utils/logger.js';
+import { LedgerStore, ledgerStream, SponsoredEventRecord } from './sponsorshipLedger.js';
+
+export interface IndexedPaymaster {
+  entryPoint: string;
+  paymasterContract: ethers.Contract;
+}
+
+interface RawLog {
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+const DEFAULT_CONFIRMATIONS = 5;
+const DEFAULT_MAX_REORG_DEPTH = 64;
+const DEFAULT_BATCH_SIZE = 2000;
+const DEFAULT_POLL_INTERVAL_SECONDS = 15;
+
+// Identical across EntryPoint v0.6, v0.7 and v0.8
+const entryPointInterface = new ethers.Interface([
+  'event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)'
+]);
+
+/**
+ * Follows a chain's `UserOperationSponsored` events into the ledger store, resuming from the stored
+ * checkpoint and re-indexing recent blocks when the checkpoint block was reorged out
+ */
+export class SponsorshipIndexer {
+  private timer?: NodeJS.Timeout;
+  private syncing?: Promise<void>;
+
+  constructor(
+    private readonly chainId: string,
+    private readonly provider: ethers.JsonRpcProvider,
+    private readonly paymasters: IndexedPaymaster[],
+    private readonly store: LedgerStore,
+    private readonly config: SponsorshipIndexerConfig = {},
+    private readonly log: Logger = silentLogger
+  ) { }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    const sync = () => this.sync().catch((error) => {
+      this.log.error({ err: error }, 'Failed to index sponsorship events');
+    });
+    void sync();
+    this.timer = setInterval(sync, (this.config.pollIntervalSeconds ?? DEFAULT_POLL_INTERVAL_SECONDS) * 1000);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Index every paymaster up to the confirmed head
+   */
+  sync(): Promise<void> {
+    this.syncing ??= this.syncAll().finally(() => { this.syncing = undefined; });
+    return this.syncing;
+  }
+
+  private async syncAll(): Promise<void> {
+    // getBlockNumber() is cached for the provider's polling interval; always ask for the current head
+    const head = Number(await this.provider.send('eth_blockNumber', []));
+    const target = head - (this.config.confirmations ?? DEFAULT_CONFIRMATIONS);
+    for (const paymaster of this.paymasters) {
+      await this.syncPaymaster(paymaster, target);
+    }
+  }
+
+  private async syncPaymaster(paymaster: IndexedPaymaster, target: number): Promise<void> {
+    const stream = ledgerStream(this.chainId, paymaster.paymasterContract.target.toString(), paymaster.entryPoint);
+    const startBlock = this.config.startBlock ?? target;
+
+    let from: number;
+    const checkpoint = await this.store.getCheckpoint(stream);
+    if (!checkpoint) {
+      from = startBlock;
+    } else if ((await this.getBlock(checkpoint.blockNumber))?.hash === checkpoint.blockHash) {
+      from = checkpoint.blockNumber + 1;
+    } else {
+      from = Math.max(startBlock, checkpoint.blockNumber - (this.config.maxReorgDepth ?? DEFAULT_MAX_REORG_DEPTH));
+      this.log.warn({ stream, checkpoint: checkpoint.blockNumber, from }, 'Checkpoint block reorged out, re-indexing');
+    }
+
+    const batchSize = this.config.batchSize ?? DEFAULT_BATCH_SIZE;
+    while (from <= target) {
+      const to = Math.min(from + batchSize - 1, target);
+      const events = await this.readEvents(paymaster, from, to);
+      const block = await this.getBlock(to);
+      if (!block) {
+        throw new Error(`Block ${to} not found on chain ${this.chainId}`);
+      }
+      await this.store.commit(stream, from, events, { blockNumber: to, blockHash: block.hash });
+      from = to + 1;
+    }
+  }
+
+  private async readEvents(paymaster: IndexedPaymaster, fromBlock: number, toBlock: number): Promise<SponsoredEventRecord[]> {
+    const contract = paymaster.paymasterContract;
+    const address = contract.target.toString();
+
+    const [sponsoredLogs, userOpLogs] = await Promise.all([
+      this.getLogs(address, [contract.interface.getEvent('UserOperationSponsored')!.topicHash], fromBlock, toBlock),
+      this.getLogs(
+        paymaster.entryPoint,
+        [entryPointInterface.getEvent('UserOperationEvent')!.topicHash, null, null, ethers.zeroPadValue(address, 32)],
+        fromBlock,
+        toBlock
+      )
+    ]);
+
+    const userOpEvents = new Map(userOpLogs.map((log) => {
+      const { args } = entryPointInterface.parseLog(log)!;
+      return [args.userOpHash as string, { actualGasCost: args.actualGasCost as bigint, success: args.success as boolean }];
+    }));
+
+    const timestamps = new Map<number, string>();
+    const records: SponsoredEventRecord[] = [];
+    for (const log of sponsoredLogs) {
+      const { args } = contract.interface.parseLog(log)!;
+      const blockNumber = Number(log.blockNumber);
+      if (!timestamps.has(blockNumber)) {
+        const block = await this.getBlock(blockNumber);
+        timestamps.set(blockNumber, new Date(Number(block?.timestamp ?? 0) * 1000).toISOString());
+      }
+      const userOpEvent = userOpEvents.get(args.userOpHash);
+      const mode = Number(args.paymasterMode) as PaymasterMode;
+
+      records.push({
+        chainId: this.chainId,
+        paymaster: address,
+        entryPoint: paymaster.entryPoint,
+        userOpHash: args.userOpHash,
+        sender: args.user,
+        mode,
+        token: mode === PaymasterMode.Erc20 ? args.token : null,
+        tokenAmountPaid: args.tokenAmountPaid.toString(),
+        exchangeRate: args.exchangeRate.toString(),
+        actualGasCost: userOpEvent ? userOpEvent.actualGasCost.toString() : null,
+        success: userOpEvent ? userOpEvent.success : null,
+        blockNumber,
+        blockHash: log.blockHash,
+        transactionHash: log.transactionHash,
+        logIndex: Number(log.logIndex),
+        timestamp: timestamps.get(blockNumber)!
+      });
+    }
+    return records;
+  }
+
+  // Raw requests: ethers briefly caches identical getLogs calls, which would hide a reorg of a just-read range
+  private async getLogs(address: string, topics: (string | null)[], fromBlock: number, toBlock: number): Promise<RawLog[]> {
+    return this.provider.send('eth_getLogs', [{
+      address,
+      topics,
+      fromBlock: ethers.toQuantity(fromBlock),
+      toBlock: ethers.toQuantity(toBlock)
+    }]);
+  }
+
+  // Only the hash and timestamp are needed, so skip ethers' full block formatting
+  private async getBlock(blockNumber: number): Promise<{ hash: string, timestamp: string } | null> {
+    return this.provider.send('eth_getBlockByNumber', [ethers.toQuantity(blockNumber), false]);
+  }
+}
@@ -0,0 +1,379 @@
+import { appendFile, FileHandle, open as openFile, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { PaymasterMode } from '../types/paymaster.js';
+import { SponsorshipApproval } from './sponsorshipWebhook.js';
+
+/**
+ * A user operation the paymaster signed in `getPaymasterData`
+ */
+export interface SignedOpRecord {
+  chainId: string;
+  userOpHash: string;
+  entryPoint: string;
+  paymaster: string;
+  sender: string;
+  nonce: string;
+  mode: PaymasterMode;
+  token: string | null;
+  /** Max gas cost in wei at signing time */
+  maxCost: string;
+  /** API key project the op was signed for */
+  project: string | null;
+  signedAt: string;
+  /** Unix seconds after which the signature is void; the op is pruned some time later if it never landed */
+  validUntil?: number;
+  /** The sponsorship webhook's decision, when one was asked */
+  approval?: SponsorshipApproval;
+}
+
+/**
+ * A `UserOperationSponsored` event, with the gas cost from the EntryPoint's `UserOperationEvent` in the same transaction
+ */
+export interface SponsoredEventRecord {
+  chainId: string;
+  paymaster: string;
+  entryPoint: string;
+  userOpHash: string;
+  sender: string;
+  mode: PaymasterMode;
+  token: string | null;
+  tokenAmountPaid: string;
+  exchangeRate: string;
+  /** Null when the EntryPoint event was not found */
+  actualGasCost: string | null;
+  success: boolean | null;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  timestamp: string;
+}
+
+/**
+ * A sponsored event joined with the op we signed for it, if any
+ */
+export interface LedgerEntry extends SponsoredEventRecord {
+  project: string | null;
+  maxCost: string | null;
+  signedAt: string | null;
+  approval: SponsorshipApproval | null;
+}
+
+/**
+ * Last block an indexer stream has fully processed
+ */
+export interface LedgerCheckpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface LedgerFilter {
+  sender?: string;
+  project?: string;
+  /** Inclusive UTC days, `YYYY-MM-DD` */
+  fromDay?: string;
+  toDay?: string;
+}
+
+export type LedgerGroupBy = 'sender' | 'project' | 'day';
+
+export interface LedgerSummaryRow {
+  key: string;
+  token: string | null;
+  ops: number;
+  actualGasCost: string;
+  tokenAmountPaid: string;
+}
+
+/**
+ * Storage for signed ops, indexed events and indexer checkpoints
+ */
+export interface LedgerStore {
+  recordSignedOp(op: SignedOpRecord): Promise<void>;
+  getCheckpoint(stream: string): Promise<LedgerCheckpoint | undefined>;
+  /**
+   * Replace the stream's events from `fromBlock` on with `events` and move its checkpoint, in one write
+   */
+  commit(stream: string, fromBlock: number, events: SponsoredEventRecord[], checkpoint: LedgerCheckpoint): Promise<void>;
+  getEvents(chainId: string): Promise<SponsoredEventRecord[]>;
+  getSignedOps(chainId: string): Promise<SignedOpRecord[]>;
+}
+
+/**
+ * One line of the ledger log: a signed op, or an indexer commit replacing its stream's events from `fromBlock` on
+ */
+type LedgerLogLine =
+  | { op: SignedOpRecord }
+  | { commit: { stream: string, fromBlock: number, events: SponsoredEventRecord[], checkpoint?: LedgerCheckpoint } };
+
+/**
+ * The single JSON document the ledger was kept in before the log, converted on first open
+ */
+interface LegacyLedgerFile {
+  checkpoints?: { [stream: string]: LedgerCheckpoint };
+  events?: { [stream: string]: SponsoredEventRecord[] };
+  signedOps?: { [key: string]: SignedOpRecord };
+}
+
+/**
+ * What the log holds once replayed, only ever built for a compaction
+ */
+interface LedgerState {
+  checkpoints: Map<string, LedgerCheckpoint>;
+  events: Map<string, SponsoredEventRecord[]>;
+  /** Keyed by `chainId:userOpHash` */
+  signedOps: Map<string, SignedOpRecord>;
+}
+
+/** Appends between two compactions of the log */
+const DEFAULT_COMPACT_EVERY = 10_000;
+/** How long an op that never landed is kept past its `validUntil`, to let the indexer catch up */
+const EXPIRED_OP_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Identifies the events of one paymaster deployment on one chain
+ */
+export function ledgerStream(chainId: string, paymaster: string, entryPoint: string): string {
+  return `${chainId}:${paymaster}:${entryPoint}`;
+}
+
+/**
+ * LedgerStore backed by an append-only JSON Lines log, created on first write. Only the indexer checkpoints are
+ * held in memory; reads replay the log. The log is compacted when opened and every `compactEvery` appends,
+ * dropping events rolled back by a reorg, superseded checkpoints and ops that expired without being sponsored.
+ */
+export class FileLedgerStore implements LedgerStore {
+  private checkpoints?: Promise<Map<string, LedgerCheckpoint>>;
+  private writes: Promise<void> = Promise.resolve();
+  private appended = 0;
+
+  constructor(private readonly path: string, private readonly compactEvery = DEFAULT_COMPACT_EVERY) { }
+
+  private open(): Promise<Map<string, LedgerCheckpoint>> {
+    if (!this.checkpoints) {
+      const compacted = this.writes.then(() => this.compact());
+      this.writes = compacted.then(() => undefined, () => undefined);
+      this.checkpoints = compacted;
+    }
+    return this.checkpoints;
+  }
+
+  private async append(line: LedgerLogLine): Promise<void> {
+    await this.open();
+    // Serialize writes so lines never interleave and a compaction never races an append
+    const write = this.writes.then(async () => {
+      await appendFile(this.path, JSON.stringify(line) + '\n');
+      if (++this.appended >= this.compactEvery) {
+        await this.compact();
+      }
+    });
+    this.writes = write.catch(() => undefined);
+    await write;
+  }
+
+  /**
+   * Rewrite the log with only what it still needs and return its checkpoints
+   */
+  private async compact(): Promise<Map<string, LedgerCheckpoint>> {
+    const state = await this.replay();
+    const settled = new Set([...state.events.values()].flat().map((event) => `${event.chainId}:${event.userOpHash}`));
+    const expiredBefore = Date.now() - EXPIRED_OP_GRACE_MS;
+
+    const lines: LedgerLogLine[] = [];
+    for (const [key, op] of state.signedOps) {
+      if (settled.has(key) || op.validUntil === undefined || op.validUntil * 1000 >= expiredBefore) {
+        lines.push({ op });
+      }
+    }
+    for (const stream of new Set([...state.events.keys(), ...state.checkpoints.keys()])) {
+      // One commit per block, so that replaying a block's commit does not drop the blocks before it
+      const byBlock = new Map<number, SponsoredEventRecord[]>();
+      for (const event of state.events.get(stream) ?? []) {
+        byBlock.set(event.blockNumber, [...byBlock.get(event.blockNumber) ?? [], event]);
+      }
+      for (const [fromBlock, events] of byBlock) {
+        lines.push({ commit: { stream, fromBlock, events } });
+      }
+      const checkpoint = state.checkpoints.get(stream);
+      if (checkpoint) {
+        lines.push({ commit: { stream, fromBlock: checkpoint.blockNumber + 1, events: [], checkpoint } });
+      }
+    }
+
+    if (lines.length > 0) {
+      const compacted = `${this.path}.compacting`;
+      await writeFile(compacted, lines.map((line) => JSON.stringify(line) + '\n').join(''));
+      await rename(compacted, this.path);
+    } else {
+      await rm(this.path, { force: true });
+    }
+    this.appended = 0;
+    return state.checkpoints;
+  }
+
+  private async replay(): Promise<LedgerState> {
+    const state: LedgerState = { checkpoints: new Map(), events: new Map(), signedOps: new Map() };
+    for await (const line of this.readLog()) {
+      if ('op' in line) {
+        state.signedOps.set(`${line.op.chainId}:${line.op.userOpHash}`, line.op);
+      } else {
+        applyCommit(state.events, line.commit);
+        if (line.commit.checkpoint) {
+          state.checkpoints.set(line.commit.stream, line.commit.checkpoint);
+        }
+      }
+    }
+    return state;
+  }
+
+  private async *readLog(): AsyncGenerator<LedgerLogLine> {
+    let file: FileHandle;
+    try {
+      file = await openFile(this.path);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    let first = true;
+    for await (const text of file.readLines()) {
+      if (first && text === '{') {
+        // The pretty-printed document of older versions
+        yield* legacyLines(JSON.parse(await readFile(this.path, 'utf8')) as LegacyLedgerFile);
+        return;
+      }
+      first = false;
+      if (text.length === 0) {
+        continue;
+      }
+      try {
+        yield JSON.parse(text) as LedgerLogLine;
+      } catch {
+        // A line cut short by a crash; the next compaction drops it
+      }
+    }
+  }
+
+  async recordSignedOp(op: SignedOpRecord): Promise<void> {
+    await this.append({ op });
+  }
+
+  async getCheckpoint(stream: string): Promise<LedgerCheckpoint | undefined> {
+    return (await this.open()).get(stream);
+  }
+
+  async commit(stream: string, fromBlock: number, events: SponsoredEventRecord[], checkpoint: LedgerCheckpoint): Promise<void> {
+    await this.append({ commit: { stream, fromBlock, events, checkpoint } });
+    (await this.open()).set(stream, checkpoint);
+  }
+
+  async getEvents(chainId: string): Promise<SponsoredEventRecord[]> {
+    await this.open();
+    const events = new Map<string, SponsoredEventRecord[]>();
+    for await (const line of this.readLog()) {
+      if ('commit' in line) {
+        applyCommit(events, { ...line.commit, events: line.commit.events.filter((event) => event.chainId === chainId) });
+      }
+    }
+    return [...events.values()].flat();
+  }
+
+  async getSignedOps(chainId: string): Promise<SignedOpRecord[]> {
+    await this.open();
+    const signedOps = new Map<string, SignedOpRecord>();
+    for await (const line of this.readLog()) {
+      if ('op' in line && line.op.chainId === chainId) {
+        signedOps.set(line.op.userOpHash, line.op);
+      }
+    }
+    return [...signedOps.values()];
+  }
+}
+
+function applyCommit(
+  events: Map<string, SponsoredEventRecord[]>,
+  commit: { stream: string, fromBlock: number, events: SponsoredEventRecord[] }
+): void {
+  const kept = (events.get(commit.stream) ?? []).filter((event) => event.blockNumber < commit.fromBlock);
+  events.set(commit.stream, [...kept, ...commit.events]);
+}
+
+function* legacyLines(legacy: LegacyLedgerFile): Generator<LedgerLogLine> {
+  for (const op of Object.values(legacy.signedOps ?? {})) {
+    yield { op };
+  }
+  for (const [stream, events] of Object.entries(legacy.events ?? {})) {
+    yield { commit: { stream, fromBlock: 0, events, checkpoint: legacy.checkpoints?.[stream] } };
+  }
+  for (const [stream, checkpoint] of Object.entries(legacy.checkpoints ?? {})) {
+    if (!legacy.events?.[stream]) {
+      yield { commit: { stream, fromBlock: 0, events: [], checkpoint } };
+    }
+  }
+}
+
+function dayOf(timestamp: string): string {
+  return timestamp.slice(0, 10);
+}
+
+/**
+ * Joins indexed sponsorship events with the ops we signed and aggregates them for reconciliation
+ */
+export class SponsorshipLedger {
+  constructor(readonly store: LedgerStore) { }
+
+  async recordSignedOp(op: SignedOpRecord): Promise<void> {
+    await this.store.recordSignedOp(op);
+  }
+
+  /**
+   * Sponsored ops on the chain matching the filter, oldest first
+   */
+  async getEntries(chainId: string, filter: LedgerFilter = {}): Promise<LedgerEntry[]> {
+    const [events, signedOps] = await Promise.all([this.store.getEvents(chainId), this.store.getSignedOps(chainId)]);
+    const signed = new Map(signedOps.map((op) => [op.userOpHash, op]));
+
+    return events
+      .map((event): LedgerEntry => {
+        const op = signed.get(event.userOpHash);
+        return {
+          ...event,
+          project: op?.project ?? null,
+          maxCost: op?.maxCost ?? null,
+          signedAt: op?.signedAt ?? null,
+          approval: op?.approval ?? null
+        };
+      })
+      .filter((entry) =>
+        (filter.sender === undefined || entry.sender.toLowerCase() === filter.sender.toLowerCase()) &&
+        (filter.project === undefined || entry.project === filter.project) &&
+        (filter.fromDay === undefined || dayOf(entry.timestamp) >= filter.fromDay) &&
+        (filter.toDay === undefined || dayOf(entry.timestamp) <= filter.toDay)
+      )
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  /**
+   * Op counts, gas cost and token payments per sender, project or day, split by token
+   */
+  async summarize(chainId: string, groupBy: LedgerGroupBy, filter: LedgerFilter = {}): Promise<LedgerSummaryRow[]> {
+    const rows = new Map<string, { key: string, token: string | null, ops: number, actualGasCost: bigint, tokenAmountPaid: bigint }>();
+
+    for (const entry of await this.getEntries(chainId, filter)) {
+      const key = groupBy === 'day'
+        ? dayOf(entry.timestamp)
+        : groupBy === 'project' ? entry.project ?? '' : entry.sender;
+      const rowKey = `${key}:${entry.token ?? ''}`;
+      const row = rows.get(rowKey) ?? { key, token: entry.token, ops: 0, actualGasCost: 0n, tokenAmountPaid: 0n };
+      row.ops++;
+      row.actualGasCost += BigInt(entry.actualGasCost ?? 0);
+      row.tokenAmountPaid += BigInt(entry.tokenAmountPaid);
+      rows.set(rowKey, row);
+    }
+
+    return [...rows.values()]
+      .sort((a, b) => a.key.localeCompare(b.key) || (a.token ?? '').localeCompare(b.token ?? ''))
+      .map((row) => ({ ...row, actualGasCost: row.actualGasCost.toString(), tokenAmountPaid: row.tokenAmountPaid.toString() }));
+  }
+}
@@ -0,0 +1,107 @@
+import { createHmac } from 'node:crypto';
+import { EntryPointVersion, SponsorshipWebhookConfig } from '../config/index.js';
+import { PaymasterMode } from '../types/paymaster.js';
+import { UserOperation } from '../types/userOperation.js';
+import { DecodedCall } from '../utils/callData.js';
+import { Logger, silentLogger } from '../utils/logger.js';
+
+/**
+ * The op `pm_getPaymasterData` is about to sign, as POSTed to the sponsorship webhook
+ */
+export interface SponsorshipWebhookRequest {
+  chainId: string;
+  /** Tenant whose paymaster would sponsor the op, null for the top-level chains */
+  tenant: string | null;
+  entryPoint: string;
+  entryPointVersion: EntryPointVersion;
+  paymaster: string;
+  /** API key project the op is billed to */
+  project: string | null;
+  sender: string;
+  nonce: string;
+  mode: PaymasterMode;
+  token: string | null;
+  /** Max gas cost in wei */
+  maxCost: string;
+  userOp: UserOperation;
+  /** Calls decoded from `callData` with values in wei, or null when the account format is unknown */
+  calls: (Omit<DecodedCall, 'value'> & { value: string })[] | null;
+  /** The request's paymaster context */
+  context: unknown;
+}
+
+/**
+ * Whether an op was approved, recorded with the sponsorship. `failOpen` and `failClosed` decisions were made
+ * without an answer from the webhook.
+ */
+export interface SponsorshipApproval {
+  approved: boolean;
+  source: 'webhook' | 'failOpen' | 'failClosed';
+  reason?: string;
+  /** Returned by the webhook, stored as given */
+  metadata?: { [key: string]: unknown };
+  decidedAt: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 3000;
+
+/**
+ * HMAC-SHA256 over `<timestamp>.<body>`, hex-encoded, as sent in `X-Paymaster-Signature`.
+ * Covering the timestamp lets the receiver refuse replayed requests.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function parseDecision(body: unknown): Pick<SponsorshipApproval, 'approved' | 'reason' | 'metadata'> {
+  if (typeof body !== 'object' || body === null || typeof (body as { approved?: unknown }).approved !== 'boolean') {
+    throw new Error('Sponsorship webhook response has no boolean approved');
+  }
+  const { approved, reason, metadata } = body as { approved: boolean, reason?: unknown, metadata?: unknown };
+  return {
+    approved,
+    ...(typeof reason === 'string' ? { reason } : {}),
+    ...(typeof metadata === 'object' && metadata !== null && !Array.isArray(metadata)
+      ? { metadata: metadata as { [key: string]: unknown } }
+      : {})
+  };
+}
+
+/**
+ * Ask the webhook whether to sponsor an op. The webhook answers `{ approved, reason?, metadata? }` with a 2xx status;
+ * an error status, a malformed answer or no answer within the timeout is decided by `failOpen`.
+ */
+export async function requestSponsorshipApproval(
+  config: SponsorshipWebhookConfig,
+  request: SponsorshipWebhookRequest,
+  log: Logger = silentLogger
+): Promise<SponsorshipApproval> {
+  const body = JSON.stringify(request);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  try {
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: {
+        ...config.headers,
+        'content-type': 'application/json',
+        'x-paymaster-timestamp': timestamp,
+        'x-paymaster-signature': signWebhookPayload(config.secret, timestamp, body)
+      },
+      body,
+      signal: AbortSignal.timeout(config.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Sponsorship webhook responded with HTTP ${response.status}`);
+    }
+    return { ...parseDecision(await response.json()), source: 'webhook', decidedAt: new Date().toISOString() };
+  } catch (error) {
+    const failOpen = config.failOpen ?? false;
+    log.error({ err: error, sender: request.sender, failOpen }, 'Sponsorship webhook failed');
+    return {
+      approved: failOpen,
+      source: failOpen ? 'failOpen' : 'failClosed',
+      reason: error instanceof Error ? error.message : String(error),
+      decidedAt: new Date().toISOString()
+    };
+  }
+}
@@ -0,0 +1,224 @@
+import { Ajv, ErrorObject, ValidateFunction } from 'ajv';
+import { ethers } from 'ethers';
+import { EntryPointVersion } from '../config/index.js';
+import { RpcError, RpcErrorCode } from '../errors/rpcError.js';
+import { PackedUserOperation, UserOperation, UserOperationV07 } from '../types/userOperation.js';
+import { getInitCode } from './entryPointCodec.js';
+
+/**
+ * How complete an op must be. `stub` ops come before gas estimation, so their gas fields may be left out;
+ * `final` ops are about to be signed and must carry every gas field, paymaster gas limits included.
+ */
+export type UserOperationStage = 'stub' | 'final';
+
+const address = { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$', description: 'a 20-byte hex address' };
+const bytes = { type: 'string', pattern: '^0x([0-9a-fA-F]{2})*$', description: 'hex-encoded bytes' };
+
+function quantity(bits: number) {
+  return { type: 'string', pattern: `^0x0*[0-9a-fA-F]{1,${bits / 4}}$`, description: `a hex-encoded uint${bits}` };
+}
+
+function object(properties: { [name: string]: unknown }, required: string[]) {
+  return { type: 'object', properties, required, additionalProperties: false };
+}
+
+const GAS_FIELDS = ['callGasLimit', 'verificationGasLimit', 'preVerificationGas', 'maxFeePerGas', 'maxPriorityFeePerGas'];
+
+const eip7702Auth = object({
+  chainId: quantity(256),
+  address,
+  nonce: quantity(64),
+  yParity: quantity(8),
+  r: quantity(256),
+  s: quantity(256)
+}, ['chainId', 'address', 'nonce', 'yParity', 'r', 's']);
+
+/**
+ * JSON schema of a v0.6 UserOperation
+ */
+export function userOperationV06Schema(stage: UserOperationStage) {
+  return object({
+    sender: address,
+    nonce: quantity(256),
+    initCode: bytes,
+    callData: bytes,
+    callGasLimit: quantity(256),
+    verificationGasLimit: quantity(256),
+    preVerificationGas: quantity(256),
+    maxFeePerGas: quantity(256),
+    maxPriorityFeePerGas: quantity(256),
+    paymasterAndData: bytes,
+    signature: bytes
+  }, ['sender', 'nonce', 'callData', ...(stage === 'final' ? GAS_FIELDS : [])]);
+}
+
+/**
+ * JSON schema of an unpacked v0.7 UserOperation, or a v0.8 one which may also delegate through EIP-7702
+ */
+export function userOperationV07Schema(stage: UserOperationStage, version: '0.7' | '0.8' = '0.7') {
+  return object({
+    sender: address,
+    nonce: quantity(256),
+    factory: version === '0.8'
+      ? { type: 'string', pattern: '^0x(7702|[0-9a-fA-F]{40})$', description: 'a 20-byte hex address or the 0x7702 marker' }
+      : address,
+    factoryData: bytes,
+    callData: bytes,
+    callGasLimit: quantity(128),
+    verificationGasLimit: quantity(128),
+    preVerificationGas: quantity(256),
+    maxFeePerGas: quantity(128),
+    maxPriorityFeePerGas: quantity(128),
+    paymaster: address,
+    paymasterVerificationGasLimit: quantity(128),
+    paymasterPostOpGasLimit: quantity(128),
+    paymasterData: bytes,
+    signature: bytes,
+    ...(version === '0.8' ? { eip7702Auth } : {})
+  }, [
+    'sender',
+    'nonce',
+    'callData',
+    ...(stage === 'final' ? [...GAS_FIELDS, 'paymasterVerificationGasLimit', 'paymasterPostOpGasLimit'] : [])
+  ]);
+}
+
+const ajv = new Ajv({ verbose: true });
+const validators = new Map<string, ValidateFunction>();
+
+function getValidator(version: EntryPointVersion, stage: UserOperationStage): ValidateFunction {
+  const key = `${version}:${stage}`;
+  let validate = validators.get(key);
+  if (!validate) {
+    validate = ajv.compile(version === '0.6' ? userOperationV06Schema(stage) : userOperationV07Schema(stage, version));
+    validators.set(key, validate);
+  }
+  return validate;
+}
+
+function describeError(error: ErrorObject): { field: string, message: string } {
+  const path = error.instancePath.split('/').slice(1).join('.');
+  const field = path ? `userOp.${path}` : 'userOp';
+  switch (error.keyword) {
+    case 'required':
+      return { field: `${field}.${error.params.missingProperty}`, message: 'is required' };
+    case 'additionalProperties':
+      return { field: `${field}.${error.params.additionalProperty}`, message: 'is not a field of this EntryPoint version\'s UserOperation' };
+    case 'type':
+      return { field, message: field === 'userOp' ? 'must be an object' : `must be ${error.parentSchema?.description ?? `a ${error.params.type}`}` };
+    case 'pattern':
+      return { field, message: `must be ${error.parentSchema?.description}` };
+    default:
+      return { field, message: error.message ?? 'is invalid' };
+  }
+}
+
+/**
+ * The address fields of a schema-valid op, which the schema cannot check the mixed-case checksum of
+ */
+function addressFields(userOp: UserOperation): [string, string | undefined][] {
+  return [
+    ['userOp.sender', userOp.sender],
+    ['userOp.factory', userOp.factory === '0x7702' ? undefined : userOp.factory],
+    ['userOp.paymaster', userOp.paymaster],
+    ['userOp.eip7702Auth.address', userOp.eip7702Auth?.address]
+  ];
+}
+
+/**
+ * Validate a JSON-RPC userOp param against the schema of its EntryPoint version. Optional byte fields default to `0x`
+ * and, for stub ops, missing gas fields to `0x0`. Throws -32602 naming the first bad field.
+ */
+export function parseUserOperation(value: unknown, version: EntryPointVersion, stage: UserOperationStage): UserOperation {
+  const validate = getValidator(version, stage);
+  if (!validate(value)) {
+    const { field, message } = describeError(validate.errors![0]);
+    throw new RpcError(RpcErrorCode.InvalidParams, `Invalid params: ${field} ${message}`, { field });
+  }
+
+  const userOp = { ...(value as UserOperation) };
+  for (const [field, address] of addressFields(userOp)) {
+    if (address !== undefined && !ethers.isAddress(address)) {
+      throw new RpcError(RpcErrorCode.InvalidParams, `Invalid params: ${field} has a bad address checksum`, { field });
+    }
+  }
+  for (const field of GAS_FIELDS as (keyof UserOperation)[]) {
+    (userOp as { [field: string]: unknown })[field] ??= '0x0';
+  }
+  userOp.signature ??= '0x';
+  if (version === '0.6') {
+    userOp.initCode ??= '0x';
+    userOp.paymasterAndData ??= '0x';
+  }
+  return userOp;
+}
+
+function packUint128s(high: string, low: string): string {
+  return ethers.zeroPadValue(ethers.toBeHex((BigInt(high) << 128n) | BigInt(low)), 32);
+}
+
+function unpackUint128s(packed: string): [string, string] {
+  const value = BigInt(packed);
+  return [ethers.toQuantity(value >> 128n), ethers.toQuantity(value & ((1n << 128n) - 1n))];
+}
+
+/**
+ * Pack an unpacked v0.7 or v0.8 UserOperation into the struct the EntryPoint takes
+ */
+export function packUserOperation(userOp: UserOperationV07): PackedUserOperation {
+  return {
+    sender: userOp.sender,
+    nonce: userOp.nonce,
+    initCode: getInitCode(userOp),
+    callData: userOp.callData,
+    accountGasLimits: packUint128s(userOp.verificationGasLimit, userOp.callGasLimit),
+    preVerificationGas: userOp.preVerificationGas,
+    gasFees: packUint128s(userOp.maxPriorityFeePerGas, userOp.maxFeePerGas),
+    paymasterAndData: userOp.paymaster
+      ? ethers.solidityPacked(
+        ['address', 'uint128', 'uint128', 'bytes'],
+        [
+          userOp.paymaster,
+          BigInt(userOp.paymasterVerificationGasLimit ?? 0),
+          BigInt(userOp.paymasterPostOpGasLimit ?? 0),
+          userOp.paymasterData ?? '0x'
+        ]
+      )
+      : '0x',
+    signature: userOp.signature
+  };
+}
+
+/**
+ * Split a PackedUserOperation back into the unpacked JSON-RPC fields
+ */
+export function unpackUserOperation(packed: PackedUserOperation): UserOperationV07 {
+  const [verificationGasLimit, callGasLimit] = unpackUint128s(packed.accountGasLimits);
+  const [maxPriorityFeePerGas, maxFeePerGas] = unpackUint128s(packed.gasFees);
+  const userOp: UserOperationV07 = {
+    sender: packed.sender,
+    nonce: packed.nonce,
+    callData: packed.callData,
+    callGasLimit,
+    verificationGasLimit,
+    preVerificationGas: packed.preVerificationGas,
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+    signature: packed.signature
+  };
+
+  if (ethers.dataLength(packed.initCode) > 0) {
+    userOp.factory = ethers.dataSlice(packed.initCode, 0, 20);
+    userOp.factoryData = ethers.dataSlice(packed.initCode, 20);
+  }
+  if (ethers.dataLength(packed.paymasterAndData) > 0) {
+    if (ethers.dataLength(packed.paymasterAndData) < 52) {
+      throw new Error('paymasterAndData is shorter than a paymaster address and its two gas limits');
+    }
+    userOp.paymaster = ethers.getAddress(ethers.dataSlice(packed.paymasterAndData, 0, 20));
+    userOp.paymasterVerificationGasLimit = ethers.toQuantity(ethers.dataSlice(packed.paymasterAndData, 20, 36));
+    userOp.paymasterPostOpGasLimit = ethers.toQuantity(ethers.dataSlice(packed.paymasterAndData, 36, 52));
+    userOp.paymasterData = ethers.dataSlice(packed.paymasterAndData, 52);
+  }
+  return userOp;
+}
@@ -0,0 +1,104 @@
+/**
+ * Paymaster modes understood by the contract, encoded in bits 1-7 of the mode byte
+ */
+export enum PaymasterMode {
+  Verifying = 0,
+  Erc20 = 1
+}
+
+/**
+ * ERC-7677 context passed as the fourth param of pm_getPaymasterStubData / pm_getPaymasterData
+ */
+export interface PaymasterContext {
+  token?: string;
+  /** Unix seconds; a shorter validity than the configured maximum, which it is clamped to */
+  validUntil?: number | string;
+}
+
+/**
+ * Mode-specific fields that are packed into paymasterData and covered by the signature
+ */
+export type SponsorshipMode =
+  | { mode: PaymasterMode.Verifying }
+  | { mode: PaymasterMode.Erc20; token: string; postOpGas: bigint; exchangeRate: bigint };
+
+/**
+ * ERC-7677 result of pm_getPaymasterStubData / pm_getPaymasterData: `paymasterAndData` for EntryPoint v0.6,
+ * the separate paymaster fields for v0.7 and later. Stub data carries the paymaster gas limits, final data does not.
+ */
+export interface PaymasterDataResult {
+  paymaster?: string;
+  paymasterData?: string;
+  paymasterVerificationGasLimit?: string;
+  paymasterPostOpGasLimit?: string;
+  paymasterAndData?: string;
+}
+
+/**
+ * A token accepted in token mode, as listed by pm_supportedTokens and quoted by pm_quoteUserOperation
+ */
+export interface TokenQuote {
+  token: string;
+  decimals: number | null;
+  postOpGas: string;
+  /** Null, with an `error`, when the rate cannot be read */
+  exchangeRate: string | null;
+  source?: string;
+  updatedAt?: string;
+  /** The most the quoted op may cost in the token */
+  maxCostInToken?: string;
+  error?: string;
+}
+
+/**
+ * Result of pm_quoteUserOperation for one op
+ */
+export interface UserOperationQuote {
+  sponsorable: boolean;
+  mode: 'verifying' | 'erc20';
+  token: string | null;
+  gasLimits: {
+    callGasLimit: string;
+    verificationGasLimit: string;
+    preVerificationGas: string;
+    paymasterVerificationGasLimit?: string;
+    paymasterPostOpGasLimit?: string;
+  };
+  gasPrice: { maxFeePerGas: string, maxPriorityFeePerGas: string, source: 'oracle' | 'userOp' };
+  maxCost: string;
+  tokens: TokenQuote[];
+  policies: string[];
+  approvalRequired: boolean;
+  /** The check that would refuse the op, if any */
+  rejection: { policy: string, reason: string } | null;
+}
+
+/**
+ * An entry of a batch quote: the op's quote, or the error that op alone failed with
+ */
+export type UserOperationQuoteEntry = UserOperationQuote | { error: { code: number, message: string, data?: unknown } };
+
+/**
+ * Result of pm_debugUserOperation: the decoded paymasterData, and whether its hash and signature check out
+ */
+export interface DebugUserOperationResult {
+  entryPoint: string;
+  entryPointVersion: string;
+  paymaster: string;
+  paymasterVerificationGasLimit: string;
+  paymasterPostOpGasLimit: string;
+  paymasterData: {
+    mode: number;
+    allowAllBundlers: boolean;
+    validUntil: number;
+    validAfter: number;
+    token?: string;
+    postOpGas?: string;
+    exchangeRate?: string;
+    signature: string;
+  };
+  allowedBundlers: string[] | null;
+  paymasterHash: { offChain: string, onChain: string | null, match: boolean, error?: string };
+  signer: { recovered: string | null, expected: string[], match: boolean, authorized: boolean | null };
+  userOpHash: string;
+}
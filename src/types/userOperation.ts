@@ -1,22 +1,72 @@
 /**
- * Represents an ERC-4337 UserOperation
+ * Fields every EntryPoint version's UserOperation has, as hex strings
  */
-export interface UserOperation {
+interface UserOperationBase {
   sender: string;
   nonce: string;
-  initCode: string;
   callData: string;
   callGasLimit: string;
   verificationGasLimit: string;
   preVerificationGas: string;
   maxFeePerGas: string;
   maxPriorityFeePerGas: string;
-  paymasterAndData: string;
   signature: string;
+}
+
+/**
+ * An EntryPoint v0.6 UserOperation, with the account factory and paymaster packed into byte strings
+ */
+export interface UserOperationV06 extends UserOperationBase {
+  initCode: string;
+  paymasterAndData: string;
+}
+
+/**
+ * An unpacked EntryPoint v0.7 or v0.8 UserOperation, as sent over JSON-RPC
+ */
+export interface UserOperationV07 extends UserOperationBase {
+  factory?: string;
+  factoryData?: string;
   paymaster?: string;
-  paymasterData?: string;
-  paymasterPostOpGasLimit?: string;
   paymasterVerificationGasLimit?: string;
+  paymasterPostOpGasLimit?: string;
+  paymasterData?: string;
+  /** v0.8 only */
+  eip7702Auth?: Eip7702Authorization;
+}
+
+/**
+ * A UserOperation of any EntryPoint version. `parseUserOperation` only sets the fields of the version it parsed for.
+ */
+export interface UserOperation extends UserOperationBase, Partial<Omit<UserOperationV06, keyof UserOperationBase>>, Omit<UserOperationV07, keyof UserOperationBase> { }
+
+/**
+ * The PackedUserOperation struct EntryPoint v0.7 and v0.8 take on-chain
+ */
+export interface PackedUserOperation {
+  sender: string;
+  nonce: string;
+  initCode: string;
+  callData: string;
+  /** verificationGasLimit and callGasLimit as two uint128s */
+  accountGasLimits: string;
+  preVerificationGas: string;
+  /** maxPriorityFeePerGas and maxFeePerGas as two uint128s */
+  gasFees: string;
+  paymasterAndData: string;
+  signature: string;
+}
+
+/**
+ * EIP-7702 authorization attached to an EntryPoint v0.8 UserOperation
+ */
+export interface Eip7702Authorization {
+  chainId: string;
+  address: string;
+  nonce: string;
+  yParity: string;
+  r: string;
+  s: string;
 }
 
 /**
@@ -0,0 +1,94 @@
+import { ethers } from 'ethers';
+
+/**
+ * A single call made by a smart account on behalf of a user operation
+ */
+export interface DecodedCall {
+  target: string;
+  value: bigint;
+  data: string;
+  /** 4-byte function selector of `data`, or null for plain transfers */
+  selector: string | null;
+}
+
+const accountInterface = new ethers.Interface([
+  // SimpleAccount and most v0.6/v0.7 accounts
+  'function execute(address dest, uint256 value, bytes func)',
+  'function executeBatch(address[] dest, bytes[] func)',
+  'function executeBatch(address[] dest, uint256[] value, bytes[] func)',
+  // ERC-7579 modular accounts
+  'function execute(bytes32 mode, bytes executionCalldata)'
+]);
+
+const ERC7579_CALLTYPE_SINGLE = '0x00';
+const ERC7579_CALLTYPE_BATCH = '0x01';
+
+function toCall(target: string, value: bigint, data: string): DecodedCall {
+  return {
+    target: ethers.getAddress(target),
+    value,
+    data,
+    selector: ethers.dataLength(data) >= 4 ? ethers.dataSlice(data, 0, 4) : null
+  };
+}
+
+function decodeErc7579Execution(mode: string, executionCalldata: string): DecodedCall[] | null {
+  const callType = ethers.dataSlice(mode, 0, 1);
+
+  if (callType === ERC7579_CALLTYPE_SINGLE) {
+    return [toCall(
+      ethers.dataSlice(executionCalldata, 0, 20),
+      BigInt(ethers.dataSlice(executionCalldata, 20, 52)),
+      ethers.dataSlice(executionCalldata, 52)
+    )];
+  }
+
+  if (callType === ERC7579_CALLTYPE_BATCH) {
+    const [executions] = ethers.AbiCoder.defaultAbiCoder().decode(
+      ['tuple(address target, uint256 value, bytes callData)[]'],
+      executionCalldata
+    );
+    return executions.map((execution: ethers.Result) =>
+      toCall(execution.target, execution.value, execution.callData)
+    );
+  }
+
+  // delegatecall and static call types cannot be attributed to a target safely
+  return null;
+}
+
+/**
+ * Decode the calls a user operation will make from its account `callData`.
+ * Returns null when the account's execute function is not recognised.
+ */
+export function decodeCalls(callData: string | undefined): DecodedCall[] | null {
+  if (!callData || !ethers.isHexString(callData) || ethers.dataLength(callData) < 4) {
+    return null;
+  }
+
+  try {
+    const parsed = accountInterface.parseTransaction({ data: callData });
+    if (!parsed) {
+      return null;
+    }
+
+    switch (parsed.signature) {
+      case 'execute(address,uint256,bytes)':
+        return [toCall(parsed.args[0], parsed.args[1], parsed.args[2])];
+      case 'executeBatch(address[],bytes[])':
+        return parsed.args[0].map((target: string, i: number) =>
+          toCall(target, 0n, parsed.args[1][i])
+        );
+      case 'executeBatch(address[],uint256[],bytes[])':
+        return parsed.args[0].map((target: string, i: number) =>
+          toCall(target, parsed.args[1][i] ?? 0n, parsed.args[2][i])
+        );
+      case 'execute(bytes32,bytes)':
+        return decodeErc7579Execution(parsed.args[0], parsed.args[1]);
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Render rows as RFC 4180 CSV with a header line, quoting fields that need it
+ */
+export function toCsv<T extends object>(rows: T[], columns: (keyof T & string)[]): string {
+  const field = (value: unknown): string => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [
+    columns.join(','),
+    ...rows.map((row) => columns.map((column) => field(row[column])).join(','))
+  ].join('\r\n') + '\r\n';
+}
@@ -0,0 +1,61 @@
+/**
+ * The part of Fastify's pino logger the services use, so they log through `fastify.log` without depending on Fastify
+ */
+export interface Logger {
+  debug(obj: unknown, msg?: string): void;
+  info(obj: unknown, msg?: string): void;
+  warn(obj: unknown, msg?: string): void;
+  error(obj: unknown, msg?: string): void;
+  child(bindings: { [key: string]: unknown }): Logger;
+}
+
+/**
+ * Discards everything; the default for services created outside the server, such as in tests
+ */
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => silentLogger
+};
+
+/**
+ * Log fields censored by the server logger: credentials in request headers,
+ * signer secrets, and signed paymaster data that could be replayed by whoever reads the logs
+ */
+export const LOG_REDACT_PATHS = [
+  'req.headers.authorization',
+  'req.headers["x-api-key"]',
+  'privateKey',
+  'paymasterPrivateKey',
+  'password',
+  'signature',
+  'paymasterData',
+  'paymasterAndData',
+  '*.privateKey',
+  '*.paymasterPrivateKey',
+  '*.password',
+  '*.signature',
+  '*.paymasterData',
+  '*.paymasterAndData'
+];
+
+/**
+ * Fastify's default request serializer, with API keys passed in the query string masked out of the logged URL
+ */
+export function serializeRequest(request: {
+  method: string,
+  url: string,
+  host?: string,
+  ip?: string,
+  socket?: { remotePort?: number }
+}): { [field: string]: unknown } {
+  return {
+    method: request.method,
+    url: request.url.replace(/([?&]apiKey=)[^&#]*/g, '$1[redacted]'),
+    host: request.host,
+    remoteAddress: request.ip,
+    remotePort: request.socket?.remotePort
+  };
+}
@@ -0,0 +1,20 @@
+import { EntryPointVersion } from '../config/index.js';
+import { UserOperation } from '../types/userOperation.js';
+
+/**
+ * The maximum gas cost in wei the EntryPoint may charge the paymaster for a user operation
+ */
+export function getMaxCost(userOp: UserOperation, entryPointVersion: EntryPointVersion = '0.7'): bigint {
+  const callGasLimit = BigInt(userOp.callGasLimit);
+  const verificationGasLimit = BigInt(userOp.verificationGasLimit);
+  const preVerificationGas = BigInt(userOp.preVerificationGas);
+
+  // v0.6 reserves verificationGasLimit three times over when a paymaster is used (validation, validatePaymasterUserOp, postOp)
+  const requiredGas = entryPointVersion === '0.6'
+    ? callGasLimit + verificationGasLimit * 3n + preVerificationGas
+    : callGasLimit + verificationGasLimit + preVerificationGas +
+      BigInt(userOp.paymasterVerificationGasLimit || '0') +
+      BigInt(userOp.paymasterPostOpGasLimit || '0');
+
+  return requiredGas * BigInt(userOp.maxFeePerGas);
+}
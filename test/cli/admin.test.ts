@@ -0,0 +1,180 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { mkdtemp, readFile, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import * as path from 'node:path'
+import { ethers } from 'ethers'
+import { AdminIo, runAdmin } from '../../src/cli/admin.js'
+import { paymasterAbi } from '../../src/abi/paymaster.js'
+import { DEFAULT_ENTRY_POINT } from '../../src/config/index.js'
+import { startMockRpc } from '../mockRpc.js'
+
+const CHAIN_ID = 31337
+const PAYMASTER = ethers.getAddress('0x00000000000000000000000000000000000000aa')
+const OWNER = ethers.getAddress('0x00000000000000000000000000000000000000cc')
+const TREASURY = ethers.getAddress('0x00000000000000000000000000000000000000dd')
+const RECIPIENT = ethers.getAddress('0x00000000000000000000000000000000000000ee')
+const signerWallet = ethers.Wallet.createRandom()
+const paymasterInterface = new ethers.Interface(paymasterAbi)
+const entryPointInterface = new ethers.Interface([
+  'function getDepositInfo(address account) view returns (tuple(uint256 deposit, bool staked, uint112 stake, uint32 unstakeDelaySec, uint48 withdrawTime) info)'
+])
+
+async function startPaymasterNode (t: { after: (fn: () => Promise<void>) => void }) {
+  const node = await startMockRpc(CHAIN_ID, {
+    eth_call: ([tx]) => {
+      if (ethers.getAddress(tx.to) === DEFAULT_ENTRY_POINT) {
+        return entryPointInterface.encodeFunctionResult('getDepositInfo', [[2n * 10n ** 18n, true, 10n ** 17n, 86400, 0]])
+      }
+      const { name } = paymasterInterface.parseTransaction({ data: tx.data })!
+      switch (name) {
+        case 'owner':
+          return paymasterInterface.encodeFunctionResult('owner', [OWNER])
+        case 'treasury':
+          return paymasterInterface.encodeFunctionResult('treasury', [TREASURY])
+        case 'entryPoint':
+          return paymasterInterface.encodeFunctionResult('entryPoint', [DEFAULT_ENTRY_POINT])
+        default:
+          return paymasterInterface.encodeFunctionResult('signers', [true])
+      }
+    }
+  })
+  t.after(() => node.close())
+  return node
+}
+
+async function writeConfig (rpc: string, signed = true): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'paymaster-admin-'))
+  const file = path.join(dir, 'paymaster.yaml')
+  await writeFile(file, [
+    ...(signed ? [`paymasterPrivateKey: "${signerWallet.privateKey}"`] : []),
+    'chains:',
+    `  "${CHAIN_ID}":`,
+    `    paymasterAddress: "${PAYMASTER}"`,
+    `    rpc: ${rpc}`
+  ].join('\n'))
+  return file
+}
+
+function captureIo (env: NodeJS.ProcessEnv = {}): AdminIo & { out: string, err: string } {
+  const io = {
+    out: '',
+    err: '',
+    stdout: (text: string) => { io.out += text },
+    stderr: (text: string) => { io.err += text },
+    env
+  }
+  return io
+}
+
+test('dry-run prints the calldata of each call', async () => {
+  const config = await writeConfig('http://127.0.0.1:1')
+  const other = ethers.getAddress('0x00000000000000000000000000000000000000ff')
+  const io = captureIo()
+
+  const code = await runAdmin([
+    'addSigner', '--config', config, '--chain', String(CHAIN_ID),
+    '--signer', signerWallet.address, '--signer', other, '--dry-run'
+  ], io)
+
+  assert.equal(code, 0, io.err)
+  const calls = io.out.trim().split('\n').map((line) => JSON.parse(line))
+  assert.deepStrictEqual(calls.map((call) => call.to), [PAYMASTER, PAYMASTER])
+  assert.deepStrictEqual(calls.map((call) => paymasterInterface.decodeFunctionData('addSigner', call.data)[0]), [signerWallet.address, other])
+  assert.equal(calls[0].value, '0')
+})
+
+test('no command needs a paymaster signer', async (t) => {
+  const node = await startPaymasterNode(t)
+  const config = await writeConfig(node.url, false)
+  const args = ['withdrawTo', '--config', config, '--chain', String(CHAIN_ID), '--to', RECIPIENT, '--amount', '1']
+
+  const dryRun = captureIo()
+  assert.equal(await runAdmin([...args, '--dry-run'], dryRun), 0, dryRun.err)
+  const safe = captureIo()
+  assert.equal(await runAdmin([...args, '--safe', '-'], safe), 0, safe.err)
+  const status = captureIo()
+  assert.equal(await runAdmin(['status', '--config', config, '--chain', String(CHAIN_ID)], status), 0, status.err)
+  assert.deepStrictEqual(JSON.parse(status.out).paymasters[0].signers, [])
+
+  // Sending gets as far as checking the admin key against the owner
+  const sending = captureIo({ PAYMASTER_ADMIN_PRIVATE_KEY: ethers.Wallet.createRandom().privateKey })
+  assert.equal(await runAdmin(args, sending), 1)
+  assert.match(sending.err, /is not the paymaster owner/)
+})
+
+test('writes a Safe Transaction Builder batch', async () => {
+  const config = await writeConfig('http://127.0.0.1:1')
+  const batchFile = path.join(path.dirname(config), 'batch.json')
+  const io = captureIo()
+
+  const code = await runAdmin([
+    'withdrawTo', '--config', config, '--chain', String(CHAIN_ID),
+    '--to', RECIPIENT, '--amount', '1.5', '--safe', batchFile
+  ], io)
+
+  assert.equal(code, 0, io.err)
+  const batch = JSON.parse(await readFile(batchFile, 'utf8'))
+  assert.equal(batch.version, '1.0')
+  assert.equal(batch.chainId, String(CHAIN_ID))
+  assert.equal(batch.transactions.length, 1)
+  const [tx] = batch.transactions
+  assert.equal(tx.to, PAYMASTER)
+  assert.equal(tx.value, '0')
+  assert.equal(tx.data, paymasterInterface.encodeFunctionData('withdrawTo', [RECIPIENT, ethers.parseEther('1.5')]))
+  assert.equal(tx.contractMethod.name, 'withdrawTo')
+  assert.deepStrictEqual(Object.values(tx.contractInputsValues), [RECIPIENT, ethers.parseEther('1.5').toString()])
+})
+
+test('a payable deposit carries its amount as value', async () => {
+  const config = await writeConfig('http://127.0.0.1:1')
+  const io = captureIo()
+
+  const code = await runAdmin(['deposit', '--config', config, '--chain', String(CHAIN_ID), '--amount', '0.25', '--safe', '-'], io)
+
+  assert.equal(code, 0, io.err)
+  const [tx] = JSON.parse(io.out).transactions
+  assert.equal(tx.value, ethers.parseEther('0.25').toString())
+  assert.equal(tx.contractMethod.payable, true)
+})
+
+test('status reports ownership, funding and signer registration', async (t) => {
+  const node = await startPaymasterNode(t)
+  const config = await writeConfig(node.url)
+  const io = captureIo()
+
+  const code = await runAdmin(['status', '--config', config, '--chain', String(CHAIN_ID)], io)
+
+  assert.equal(code, 0, io.err)
+  const [paymaster] = JSON.parse(io.out).paymasters
+  assert.equal(paymaster.paymaster, PAYMASTER)
+  assert.equal(paymaster.owner, OWNER)
+  assert.equal(paymaster.treasury, TREASURY)
+  assert.equal(paymaster.deposit, '2.0')
+  assert.equal(paymaster.stake.amount, '0.1')
+  assert.deepStrictEqual(paymaster.signers, [{ address: signerWallet.address, registered: true }])
+})
+
+test('refuses to send an owner-only call from a key that is not the owner', async (t) => {
+  const node = await startPaymasterNode(t)
+  const config = await writeConfig(node.url)
+  const io = captureIo({ PAYMASTER_ADMIN_PRIVATE_KEY: ethers.Wallet.createRandom().privateKey })
+
+  const code = await runAdmin(['unlockStake', '--config', config, '--chain', String(CHAIN_ID)], io)
+
+  assert.equal(code, 1)
+  assert.match(io.err, /is not the paymaster owner/)
+  assert.ok(!node.calls.includes('eth_sendRawTransaction'))
+})
+
+test('reports missing options and unknown chains as usage errors', async () => {
+  const config = await writeConfig('http://127.0.0.1:1')
+
+  const missing = captureIo()
+  assert.equal(await runAdmin(['setTreasury', '--config', config, '--chain', String(CHAIN_ID), '--dry-run'], missing), 1)
+  assert.match(missing.err, /--treasury is required/)
+
+  const unknown = captureIo()
+  assert.equal(await runAdmin(['status', '--config', config, '--chain', '1'], unknown), 1)
+  assert.match(unknown.err, /Chain 1 is not configured/)
+})
@@ -0,0 +1,108 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { mkdtemp, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import * as path from 'node:path'
+import { loadConfig } from '../../src/config/loader.js'
+import { ConfigError } from '../../src/errors/configError.js'
+
+const PAYMASTER = '0x00000000000000000000000000000000000000aa'
+
+async function writeConfig (name: string, content: string): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'paymaster-config-'))
+  const file = path.join(dir, name)
+  await writeFile(file, content)
+  return file
+}
+
+test('loads a YAML config with environment overrides', async () => {
+  const file = await writeConfig('paymaster.yaml', [
+    'chains:',
+    '  "31337":',
+    `    paymasterAddress: "${PAYMASTER}"`,
+    '    rpc: http://127.0.0.1:8545',
+    '    tokens:',
+    '      "0x00000000000000000000000000000000000000bb":',
+    '        exchangeRate: "3000000000"'
+  ].join('\n'))
+
+  const config = await loadConfig(file, {
+    PAYMASTER_PRIVATE_KEY: '0x01',
+    PAYMASTER_RPC_31337: 'http://node:8545',
+    PAYMASTER_LEDGER_FILE: '/data/ledger.json'
+  })
+
+  assert.equal(config.paymasterPrivateKey, '0x01')
+  assert.equal(config.chains['31337'].rpc, 'http://node:8545')
+  assert.deepStrictEqual(config.ledger, { storePath: '/data/ledger.json' })
+  assert.equal(config.chains['31337'].tokens!['0x00000000000000000000000000000000000000bb'].exchangeRate, '3000000000')
+})
+
+test('a private key from the environment replaces the signer in the file', async () => {
+  const file = await writeConfig('paymaster.yaml', [
+    'signer: { type: keystore, path: /keys/paymaster.json, password: secret }',
+    `chains: { "31337": { paymasterAddress: "${PAYMASTER}", rpc: "http://127.0.0.1:8545" } }`
+  ].join('\n'))
+
+  const config = await loadConfig(file, { PAYMASTER_PRIVATE_KEY: '0x01' })
+
+  assert.equal(config.paymasterPrivateKey, '0x01')
+  assert.equal(config.signer, undefined)
+})
+
+test('lists every schema problem in one error', async () => {
+  const file = await writeConfig('paymaster.json', JSON.stringify({
+    paymasterPrivateKey: '0x01',
+    chains: { 31337: { paymasterAddress: '0x1234', rpc: 'http://127.0.0.1:8545', monitor: { minDepost: '1' } } }
+  }))
+
+  await assert.rejects(loadConfig(file, {}), (error: unknown) => {
+    assert.ok(error instanceof ConfigError)
+    assert.deepStrictEqual(error.problems, [
+      '/chains/31337/paymasterAddress: must match pattern "^0x[0-9a-fA-F]{40}$"',
+      '/chains/31337/monitor: unknown property minDepost'
+    ])
+    return true
+  })
+})
+
+test('rejects chains without a signer before any request is served', async () => {
+  const file = await writeConfig('paymaster.yaml', `chains: { "31337": { paymasterAddress: "${PAYMASTER}", rpc: "http://127.0.0.1:8545" } }`)
+
+  await assert.rejects(loadConfig(file, {}), /\/chains\/31337: no signer; set PAYMASTER_PRIVATE_KEY/)
+  await assert.rejects(loadConfig(path.join(path.dirname(file), 'missing.yaml'), {}), /file not found/)
+})
+
+test('loads tenants, each needing a signer of its own or the top-level one', async () => {
+  const file = await writeConfig('paymaster.yaml', [
+    'chains: {}',
+    'tenants:',
+    '  game:',
+    '    paymasterPrivateKey: "0x02"',
+    `    chains: { "31337": { paymasterAddress: "${PAYMASTER}", rpc: "http://127.0.0.1:8545" } }`,
+    '  wallet:',
+    `    chains: { "31337": { paymasterAddress: "${PAYMASTER}", rpc: "http://127.0.0.1:8545" } }`
+  ].join('\n'))
+
+  await assert.rejects(loadConfig(file, {}), (error: unknown) => {
+    assert.ok(error instanceof ConfigError)
+    assert.deepStrictEqual(error.problems, [
+      '/tenants/wallet/chains/31337: no signer; set PAYMASTER_PRIVATE_KEY or configure a signer'
+    ])
+    return true
+  })
+
+  const config = await loadConfig(file, { PAYMASTER_PRIVATE_KEY: '0x01', PAYMASTER_RPC_31337: 'http://node:8545' })
+  assert.equal(config.tenants!.game.chains['31337'].rpc, 'http://node:8545')
+  assert.equal(config.tenants!.wallet.chains['31337'].rpc, 'http://node:8545')
+})
+
+test('rejects tenant names that could be read as chain IDs', async () => {
+  const file = await writeConfig('paymaster.json', JSON.stringify({
+    paymasterPrivateKey: '0x01',
+    chains: {},
+    tenants: { 8453: { chains: { 31337: { paymasterAddress: PAYMASTER, rpc: 'http://127.0.0.1:8545' } } } }
+  }))
+
+  await assert.rejects(loadConfig(file, {}), /\/tenants: property name must be valid/)
+})
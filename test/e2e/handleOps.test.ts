@@ -0,0 +1,225 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { mkdtemp, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import * as path from 'node:path'
+import { ethers } from 'ethers'
+import { build, TestContext } from '../helper.js'
+import { deployFixture, LOCAL_CHAIN_ID, LocalChain, startLocalChain } from '../localChain.js'
+import { paymasterAbi } from '../../src/abi/paymaster.js'
+import { getEntryPointCodec } from '../../src/services/entryPointCodec.js'
+import { packUserOperation } from '../../src/services/userOperationParser.js'
+import { UserOperationV07 } from '../../src/types/userOperation.js'
+
+// Deploys EntryPoint v0.7, the paymaster, a SimpleAccount factory and a test token on a local Hardhat node, then sends
+// ops sponsored through the /paymaster route to a real handleOps
+
+const packedUserOp = 'tuple(address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature)'
+const entryPointAbi = [
+  `function handleOps(${packedUserOp}[] ops, address beneficiary)`,
+  `function getUserOpHash(${packedUserOp} userOp) view returns (bytes32)`,
+  'function getNonce(address sender, uint192 key) view returns (uint256)',
+  'function balanceOf(address account) view returns (uint256)',
+  'event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)'
+]
+const accountFactoryAbi = [
+  'constructor(address entryPoint)',
+  'function createAccount(address owner, uint256 salt) returns (address)',
+  'function getAddress(address owner, uint256 salt) view returns (address)'
+]
+const accountInterface = new ethers.Interface(['function execute(address dest, uint256 value, bytes func)'])
+const tokenAbi = [
+  'function mint(address to, uint256 amount)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function balanceOf(address account) view returns (uint256)'
+]
+
+type Deployment = {
+  chain: LocalChain
+  entryPoint: ethers.Contract
+  paymaster: ethers.Contract
+  factory: ethers.Contract
+  token: ethers.Contract
+  treasury: string
+  configFile: string
+  signerKey: string
+}
+
+async function deploy (t: TestContext): Promise<Deployment> {
+  const chain = await startLocalChain()
+  t.after(() => chain.close())
+  const { deployer } = chain
+  const signer = ethers.Wallet.createRandom()
+  const treasury = ethers.Wallet.createRandom().address
+
+  const entryPoint = await deployFixture(deployer, 'EntryPoint', entryPointAbi)
+  const paymaster = await deployFixture(deployer, 'Paymaster', paymasterAbi, [
+    await entryPoint.getAddress(), deployer.address, [signer.address]
+  ])
+  await (await paymaster.deposit({ value: ethers.parseEther('10') })).wait()
+  await (await paymaster.setTreasury(treasury)).wait()
+  const factory = await deployFixture(deployer, 'SimpleAccountFactory', accountFactoryAbi, [await entryPoint.getAddress()])
+  const token = await deployFixture(deployer, 'TestERC20', tokenAbi)
+
+  const dir = await mkdtemp(path.join(tmpdir(), 'paymaster-e2e-'))
+  const configFile = path.join(dir, 'paymaster.yaml')
+  await writeFile(configFile, [
+    'chains:',
+    `  "${LOCAL_CHAIN_ID}":`,
+    `    paymasterAddress: "${await paymaster.getAddress()}"`,
+    `    entryPoint: "${await entryPoint.getAddress()}"`,
+    `    rpc: ${chain.url}`,
+    '    tokens:',
+    `      "${await token.getAddress()}":`,
+    // One token unit of 18 decimals per wei
+    '        exchangeRate: "1000000000000000000"'
+  ].join('\n'))
+
+  return { chain, entryPoint, paymaster, factory, token, treasury, configFile, signerKey: signer.privateKey }
+}
+
+async function rpc (app: Awaited<ReturnType<typeof build>>, method: string, params: unknown[]) {
+  const res = await app.inject({
+    method: 'POST',
+    url: `/paymaster/${LOCAL_CHAIN_ID}`,
+    payload: { jsonrpc: '2.0', id: 1, method, params }
+  })
+  const body = JSON.parse(res.payload)
+  assert.equal(body.error, undefined, JSON.stringify(body.error))
+  return body.result
+}
+
+/**
+ * Set environment variables for the rest of the test, restoring the values they had once it ends
+ */
+function setEnv (t: TestContext, variables: { [name: string]: string }) {
+  for (const [name, value] of Object.entries(variables)) {
+    const previous = process.env[name]
+    t.after(() => {
+      if (previous === undefined) {
+        delete process.env[name]
+      } else {
+        process.env[name] = previous
+      }
+    })
+    process.env[name] = value
+  }
+}
+
+/**
+ * Have the paymaster sponsor an op deploying a fresh SimpleAccount and making `call`, then send it through handleOps
+ */
+async function sponsorAndSend (
+  t: TestContext,
+  deployment: Deployment,
+  owner: ethers.Signer,
+  call: { to: string, data: string },
+  context: object
+) {
+  // The key replaces the one test/helper.ts sets, which would take precedence over one in the config file
+  setEnv(t, { PAYMASTER_CONFIG_FILE: deployment.configFile, PAYMASTER_PRIVATE_KEY: deployment.signerKey })
+  const app = await build(t)
+  const { entryPoint, factory, chain } = deployment
+  const entryPointAddress = await entryPoint.getAddress()
+
+  const { standard } = await rpc(app, 'pimlico_getUserOperationGasPrice', [])
+  let userOp: UserOperationV07 = {
+    sender: await factory.getFunction('getAddress')(await owner.getAddress(), 0),
+    nonce: '0x0',
+    factory: await factory.getAddress(),
+    factoryData: factory.interface.encodeFunctionData('createAccount', [await owner.getAddress(), 0]),
+    callData: accountInterface.encodeFunctionData('execute', [call.to, 0, call.data]),
+    callGasLimit: ethers.toQuantity(200000),
+    verificationGasLimit: ethers.toQuantity(1000000),
+    preVerificationGas: ethers.toQuantity(60000),
+    maxFeePerGas: standard.maxFeePerGas,
+    maxPriorityFeePerGas: standard.maxPriorityFeePerGas,
+    signature: '0x'
+  }
+
+  const stub = await rpc(app, 'pm_getPaymasterStubData', [userOp, entryPointAddress, ethers.toQuantity(LOCAL_CHAIN_ID), context])
+  userOp = {
+    ...userOp,
+    paymasterVerificationGasLimit: stub.paymasterVerificationGasLimit,
+    paymasterPostOpGasLimit: stub.paymasterPostOpGasLimit
+  }
+  const data = await rpc(app, 'pm_getPaymasterData', [userOp, entryPointAddress, ethers.toQuantity(LOCAL_CHAIN_ID), context])
+  userOp = { ...userOp, paymaster: data.paymaster, paymasterData: data.paymasterData }
+
+  // The hash the paymaster signs over must be the one the EntryPoint computes
+  const packed = packUserOperation(userOp)
+  const userOpHash: string = await entryPoint.getUserOpHash(packed)
+  assert.equal(
+    getEntryPointCodec('0.7').getUserOpHash(userOp, packed.paymasterAndData, entryPointAddress, LOCAL_CHAIN_ID),
+    userOpHash
+  )
+  const signed = { ...packed, signature: await owner.signMessage(ethers.getBytes(userOpHash)) }
+
+  const receipt = await (await entryPoint.connect(chain.deployer).getFunction('handleOps')([signed], chain.deployer.address)).wait()
+  const event = receipt.logs
+    .map((log: ethers.Log) => entryPoint.interface.parseLog(log))
+    .find((parsed: ethers.LogDescription | null) => parsed?.name === 'UserOperationEvent')
+  assert.ok(event, 'handleOps emitted no UserOperationEvent')
+  return { userOp, event }
+}
+
+test('sponsors an op that the EntryPoint executes', async (t) => {
+  const deployment = await deploy(t)
+  const owner = ethers.Wallet.createRandom()
+  const recipient = ethers.Wallet.createRandom().address
+  const depositBefore: bigint = await deployment.entryPoint.balanceOf(await deployment.paymaster.getAddress())
+
+  const { event } = await sponsorAndSend(t, deployment, owner, { to: recipient, data: '0x' }, {})
+
+  assert.equal(event.args.success, true)
+  assert.equal(event.args.paymaster, await deployment.paymaster.getAddress())
+  assert.equal(
+    await deployment.entryPoint.balanceOf(await deployment.paymaster.getAddress()),
+    depositBefore - event.args.actualGasCost
+  )
+})
+
+test('charges the account in tokens for an op sponsored in token mode', async (t) => {
+  const deployment = await deploy(t)
+  const { token, factory, paymaster, treasury } = deployment
+  const owner = ethers.Wallet.createRandom()
+  const account: string = await factory.getFunction('getAddress')(owner.address, 0)
+  await (await token.mint(account, ethers.parseEther('1000'))).wait()
+
+  const { event } = await sponsorAndSend(t, deployment, owner, {
+    to: await token.getAddress(),
+    data: token.interface.encodeFunctionData('approve', [await paymaster.getAddress(), ethers.MaxUint256])
+  }, { token: await token.getAddress() })
+
+  assert.equal(event.args.success, true)
+  const charged: bigint = await token.balanceOf(treasury)
+  assert.ok(charged > 0n, 'the treasury received no tokens')
+  assert.equal(await token.balanceOf(account), ethers.parseEther('1000') - charged)
+})
+
+test('the v0.8 paymaster hash of an EIP-7702 op matches the contract getHash over the raw initCode', async (t) => {
+  const { paymaster } = await deploy(t)
+  const codec = getEntryPointCodec('0.8')
+  const userOp: UserOperationV07 = {
+    sender: ethers.Wallet.createRandom().address,
+    nonce: '0x0',
+    factory: '0x7702',
+    factoryData: '0x1234',
+    eip7702Auth: { chainId: ethers.toQuantity(LOCAL_CHAIN_ID), address: ethers.Wallet.createRandom().address, nonce: '0x0', yParity: '0x0', r: '0x0', s: '0x0' },
+    callData: '0xdeadbeef',
+    callGasLimit: ethers.toQuantity(200000),
+    verificationGasLimit: ethers.toQuantity(1000000),
+    preVerificationGas: ethers.toQuantity(60000),
+    maxFeePerGas: ethers.toQuantity(2000000000),
+    maxPriorityFeePerGas: ethers.toQuantity(1000000000),
+    signature: '0x'
+  }
+  // Verifying mode, then validUntil and validAfter
+  const paymasterConfig = ethers.solidityPacked(['uint8', 'uint48', 'uint48'], [0, 0, 0])
+  const paymasterAndData = codec.packPaymasterAndData(await paymaster.getAddress(), 100000, 0, paymasterConfig)
+
+  assert.equal(
+    codec.getPaymasterHash(userOp, paymasterAndData, LOCAL_CHAIN_ID),
+    await paymaster.getHash(0, codec.toUserOpStruct(userOp, paymasterAndData))
+  )
+})
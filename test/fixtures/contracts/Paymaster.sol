@@ -0,0 +1,193 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import {BasePaymaster} from "@account-abstraction/contracts/core/BasePaymaster.sol";
+import {_packValidationData} from "@account-abstraction/contracts/core/Helpers.sol";
+import {IEntryPoint} from "@account-abstraction/contracts/interfaces/IEntryPoint.sol";
+import {PackedUserOperation} from "@account-abstraction/contracts/interfaces/PackedUserOperation.sol";
+
+/**
+ * Paymaster with the interface of src/abi/paymaster.ts and the paymasterData layout the service signs:
+ * a mode byte (mode in bits 1-7, allowAllBundlers in bit 0), validUntil and validAfter as uint48, in token mode
+ * the token, postOpGas as uint128 and exchangeRate as uint256, then a 65-byte signature over getHash as an
+ * EIP-191 message. Verifying mode returns an empty context, so only token mode has a postOp. The bundler allowlist is
+ * not kept; the end-to-end tests sponsor for any bundler.
+ */
+contract Paymaster is BasePaymaster {
+    uint8 internal constant VERIFYING_MODE = 0;
+    uint8 internal constant ERC20_MODE = 1;
+    uint256 internal constant VERIFYING_CONFIG_LENGTH = 13;
+    uint256 internal constant ERC20_CONFIG_LENGTH = 81;
+    uint256 internal constant SIGNATURE_LENGTH = 65;
+
+    mapping(address account => bool isValidSigner) public signers;
+    address public treasury;
+
+    event SignerAdded(address signer);
+    event SignerRemoved(address signer);
+    event TreasuryUpdated(address oldTreasury, address newTreasury);
+    event UserOperationSponsored(
+        bytes32 indexed userOpHash,
+        address indexed user,
+        uint8 paymasterMode,
+        address token,
+        uint256 tokenAmountPaid,
+        uint256 exchangeRate
+    );
+
+    error ExchangeRateInvalid();
+    error PaymasterAndDataLengthInvalid();
+    error PaymasterConfigLengthInvalid();
+    error PaymasterModeInvalid();
+    error PaymasterSignatureLengthInvalid();
+    error PostOpTransferFromFailed(string msg);
+    error TokenAddressInvalid();
+
+    constructor(address _entryPoint, address _owner, address[] memory _signers) BasePaymaster(IEntryPoint(_entryPoint)) {
+        _transferOwnership(_owner);
+        treasury = _owner;
+        for (uint256 i = 0; i < _signers.length; i++) {
+            signers[_signers[i]] = true;
+        }
+    }
+
+    function addSigner(address _signer) external onlyOwner {
+        signers[_signer] = true;
+        emit SignerAdded(_signer);
+    }
+
+    function removeSigner(address _signer) external onlyOwner {
+        signers[_signer] = false;
+        emit SignerRemoved(_signer);
+    }
+
+    function setTreasury(address _treasury) external onlyOwner {
+        emit TreasuryUpdated(treasury, _treasury);
+        treasury = _treasury;
+    }
+
+    /**
+     * The hash the signer signs: the op with paymasterAndData up to the signature, and the chain
+     */
+    function getHash(uint8 _mode, PackedUserOperation calldata _userOp) public view returns (bytes32) {
+        uint256 configLength = _configLength(_mode);
+        if (_userOp.paymasterAndData.length < PAYMASTER_DATA_OFFSET + configLength) {
+            revert PaymasterConfigLengthInvalid();
+        }
+        bytes32 userOpHash = keccak256(
+            abi.encode(
+                _userOp.sender,
+                _userOp.nonce,
+                _userOp.accountGasLimits,
+                _userOp.preVerificationGas,
+                _userOp.gasFees,
+                keccak256(_userOp.initCode),
+                keccak256(_userOp.callData),
+                keccak256(_userOp.paymasterAndData[:PAYMASTER_DATA_OFFSET + configLength])
+            )
+        );
+        return keccak256(abi.encode(userOpHash, block.chainid));
+    }
+
+    function getCostInToken(
+        uint256 _actualGasCost,
+        uint256 _postOpGas,
+        uint256 _actualUserOpFeePerGas,
+        uint256 _exchangeRate
+    ) public pure returns (uint256) {
+        return ((_actualGasCost + _postOpGas * _actualUserOpFeePerGas) * _exchangeRate) / 1e18;
+    }
+
+    function _validatePaymasterUserOp(
+        PackedUserOperation calldata _userOp,
+        bytes32 _userOpHash,
+        uint256
+    ) internal override returns (bytes memory, uint256) {
+        bytes calldata paymasterAndData = _userOp.paymasterAndData;
+        if (paymasterAndData.length <= PAYMASTER_DATA_OFFSET) {
+            revert PaymasterAndDataLengthInvalid();
+        }
+        uint8 mode = uint8(paymasterAndData[PAYMASTER_DATA_OFFSET]) >> 1;
+        uint256 configEnd = PAYMASTER_DATA_OFFSET + _configLength(mode);
+        if (paymasterAndData.length < configEnd) {
+            revert PaymasterConfigLengthInvalid();
+        }
+        bytes calldata signature = paymasterAndData[configEnd:];
+        if (signature.length != SIGNATURE_LENGTH) {
+            revert PaymasterSignatureLengthInvalid();
+        }
+
+        uint256 validationData = _packValidationData(
+            _signatureFailed(mode, _userOp, signature),
+            uint48(bytes6(paymasterAndData[PAYMASTER_DATA_OFFSET + 1:PAYMASTER_DATA_OFFSET + 7])),
+            uint48(bytes6(paymasterAndData[PAYMASTER_DATA_OFFSET + 7:PAYMASTER_DATA_OFFSET + 13]))
+        );
+
+        if (mode == VERIFYING_MODE) {
+            // Nothing to charge, so there is no postOp to emit from
+            emit UserOperationSponsored(_userOpHash, _userOp.sender, VERIFYING_MODE, address(0), 0, 0);
+            return ("", validationData);
+        }
+        return (_postOpContext(_userOp, _userOpHash), validationData);
+    }
+
+    function _postOp(PostOpMode, bytes calldata _context, uint256 _actualGasCost, uint256 _actualUserOpFeePerGas)
+        internal
+        override
+    {
+        (address sender, address token, uint256 postOpGas, uint256 exchangeRate, bytes32 userOpHash) =
+            abi.decode(_context, (address, address, uint256, uint256, bytes32));
+
+        uint256 tokenAmount = getCostInToken(_actualGasCost, postOpGas, _actualUserOpFeePerGas, exchangeRate);
+        try IERC20(token).transferFrom(sender, treasury, tokenAmount) returns (bool transferred) {
+            if (!transferred) {
+                revert PostOpTransferFromFailed("transferFrom returned false");
+            }
+        } catch Error(string memory reason) {
+            revert PostOpTransferFromFailed(reason);
+        } catch {
+            revert PostOpTransferFromFailed("transferFrom reverted");
+        }
+
+        emit UserOperationSponsored(userOpHash, sender, ERC20_MODE, token, tokenAmount, exchangeRate);
+    }
+
+    /**
+     * What postOp charges in token mode, decoded from the config
+     */
+    function _postOpContext(PackedUserOperation calldata _userOp, bytes32 _userOpHash) internal pure returns (bytes memory) {
+        bytes calldata config = _userOp.paymasterAndData[PAYMASTER_DATA_OFFSET:PAYMASTER_DATA_OFFSET + ERC20_CONFIG_LENGTH];
+        address token = address(bytes20(config[13:33]));
+        uint256 exchangeRate = uint256(bytes32(config[49:81]));
+        if (token == address(0)) {
+            revert TokenAddressInvalid();
+        }
+        if (exchangeRate == 0) {
+            revert ExchangeRateInvalid();
+        }
+        return abi.encode(_userOp.sender, token, uint256(uint128(bytes16(config[33:49]))), exchangeRate, _userOpHash);
+    }
+
+    function _signatureFailed(uint8 _mode, PackedUserOperation calldata _userOp, bytes calldata _signature)
+        internal
+        view
+        returns (bool)
+    {
+        (address recovered, ECDSA.RecoverError error,) =
+            ECDSA.tryRecover(MessageHashUtils.toEthSignedMessageHash(getHash(_mode, _userOp)), _signature);
+        return error != ECDSA.RecoverError.NoError || !signers[recovered];
+    }
+
+    function _configLength(uint8 _mode) internal pure returns (uint256) {
+        if (_mode == VERIFYING_MODE) {
+            return VERIFYING_CONFIG_LENGTH;
+        }
+        if (_mode == ERC20_MODE) {
+            return ERC20_CONFIG_LENGTH;
+        }
+        revert PaymasterModeInvalid();
+    }
+}
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * 18-decimal token anyone can mint, for the token mode tests
+ */
+contract TestERC20 is ERC20 {
+    constructor() ERC20("Test Token", "TEST") { }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
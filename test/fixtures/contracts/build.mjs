@@ -0,0 +1,45 @@
+// Compiles the Solidity fixtures here into the artifacts test/localChain.ts deploys: `npm run build:fixtures`
+import { readFileSync, writeFileSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import * as path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import solc from 'solc'
+
+const CONTRACTS = ['Paymaster', 'TestERC20']
+
+const dir = path.dirname(fileURLToPath(import.meta.url))
+const require = createRequire(import.meta.url)
+
+function findImport (importPath) {
+  try {
+    return { contents: readFileSync(require.resolve(importPath), 'utf8') }
+  } catch {
+    return { error: `${importPath} not found in node_modules` }
+  }
+}
+
+const input = {
+  language: 'Solidity',
+  sources: Object.fromEntries(CONTRACTS.map((name) => [
+    `${name}.sol`,
+    { content: readFileSync(path.join(dir, `${name}.sol`), 'utf8') }
+  ])),
+  settings: {
+    evmVersion: 'cancun',
+    optimizer: { enabled: true, runs: 1000 },
+    outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } }
+  }
+}
+
+const output = JSON.parse(solc.compile(JSON.stringify(input), { import: findImport }))
+const errors = (output.errors ?? []).filter((error) => error.severity === 'error')
+if (errors.length > 0) {
+  console.error(errors.map((error) => error.formattedMessage).join('\n'))
+  process.exit(1)
+}
+
+for (const name of CONTRACTS) {
+  const { abi, evm } = output.contracts[`${name}.sol`][name]
+  const artifact = { contractName: name, compiler: `solc ${solc.version()}`, abi, bytecode: `0x${evm.bytecode.object}` }
+  writeFileSync(path.join(dir, `${name}.json`), `${JSON.stringify(artifact, null, 2)}\n`)
+}
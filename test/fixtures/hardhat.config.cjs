@@ -0,0 +1,6 @@
+// Configures the `hardhat node` that test/localChain.ts starts for the end-to-end tests
+module.exports = {
+  networks: {
+    hardhat: { chainId: 31337 }
+  }
+}
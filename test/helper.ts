@@ -12,6 +12,10 @@ const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 const AppPath = path.join(__dirname, '..', 'src', 'app.ts')
 
+// The paymaster route needs a signer key; use a throwaway one unless the environment provides it
+process.env.PAYMASTER_PRIVATE_KEY ??= '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+process.env.PAYMASTER_CONFIG_FILE ??= path.join(__dirname, '..', 'paymaster.config.example.yaml')
+
 // Fill in this config with all the configurations
 // needed for testing the application
 function config () {
@@ -28,7 +32,8 @@ async function build (t: TestContext) {
   // fastify-plugin ensures that all decorators
   // are exposed for testing purposes, this is
   // different from the production setup
-  const app = await helper.build(argv, config())
+  // ts-node compiles the routes while they load, which outlasts Fastify's default plugin timeout on slow machines
+  const app = await helper.build(argv, config(), { pluginTimeout: 60000 })
 
   // Tear down our app after we are done
   t.after(() => void app.close())
@@ -0,0 +1,123 @@
+// A local Hardhat node (or any dev node at E2E_RPC_URL) and the contracts the end-to-end tests deploy on it
+import { ChildProcess, spawn } from 'node:child_process'
+import { readFileSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import { createServer } from 'node:net'
+import * as path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { ethers } from 'ethers'
+
+export const LOCAL_CHAIN_ID = 31337
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const require = createRequire(import.meta.url)
+const FIXTURES_DIR = path.join(__dirname, 'fixtures')
+const HARDHAT = path.join(path.dirname(require.resolve('hardhat/package.json')), 'internal', 'cli', 'bootstrap.js')
+// Built by @account-abstraction/contracts; Paymaster and TestERC20 are compiled into fixtures/contracts by build.mjs
+const PACKAGE_ARTIFACTS: Record<string, string> = {
+  EntryPoint: '@account-abstraction/contracts/artifacts/EntryPoint.json',
+  SimpleAccountFactory: '@account-abstraction/contracts/artifacts/SimpleAccountFactory.json'
+}
+const STARTUP_TIMEOUT_MS = 60000
+
+export type LocalChain = {
+  url: string
+  provider: ethers.JsonRpcProvider
+  /** Funded with 1000 ether */
+  deployer: ethers.Wallet
+  close: () => Promise<void>
+}
+
+/**
+ * Creation bytecode of a fixture contract
+ */
+function fixtureBytecode (name: string): string {
+  const file = PACKAGE_ARTIFACTS[name] !== undefined
+    ? require.resolve(PACKAGE_ARTIFACTS[name])
+    : path.join(FIXTURES_DIR, 'contracts', `${name}.json`)
+  const { bytecode } = JSON.parse(readFileSync(file, 'utf8'))
+  if (typeof bytecode !== 'string' || !ethers.isHexString(bytecode) || bytecode === '0x') {
+    throw new Error(`${file} has no bytecode; run npm run build:fixtures`)
+  }
+  return bytecode
+}
+
+export async function deployFixture (
+  deployer: ethers.Wallet,
+  name: string,
+  abi: ethers.InterfaceAbi,
+  args: unknown[] = []
+): Promise<ethers.Contract> {
+  const factory = new ethers.ContractFactory(abi, fixtureBytecode(name), deployer)
+  const contract = await factory.deploy(...args)
+  await contract.waitForDeployment()
+  return contract as ethers.Contract
+}
+
+async function freePort (): Promise<number> {
+  const server = createServer()
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as { port: number }
+  await new Promise((resolve) => server.close(resolve))
+  return port
+}
+
+async function waitForNode (url: string, node: ChildProcess | undefined): Promise<void> {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS
+  while (Date.now() < deadline) {
+    if (node?.exitCode !== null && node?.exitCode !== undefined) {
+      throw new Error(`hardhat node exited with code ${node.exitCode}`)
+    }
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] })
+      })
+      if (response.ok) {
+        return
+      }
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 200))
+  }
+  throw new Error(`Local chain at ${url} did not start within ${STARTUP_TIMEOUT_MS} ms`)
+}
+
+export async function startLocalChain (): Promise<LocalChain> {
+  let node: ChildProcess | undefined
+  let url = process.env.E2E_RPC_URL
+  if (!url) {
+    const port = await freePort()
+    node = spawn(process.execPath, [
+      HARDHAT, 'node', '--config', path.join(FIXTURES_DIR, 'hardhat.config.cjs'), '--hostname', '127.0.0.1', '--port', String(port)
+    ], { stdio: 'ignore', env: { ...process.env, HARDHAT_DISABLE_TELEMETRY_PROMPT: 'true' } })
+    url = `http://127.0.0.1:${port}`
+  }
+
+  const provider = new ethers.JsonRpcProvider(url, LOCAL_CHAIN_ID, { staticNetwork: true, cacheTimeout: -1 })
+  const close = async () => {
+    provider.destroy()
+    if (node && node.exitCode === null) {
+      const exited = new Promise((resolve) => node!.once('exit', resolve))
+      node.kill()
+      await exited
+    }
+  }
+
+  try {
+    await waitForNode(url, node)
+
+    const deployer = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, provider)
+    const balance = ethers.toQuantity(ethers.parseEther('1000'))
+    // anvil, which E2E_RPC_URL may point at instead, names the cheat code anvil_setBalance
+    await provider.send('hardhat_setBalance', [deployer.address, balance])
+      .catch(() => provider.send('anvil_setBalance', [deployer.address, balance]))
+
+    return { url, provider, deployer, close }
+  } catch (error) {
+    await close()
+    throw error
+  }
+}
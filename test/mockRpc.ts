@@ -0,0 +1,95 @@
+// A minimal JSON-RPC server standing in for a chain node in tests
+import * as http from 'node:http'
+import { AddressInfo } from 'node:net'
+
+export type MockRpcAnswer = unknown | Promise<unknown>
+
+export type MockRpcHandler = (params: unknown[]) => MockRpcAnswer
+
+/** A transaction as ethers sends it to eth_call and eth_estimateGas */
+export type MockRpcTransaction = { from?: string, to: string, data: string }
+
+/** A log filter as ethers sends it to eth_getLogs */
+export type MockRpcLogFilter = { address: string, topics: (string | null)[], fromBlock: string, toBlock: string }
+
+/**
+ * Answers by method name; the methods tests stub with arguments get their params typed
+ */
+export interface MockRpcHandlers {
+  eth_call?(params: [MockRpcTransaction, string]): MockRpcAnswer
+  eth_estimateGas?(params: [MockRpcTransaction, string?]): MockRpcAnswer
+  eth_getBlockByNumber?(params: [string, boolean]): MockRpcAnswer
+  eth_getLogs?(params: [MockRpcLogFilter]): MockRpcAnswer
+  // never, so handlers for other methods may type their params as they expect them
+  [method: string]: ((params: never) => MockRpcAnswer) | undefined
+}
+
+type MockRpcRequest = { jsonrpc: '2.0', id: number | string | null, method: string, params?: unknown[] }
+
+export type MockRpc = {
+  url: string
+  /** Methods received, in order */
+  calls: string[]
+  close: () => Promise<void>
+}
+
+export class MockRpcError extends Error {
+  constructor (public readonly code: number, message: string, public readonly data?: string) {
+    super(message)
+  }
+}
+
+async function answer (handlers: MockRpcHandlers, calls: string[], request: MockRpcRequest) {
+  calls.push(request.method)
+  const handler = handlers[request.method] as MockRpcHandler | undefined
+  if (!handler) {
+    return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `Method not found: ${request.method}` } }
+  }
+  try {
+    return { jsonrpc: '2.0', id: request.id, result: await handler(request.params ?? []) }
+  } catch (error) {
+    const { code = -32000, message, data } = error as MockRpcError
+    return { jsonrpc: '2.0', id: request.id, error: { code, message, data } }
+  }
+}
+
+async function startMockRpc (
+  chainId: number,
+  handlers: MockRpcHandlers
+): Promise<MockRpc> {
+  const calls: string[] = []
+  const allHandlers: MockRpcHandlers = {
+    eth_chainId: () => `0x${chainId.toString(16)}`,
+    net_version: () => chainId.toString(),
+    ...handlers
+  }
+
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => { body += chunk })
+    req.on('end', async () => {
+      const payload: MockRpcRequest | MockRpcRequest[] = JSON.parse(body)
+      const response = Array.isArray(payload)
+        ? await Promise.all(payload.map((request) => answer(allHandlers, calls, request)))
+        : await answer(allHandlers, calls, payload)
+      res.setHeader('content-type', 'application/json')
+      res.end(JSON.stringify(response))
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    calls,
+    close: () => new Promise((resolve) => {
+      server.closeAllConnections()
+      server.close(() => resolve())
+    })
+  }
+}
+
+export {
+  startMockRpc
+}
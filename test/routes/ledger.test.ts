@@ -0,0 +1,125 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { mkdtemp } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import * as path from 'node:path'
+import Fastify from 'fastify'
+import sensible from '@fastify/sensible'
+import { ethers } from 'ethers'
+import Ledger from '../../src/routes/ledger/index.js'
+import { PaymasterService } from '../../src/services/paymasterService.js'
+import { ledgerStream } from '../../src/services/sponsorshipLedger.js'
+import { PaymasterMode } from '../../src/types/paymaster.js'
+import { DEFAULT_ENTRY_POINT, PaymasterConfig } from '../../src/config/index.js'
+
+const CHAIN_ID = '11155111'
+const PAYMASTER = '0xDE31CDdee69441D6F1D35E3486DA444bbA43573e'
+const SENDER = ethers.getAddress('0x00000000000000000000000000000000000000cc')
+const TOKEN = 'ledger-token'
+const headers = { authorization: `Bearer ${TOKEN}` }
+
+function sponsoredEvent (userOpHash: string, blockNumber: number, timestamp: string, actualGasCost: string) {
+  return {
+    chainId: CHAIN_ID,
+    paymaster: PAYMASTER,
+    entryPoint: DEFAULT_ENTRY_POINT,
+    userOpHash,
+    sender: SENDER,
+    mode: PaymasterMode.Verifying,
+    token: null,
+    tokenAmountPaid: '0',
+    exchangeRate: '0',
+    actualGasCost,
+    success: true,
+    blockNumber,
+    blockHash: ethers.id(`block ${blockNumber}`),
+    transactionHash: ethers.id(`tx ${userOpHash}`),
+    logIndex: 0,
+    timestamp
+  }
+}
+
+async function build (t: { after: (fn: () => unknown) => void }, withLedger = true, authToken: string | null = TOKEN) {
+  const config: PaymasterConfig = {
+    paymasterPrivateKey: ethers.Wallet.createRandom().privateKey,
+    chains: { [CHAIN_ID]: { paymasterAddress: PAYMASTER, rpc: 'http://127.0.0.1:1' } }
+  }
+  if (withLedger) {
+    const dir = await mkdtemp(path.join(tmpdir(), 'paymaster-ledger-'))
+    config.ledger = { storePath: path.join(dir, 'ledger.jsonl'), authToken: authToken ?? undefined }
+  }
+  const service = new PaymasterService(config)
+  t.after(() => service.close())
+
+  if (service.ledger) {
+    const hashA = ethers.id('op a')
+    await service.ledger.recordSignedOp({
+      chainId: CHAIN_ID,
+      userOpHash: hashA,
+      entryPoint: DEFAULT_ENTRY_POINT,
+      paymaster: PAYMASTER,
+      sender: SENDER,
+      nonce: '0x0',
+      mode: PaymasterMode.Verifying,
+      token: null,
+      maxCost: '1000',
+      project: 'dapp, "a"',
+      signedAt: '2025-03-01T09:59:00.000Z',
+      validUntil: Date.parse('2025-03-01T10:59:00.000Z') / 1000
+    })
+    await service.ledger.store.commit(ledgerStream(CHAIN_ID, PAYMASTER, DEFAULT_ENTRY_POINT), 0, [
+      sponsoredEvent(hashA, 100, '2025-03-01T10:00:00.000Z', '600'),
+      sponsoredEvent(ethers.id('op b'), 200, '2025-03-02T10:00:00.000Z', '400')
+    ], { blockNumber: 200, blockHash: ethers.id('block 200') })
+  }
+
+  const app = Fastify()
+  app.register(sensible)
+  app.decorate('paymasterService', service)
+  app.register(Ledger, { prefix: '/ledger' })
+  t.after(() => app.close())
+  return app
+}
+
+test('exports ledger entries as CSV', async (t) => {
+  const app = await build(t)
+
+  const res = await app.inject({ method: 'GET', url: `/ledger/${CHAIN_ID}/entries?format=csv&to=2025-03-01`, headers })
+  const [header, row, ...rest] = res.payload.trimEnd().split('\r\n')
+
+  assert.equal(res.statusCode, 200)
+  assert.match(res.headers['content-type'] as string, /^text\/csv/)
+  assert.ok(header.startsWith('timestamp,blockNumber,transactionHash,userOpHash,sender,project'))
+  assert.ok(row.includes(',"dapp, ""a""",'))
+  assert.deepStrictEqual(rest, [])
+})
+
+test('summarizes sponsored gas per day', async (t) => {
+  const app = await build(t)
+
+  const res = await app.inject({ method: 'GET', url: `/ledger/${CHAIN_ID}/summary?groupBy=day&sender=${SENDER}`, headers })
+
+  assert.equal(res.statusCode, 200)
+  assert.deepStrictEqual(JSON.parse(res.payload).rows, [
+    { key: '2025-03-01', token: null, ops: 1, actualGasCost: '600', tokenAmountPaid: '0' },
+    { key: '2025-03-02', token: null, ops: 1, actualGasCost: '400', tokenAmountPaid: '0' }
+  ])
+})
+
+test('answers 404 when the ledger is not configured', async (t) => {
+  const app = await build(t, false)
+
+  const res = await app.inject({ method: 'GET', url: `/ledger/${CHAIN_ID}/entries`, headers })
+
+  assert.equal(res.statusCode, 404)
+})
+
+test('the routes stay closed without a token and reject a wrong one', async (t) => {
+  const untokened = await build(t, true, null)
+  const closed = await untokened.inject({ method: 'GET', url: `/ledger/${CHAIN_ID}/entries` })
+  assert.equal(closed.statusCode, 404)
+
+  const app = await build(t)
+  const wrong = await app.inject({ method: 'GET', url: `/ledger/${CHAIN_ID}/entries`, headers: { authorization: 'Bearer nope' } })
+  assert.equal(wrong.statusCode, 401)
+})
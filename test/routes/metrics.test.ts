@@ -0,0 +1,33 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { build } from '../helper.js'
+
+test('exposes request counts and latencies per method and chain', async (t) => {
+  const app = await build(t)
+
+  await app.inject({
+    method: 'POST',
+    url: '/paymaster/11155111',
+    payload: [
+      { jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] },
+      { jsonrpc: '2.0', id: 2, method: 'pm_getPaymasterData', params: [] }
+    ]
+  })
+  const res = await app.inject({ method: 'GET', url: '/metrics' })
+
+  assert.equal(res.statusCode, 200)
+  assert.match(res.headers['content-type'] as string, /^text\/plain/)
+  assert.match(res.payload, /paymaster_requests_total\{method="eth_chainId",chain_id="11155111",outcome="success"\} 1/)
+  assert.match(res.payload, /paymaster_requests_total\{method="pm_getPaymasterData",chain_id="11155111",outcome="error"\} 1/)
+  assert.match(res.payload, /paymaster_errors_total\{method="pm_getPaymasterData",chain_id="11155111",code="-32602"\} 1/)
+  assert.match(res.payload, /paymaster_request_duration_seconds_count\{method="eth_chainId",chain_id="11155111"\} 1/)
+  assert.match(res.payload, /process_cpu_user_seconds_total/)
+})
+
+test('echoes the request ID on replies', async (t) => {
+  const app = await build(t)
+
+  const res = await app.inject({ method: 'GET', url: '/metrics' })
+
+  assert.ok(res.headers['x-request-id'])
+})
@@ -0,0 +1,121 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { build } from '../helper.js'
+import { DEFAULT_ENTRY_POINT } from '../../src/config/index.js'
+import { JsonRpcResponse } from '../../src/services/jsonRpc.js'
+
+const URL = '/paymaster/11155111'
+
+test('answers eth_chainId and pm_supportedEntryPoints', async (t) => {
+  const app = await build(t)
+
+  const res = await app.inject({
+    method: 'POST',
+    url: URL,
+    payload: [
+      { jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] },
+      { jsonrpc: '2.0', id: 'b', method: 'pm_supportedEntryPoints' }
+    ]
+  })
+
+  assert.equal(res.statusCode, 200)
+  assert.deepStrictEqual(JSON.parse(res.payload), [
+    { jsonrpc: '2.0', id: 1, result: '0xaa36a7' },
+    { jsonrpc: '2.0', id: 'b', result: [DEFAULT_ENTRY_POINT] }
+  ])
+})
+
+test('uses JSON-RPC error codes for bad requests', async (t) => {
+  const app = await build(t)
+
+  const res = await app.inject({
+    method: 'POST',
+    url: URL,
+    payload: [
+      { jsonrpc: '2.0', id: 1, method: 'eth_sendTransaction', params: [] },
+      { jsonrpc: '1.0', id: 2, method: 'eth_chainId' },
+      { jsonrpc: '2.0', id: 3, method: 'pm_getPaymasterData', params: [{}, DEFAULT_ENTRY_POINT, '0x1', {}] },
+      { jsonrpc: '2.0', method: 'eth_chainId' }
+    ]
+  })
+
+  const body: JsonRpcResponse[] = JSON.parse(res.payload)
+  assert.deepStrictEqual(body.map((r) => [r.id, r.error?.code]), [[1, -32601], [2, -32600], [3, -32602]])
+  assert.ok(!res.payload.includes('at '), 'no stack traces in responses')
+})
+
+test('names the invalid userOp field in -32602 errors', async (t) => {
+  const app = await build(t)
+
+  const res = await app.inject({
+    method: 'POST',
+    url: URL,
+    payload: {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'pm_getPaymasterStubData',
+      params: [{ sender: '0x00000000000000000000000000000000000000cc', nonce: '0x0', callData: 'deadbeef' }, DEFAULT_ENTRY_POINT, '0xaa36a7', {}]
+    }
+  })
+
+  assert.deepStrictEqual(JSON.parse(res.payload).error, {
+    code: -32602,
+    message: 'Invalid params: userOp.callData must be hex-encoded bytes',
+    data: { field: 'userOp.callData' }
+  })
+})
+
+test('refuses batches over the configured size', async (t) => {
+  const app = await build(t)
+
+  const res = await app.inject({
+    method: 'POST',
+    url: URL,
+    payload: Array.from({ length: 21 }, (_, id) => ({ jsonrpc: '2.0', id, method: 'eth_chainId' }))
+  })
+
+  assert.equal(res.statusCode, 400)
+  assert.deepStrictEqual(JSON.parse(res.payload).error, {
+    code: -32600,
+    message: 'Invalid request: batch of 21 calls exceeds the limit of 20'
+  })
+})
+
+test('refuses tenants that are not configured', async (t) => {
+  const app = await build(t)
+
+  const res = await app.inject({
+    method: 'POST',
+    url: '/paymaster/unknown/11155111',
+    payload: { jsonrpc: '2.0', id: 1, method: 'eth_chainId' }
+  })
+
+  assert.equal(res.statusCode, 400)
+  assert.equal(JSON.parse(res.payload).error.code, -32600)
+})
+
+test('returns no content for notifications', async (t) => {
+  const app = await build(t)
+
+  const res = await app.inject({
+    method: 'POST',
+    url: URL,
+    payload: { jsonrpc: '2.0', method: 'eth_chainId' }
+  })
+
+  assert.equal(res.statusCode, 204)
+  assert.equal(res.payload, '')
+})
+
+test('answers malformed JSON with a parse error', async (t) => {
+  const app = await build(t)
+
+  const res = await app.inject({
+    method: 'POST',
+    url: URL,
+    headers: { 'content-type': 'application/json' },
+    payload: '{"jsonrpc": "2.0",'
+  })
+
+  assert.equal(JSON.parse(res.payload).error.code, -32700)
+})
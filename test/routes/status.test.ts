@@ -0,0 +1,73 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import Fastify from 'fastify'
+import sensible from '@fastify/sensible'
+import { ethers } from 'ethers'
+import Status from '../../src/routes/status/index.js'
+import { PaymasterService } from '../../src/services/paymasterService.js'
+import { DEFAULT_ENTRY_POINT } from '../../src/config/index.js'
+import { startMockRpc } from '../mockRpc.js'
+
+const CHAIN_ID = 11155111
+const PAYMASTER = '0xDE31CDdee69441D6F1D35E3486DA444bbA43573e'
+const entryPointInterface = new ethers.Interface([
+  'function getDepositInfo(address account) view returns (tuple(uint256 deposit, bool staked, uint112 stake, uint32 unstakeDelaySec, uint48 withdrawTime) info)'
+])
+
+async function build (t: { after: (fn: () => unknown) => void }) {
+  const node = await startMockRpc(CHAIN_ID, {
+    eth_call: ([tx]) => ethers.getAddress(tx.to) === DEFAULT_ENTRY_POINT
+      ? entryPointInterface.encodeFunctionResult('getDepositInfo', [[10n ** 16n, false, 0n, 0, 0]])
+      : '0x'
+  })
+  t.after(() => node.close())
+  const service = new PaymasterService({
+    paymasterPrivateKey: ethers.Wallet.createRandom().privateKey,
+    chains: { [CHAIN_ID]: { paymasterAddress: PAYMASTER, rpc: node.url, monitor: { minDeposit: (10n ** 17n).toString() } } }
+  })
+  t.after(() => service.close())
+
+  const app = Fastify()
+  app.register(sensible)
+  app.decorate('paymasterService', service)
+  app.register(Status, { prefix: '/status' })
+  t.after(() => app.close())
+  return app
+}
+
+test('reports deposit, stake and open alerts per paymaster', async (t) => {
+  const app = await build(t)
+
+  const res = await app.inject({ method: 'GET', url: `/status/${CHAIN_ID}` })
+  const body = JSON.parse(res.payload)
+
+  assert.equal(res.statusCode, 200)
+  assert.equal(body.paymasters.length, 1)
+  assert.equal(body.paymasters[0].deposit, (10n ** 16n).toString())
+  assert.equal(body.paymasters[0].depositEther, '0.01')
+  assert.equal(body.paymasters[0].stake.staked, false)
+  assert.equal(body.paymasters[0].treasury, null)
+  assert.deepStrictEqual(body.paymasters[0].alerts.map((alert: { type: string }) => alert.type), ['lowDeposit'])
+})
+
+test('answers 404 for chains that are not configured', async (t) => {
+  const app = await build(t)
+
+  const res = await app.inject({ method: 'GET', url: '/status/1' })
+
+  assert.equal(res.statusCode, 404)
+})
+
+test('reports the health of each RPC endpoint', async (t) => {
+  const app = await build(t)
+  await app.inject({ method: 'GET', url: `/status/${CHAIN_ID}` })
+
+  const res = await app.inject({ method: 'GET', url: `/status/${CHAIN_ID}/rpc` })
+  const body = JSON.parse(res.payload)
+
+  assert.equal(res.statusCode, 200)
+  assert.equal(body.strategy, 'priority')
+  assert.equal(body.endpoints.length, 1)
+  assert.equal(body.endpoints[0].state, 'closed')
+  assert.ok(body.endpoints[0].requests > 0)
+})
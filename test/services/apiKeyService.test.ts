@@ -0,0 +1,117 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { mkdir, mkdtemp, readdir, readFile, utimes, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import * as path from 'node:path'
+import { ApiKeyService, defaultUsagePath, FileApiKeyStore } from '../../src/services/apiKeyService.js'
+import { RpcError, RpcErrorCode } from '../../src/errors/rpcError.js'
+
+async function writeStore (keys: object): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'paymaster-keys-'))
+  const file = path.join(dir, 'keys.json')
+  await writeFile(file, JSON.stringify({ keys }))
+  return file
+}
+
+function hasCode (code: number) {
+  return (error: unknown) => error instanceof RpcError && error.code === code
+}
+
+test('rejects missing, unknown and off-chain keys', async () => {
+  const service = new ApiKeyService(new FileApiKeyStore(await writeStore({
+    'key-a': { project: 'dapp-a', allowedChains: ['1'] }
+  })))
+
+  await assert.rejects(service.authenticate(undefined, '1'), hasCode(RpcErrorCode.Unauthorized))
+  await assert.rejects(service.authenticate('key-b', '1'), hasCode(RpcErrorCode.Unauthorized))
+  await assert.rejects(service.authenticate('key-a', '10'), hasCode(RpcErrorCode.Unauthorized))
+
+  const project = await service.authenticate('key-a', '1')
+  assert.equal(project.project, 'dapp-a')
+})
+
+test('enforces the per-key rate limit', async () => {
+  const service = new ApiKeyService(new FileApiKeyStore(await writeStore({
+    'key-a': { project: 'dapp-a', rateLimit: { requests: 2, windowSeconds: 60 } }
+  })))
+
+  await service.authenticate('key-a', '1')
+  await service.authenticate('key-a', '1')
+  await assert.rejects(service.authenticate('key-a', '1'), hasCode(RpcErrorCode.LimitExceeded))
+})
+
+test('charges the rate limit once per call in a batch', async () => {
+  const service = new ApiKeyService(new FileApiKeyStore(await writeStore({
+    'key-a': { project: 'dapp-a', rateLimit: { requests: 5, windowSeconds: 60 } }
+  })))
+
+  await assert.rejects(service.authenticate('key-a', '1', 6), hasCode(RpcErrorCode.LimitExceeded))
+  await service.authenticate('key-a', '1', 4)
+  await assert.rejects(service.authenticate('key-a', '1', 2), hasCode(RpcErrorCode.LimitExceeded))
+  await service.authenticate('key-a', '1')
+})
+
+test('tracks sponsored gas per key against its budget in a usage file of its own', async () => {
+  const file = await writeStore({
+    'key-a': { project: 'dapp-a', sponsoredGasBudget: '1000' },
+    'key-b': { project: 'dapp-b', sponsoredGasBudget: '1000' }
+  })
+  const service = new ApiKeyService(new FileApiKeyStore(file))
+  const projectA = await service.authenticate('key-a', '1')
+  const projectB = await service.authenticate('key-b', '1')
+
+  await service.reserveBudget(projectA, 600n)
+  await assert.rejects(service.assertBudget(projectA, 600n), hasCode(RpcErrorCode.LimitExceeded))
+  await assert.rejects(service.reserveBudget(projectA, 600n), hasCode(RpcErrorCode.LimitExceeded))
+  await service.reserveBudget(projectB, 600n)
+  await service.refundBudget(projectB, 600n)
+
+  const usage = JSON.parse(await readFile(defaultUsagePath(file), 'utf8'))
+  assert.deepStrictEqual(
+    { sponsoredGasCost: usage['key-a'].sponsoredGasCost, sponsoredOps: usage['key-a'].sponsoredOps },
+    { sponsoredGasCost: '600', sponsoredOps: 1 }
+  )
+  assert.equal(usage['key-b'].sponsoredGasCost, '0')
+  assert.equal(JSON.parse(await readFile(file, 'utf8')).usage, undefined)
+})
+
+test('reserves budget atomically for concurrent sponsorships', async () => {
+  const service = new ApiKeyService(new FileApiKeyStore(await writeStore({
+    'key-a': { project: 'dapp-a', sponsoredGasBudget: '1000' }
+  })))
+  const project = await service.authenticate('key-a', '1')
+
+  const reserved = await Promise.allSettled(Array.from({ length: 10 }, () => service.reserveBudget(project, 400n)))
+
+  assert.equal(reserved.filter((result) => result.status === 'fulfilled').length, 2)
+})
+
+test('picks up keys added and revoked in the file while running', async () => {
+  const file = await writeStore({ 'key-a': { project: 'dapp-a' } })
+  const service = new ApiKeyService(new FileApiKeyStore(file))
+  await service.reserveBudget(await service.authenticate('key-a', '1'), 1n)
+
+  // A later modification time, as an edit a moment later would leave
+  await writeFile(file, JSON.stringify({ keys: { 'key-b': { project: 'dapp-b' } } }))
+  const later = new Date(Date.now() + 5000)
+  await utimes(file, later, later)
+
+  await assert.rejects(service.authenticate('key-a', '1'), hasCode(RpcErrorCode.Unauthorized))
+  assert.equal((await service.authenticate('key-b', '1')).project, 'dapp-b')
+  assert.deepStrictEqual(Object.keys(JSON.parse(await readFile(file, 'utf8')).keys), ['key-b'])
+})
+
+test('keeps writing usage after a failed write, replacing the file whole each time', async () => {
+  const file = await writeStore({ 'key-a': { project: 'dapp-a' } })
+  // Writes fail until the usage file's directory exists
+  const usageDir = path.join(path.dirname(file), 'usage')
+  const service = new ApiKeyService(new FileApiKeyStore(file, path.join(usageDir, 'keys.usage.json')))
+  const project = await service.authenticate('key-a', '1')
+
+  await assert.rejects(service.reserveBudget(project, 1n), { code: 'ENOENT' })
+  await mkdir(usageDir)
+  await service.reserveBudget(project, 1n)
+
+  assert.deepStrictEqual(await readdir(usageDir), ['keys.usage.json'])
+  assert.ok(JSON.parse(await readFile(path.join(usageDir, 'keys.usage.json'), 'utf8'))['key-a'])
+})
@@ -0,0 +1,144 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import * as http from 'node:http'
+import { AddressInfo } from 'node:net'
+import { ethers } from 'ethers'
+import { DepositAlertType, DepositMonitor } from '../../src/services/depositMonitor.js'
+import { PaymasterService } from '../../src/services/paymasterService.js'
+import { RpcError, RpcErrorCode } from '../../src/errors/rpcError.js'
+import { paymasterAbi } from '../../src/abi/paymaster.js'
+import { DEFAULT_ENTRY_POINT } from '../../src/config/index.js'
+import { startMockRpc } from '../mockRpc.js'
+
+const CHAIN_ID = 31337
+const PAYMASTER = '0x00000000000000000000000000000000000000aa'
+const TREASURY = ethers.getAddress('0x00000000000000000000000000000000000000dd')
+const paymasterInterface = new ethers.Interface(paymasterAbi)
+const entryPointInterface = new ethers.Interface([
+  'function getDepositInfo(address account) view returns (tuple(uint256 deposit, bool staked, uint112 stake, uint32 unstakeDelaySec, uint48 withdrawTime) info)'
+])
+
+// A chain where the paymaster's deposit and stake can be changed between polls
+async function startPaymasterNode (t: { after: (fn: () => Promise<void>) => void }, funds: { deposit: bigint, stake: bigint }) {
+  const node = await startMockRpc(CHAIN_ID, {
+    eth_call: ([tx]) => {
+      if (ethers.getAddress(tx.to) === DEFAULT_ENTRY_POINT) {
+        return entryPointInterface.encodeFunctionResult('getDepositInfo', [[funds.deposit, funds.stake > 0n, funds.stake, 86400, 0]])
+      }
+      const { name } = paymasterInterface.parseTransaction({ data: tx.data })!
+      switch (name) {
+        case 'treasury':
+          return paymasterInterface.encodeFunctionResult('treasury', [TREASURY])
+        case 'entryPoint':
+          return paymasterInterface.encodeFunctionResult('entryPoint', [DEFAULT_ENTRY_POINT])
+        default:
+          return paymasterInterface.encodeFunctionResult('signers', [true])
+      }
+    }
+  })
+  t.after(() => node.close())
+  return node
+}
+
+// The body DepositMonitor posts to the alert webhook
+type AlertPayload = {
+  alert: DepositAlertType
+  message: string
+  chainId: string
+  entryPoint: string
+  paymaster: string
+  deposit: string
+  stake: string
+  timestamp: string
+}
+
+async function startWebhook (t: { after: (fn: () => Promise<void>) => void }) {
+  const alerts: AlertPayload[] = []
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => { body += chunk })
+    req.on('end', () => {
+      alerts.push(JSON.parse(body))
+      res.end()
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  t.after(() => new Promise((resolve) => {
+    server.closeAllConnections()
+    server.close(() => resolve())
+  }))
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, alerts }
+}
+
+test('reads deposit, stake and treasury for each paymaster', async (t) => {
+  const node = await startPaymasterNode(t, { deposit: 5n * 10n ** 18n, stake: 10n ** 17n })
+  const provider = new ethers.JsonRpcProvider(node.url, CHAIN_ID, { staticNetwork: true })
+  t.after(() => provider.destroy())
+  const monitor = new DepositMonitor(String(CHAIN_ID), provider, [{
+    entryPoint: DEFAULT_ENTRY_POINT,
+    entryPointVersion: '0.7',
+    paymasterContract: new ethers.Contract(PAYMASTER, paymasterAbi, provider)
+  }])
+
+  const [funding] = await monitor.getFunding()
+
+  assert.equal(funding.deposit, 5n * 10n ** 18n)
+  assert.equal(funding.staked, true)
+  assert.equal(funding.stake, 10n ** 17n)
+  assert.equal(funding.unstakeDelaySec, 86400)
+  assert.equal(funding.treasury, TREASURY)
+  assert.deepStrictEqual(funding.alerts, [])
+})
+
+test('alerts once per threshold breach and again after it clears', async (t) => {
+  const funds = { deposit: 10n ** 16n, stake: 0n }
+  const node = await startPaymasterNode(t, funds)
+  const webhook = await startWebhook(t)
+  const provider = new ethers.JsonRpcProvider(node.url, CHAIN_ID, { staticNetwork: true })
+  t.after(() => provider.destroy())
+  const monitor = new DepositMonitor(String(CHAIN_ID), provider, [{
+    entryPoint: DEFAULT_ENTRY_POINT,
+    entryPointVersion: '0.7',
+    paymasterContract: new ethers.Contract(PAYMASTER, paymasterAbi, provider)
+  }], { minDeposit: (10n ** 17n).toString(), minStake: '1', alertWebhookUrl: webhook.url })
+
+  await monitor.poll()
+  await monitor.poll()
+  assert.deepStrictEqual(webhook.alerts.map((alert) => alert.alert), ['lowDeposit', 'lowStake'])
+  assert.equal(webhook.alerts[0].deposit, (10n ** 16n).toString())
+
+  funds.deposit = 10n ** 18n
+  await monitor.poll()
+  funds.deposit = 0n
+  await monitor.poll()
+  assert.deepStrictEqual(webhook.alerts.map((alert) => alert.alert), ['lowDeposit', 'lowStake', 'lowDeposit'])
+})
+
+test('refuses to sign ops the deposit cannot cover when configured to', async (t) => {
+  const node = await startPaymasterNode(t, { deposit: 10n ** 12n, stake: 0n })
+  const service = new PaymasterService({
+    paymasterPrivateKey: ethers.Wallet.createRandom().privateKey,
+    chains: {
+      [CHAIN_ID]: { paymasterAddress: PAYMASTER, rpc: node.url, monitor: { refuseWhenUnderfunded: true } }
+    }
+  })
+  t.after(() => service.close())
+
+  await assert.rejects(
+    service.getPaymasterData(1, [{
+      sender: '0x00000000000000000000000000000000000000cc',
+      nonce: '0x0',
+      callData: '0x',
+      callGasLimit: '0x10000',
+      verificationGasLimit: '0x10000',
+      preVerificationGas: '0x10000',
+      maxFeePerGas: '0x3b9aca00',
+      maxPriorityFeePerGas: '0x3b9aca00',
+      paymasterVerificationGasLimit: '0x10000',
+      paymasterPostOpGasLimit: '0x0'
+    }, DEFAULT_ENTRY_POINT, '0x7a69', {}], String(CHAIN_ID)),
+    (error: unknown) => error instanceof RpcError &&
+      error.code === RpcErrorCode.SponsorshipRejected &&
+      (error.data as { policy: string }).policy === 'deposit'
+  )
+})
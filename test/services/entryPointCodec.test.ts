@@ -0,0 +1,130 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { ethers } from 'ethers'
+import { getUserOperationHash } from 'viem/account-abstraction'
+import { getEntryPointCodec } from '../../src/services/entryPointCodec.js'
+import { ENTRY_POINT_ADDRESSES } from '../../src/config/index.js'
+
+const CHAIN_ID = 31337
+const PAYMASTER = '0x00000000000000000000000000000000000000aa'
+
+const userOp = {
+  sender: '0x00000000000000000000000000000000000000cc',
+  nonce: '0x5',
+  factory: '0x00000000000000000000000000000000000000ff',
+  factoryData: '0x1234',
+  initCode: '0x00000000000000000000000000000000000000ff1234',
+  callData: '0xdeadbeef',
+  callGasLimit: '0x10000',
+  verificationGasLimit: '0x20000',
+  preVerificationGas: '0x30000',
+  maxFeePerGas: '0x3b9aca00',
+  maxPriorityFeePerGas: '0x1000',
+  paymasterAndData: '0x',
+  signature: '0x'
+}
+
+function toBigInts (op: typeof userOp) {
+  return {
+    sender: op.sender as `0x${string}`,
+    nonce: BigInt(op.nonce),
+    factory: op.factory as `0x${string}`,
+    factoryData: op.factoryData as `0x${string}`,
+    initCode: op.initCode as `0x${string}`,
+    callData: op.callData as `0x${string}`,
+    callGasLimit: BigInt(op.callGasLimit),
+    verificationGasLimit: BigInt(op.verificationGasLimit),
+    preVerificationGas: BigInt(op.preVerificationGas),
+    maxFeePerGas: BigInt(op.maxFeePerGas),
+    maxPriorityFeePerGas: BigInt(op.maxPriorityFeePerGas),
+    paymasterAndData: op.paymasterAndData as `0x${string}`,
+    signature: op.signature as `0x${string}`
+  }
+}
+
+test('v0.6 userOpHash matches viem', () => {
+  const codec = getEntryPointCodec('0.6')
+  const paymasterAndData = codec.packPaymasterAndData(PAYMASTER, 0, 0, '0x01')
+
+  assert.equal(
+    codec.getUserOpHash(userOp, paymasterAndData, ENTRY_POINT_ADDRESSES['0.6'], CHAIN_ID),
+    getUserOperationHash({
+      chainId: CHAIN_ID,
+      entryPointAddress: ENTRY_POINT_ADDRESSES['0.6'] as `0x${string}`,
+      entryPointVersion: '0.6',
+      userOperation: { ...toBigInts(userOp), paymasterAndData: paymasterAndData as `0x${string}` }
+    })
+  )
+  assert.equal(ethers.dataLength(paymasterAndData), 21)
+})
+
+test('v0.7 userOpHash matches viem', () => {
+  const codec = getEntryPointCodec('0.7')
+  const paymasterAndData = codec.packPaymasterAndData(PAYMASTER, 0x4000, 0x5000, '0x01')
+
+  assert.equal(
+    codec.getUserOpHash(userOp, paymasterAndData, ENTRY_POINT_ADDRESSES['0.7'], CHAIN_ID),
+    getUserOperationHash({
+      chainId: CHAIN_ID,
+      entryPointAddress: ENTRY_POINT_ADDRESSES['0.7'] as `0x${string}`,
+      entryPointVersion: '0.7',
+      userOperation: {
+        ...toBigInts(userOp),
+        paymaster: PAYMASTER,
+        paymasterVerificationGasLimit: 0x4000n,
+        paymasterPostOpGasLimit: 0x5000n,
+        paymasterData: '0x01'
+      }
+    })
+  )
+})
+
+test('v0.8 userOpHash is the EIP-712 hash of the packed op', () => {
+  const codec = getEntryPointCodec('0.8')
+  const paymasterAndData = codec.packPaymasterAndData(PAYMASTER, 0x4000, 0x5000, '0x01')
+
+  const expected = ethers.TypedDataEncoder.hash(
+    { name: 'ERC4337', version: '1', chainId: CHAIN_ID, verifyingContract: ENTRY_POINT_ADDRESSES['0.8'] },
+    {
+      PackedUserOperation: [
+        { name: 'sender', type: 'address' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'initCode', type: 'bytes' },
+        { name: 'callData', type: 'bytes' },
+        { name: 'accountGasLimits', type: 'bytes32' },
+        { name: 'preVerificationGas', type: 'uint256' },
+        { name: 'gasFees', type: 'bytes32' },
+        { name: 'paymasterAndData', type: 'bytes' }
+      ]
+    },
+    {
+      sender: userOp.sender,
+      nonce: userOp.nonce,
+      initCode: userOp.initCode,
+      callData: userOp.callData,
+      accountGasLimits: ethers.toBeHex((0x20000n << 128n) | 0x10000n, 32),
+      preVerificationGas: userOp.preVerificationGas,
+      gasFees: ethers.toBeHex((0x1000n << 128n) | 0x3b9aca00n, 32),
+      paymasterAndData
+    }
+  )
+
+  assert.equal(codec.getUserOpHash(userOp, paymasterAndData, ENTRY_POINT_ADDRESSES['0.8'], CHAIN_ID), expected)
+})
+
+test('v0.8 userOpHash hashes EIP-7702 initCode over the authorized delegate', () => {
+  const codec = getEntryPointCodec('0.8')
+  const delegate = '0x00000000000000000000000000000000000000ee'
+  const eip7702Op = {
+    ...userOp,
+    factory: '0x7702',
+    factoryData: '0x',
+    eip7702Auth: { chainId: '0x7a69', address: delegate, nonce: '0x0', yParity: '0x0', r: '0x0', s: '0x0' }
+  }
+  const plainOp = { ...userOp, factory: delegate, factoryData: '0x' }
+
+  assert.equal(
+    codec.getUserOpHash(eip7702Op, '0x', ENTRY_POINT_ADDRESSES['0.8'], CHAIN_ID),
+    codec.getUserOpHash(plainOp, '0x', ENTRY_POINT_ADDRESSES['0.8'], CHAIN_ID)
+  )
+})
@@ -0,0 +1,108 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import * as http from 'node:http'
+import { AddressInfo } from 'node:net'
+import { ethers } from 'ethers'
+import { ExchangeRateOracle, getCostInToken, priceToExchangeRate } from '../../src/services/exchangeRateOracle.js'
+import { startMockRpc } from '../mockRpc.js'
+
+const CHAIN_ID = 31337
+const TOKEN = ethers.getAddress('0x00000000000000000000000000000000000000bb')
+const AGGREGATOR = ethers.getAddress('0x00000000000000000000000000000000000000dd')
+const aggregatorInterface = new ethers.Interface([
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)'
+])
+// HTTP and static rates never touch the chain
+const offlineProvider = new ethers.JsonRpcProvider('http://127.0.0.1:1', CHAIN_ID, { staticNetwork: true })
+
+async function startPriceFeed (t: { after: (fn: () => unknown) => void }, feed: { status: number, body: unknown }) {
+  const requests: string[] = []
+  const server = http.createServer((req, res) => {
+    requests.push(req.url!)
+    res.statusCode = feed.status
+    res.setHeader('content-type', 'application/json')
+    res.end(JSON.stringify(feed.body))
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  t.after(() => new Promise<void>((resolve) => server.close(() => resolve())))
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/price`, requests }
+}
+
+test('converts prices in either direction into token units per 1e18 wei', () => {
+  // 3000 USDC (6 decimals) per ETH, quoted with 8 decimals
+  assert.equal(priceToExchangeRate(3000n * 10n ** 8n, 8, 6), 3000n * 10n ** 6n)
+  // 0.0005 ETH per token (18 decimals), i.e. 2000 tokens per ETH
+  assert.equal(priceToExchangeRate(5n * 10n ** 14n, 18, 18, true), 2000n * 10n ** 18n)
+  assert.throws(() => priceToExchangeRate(0n, 8, 6), /positive/)
+})
+
+test('reads a Chainlink aggregator and applies the markup', async (t) => {
+  const now = Math.floor(Date.now() / 1000)
+  const node = await startMockRpc(CHAIN_ID, {
+    eth_call: ([tx]) => tx.data === aggregatorInterface.getFunction('decimals')!.selector
+      ? aggregatorInterface.encodeFunctionResult('decimals', [8])
+      : aggregatorInterface.encodeFunctionResult('latestRoundData', [1n, 2500n * 10n ** 8n, now, now, 1n])
+  })
+  t.after(() => node.close())
+  const provider = new ethers.JsonRpcProvider(node.url, CHAIN_ID, { staticNetwork: true })
+  t.after(async () => provider.destroy())
+
+  const oracle = new ExchangeRateOracle({
+    [TOKEN]: { rate: { type: 'chainlink', aggregator: AGGREGATOR }, decimals: 6, markupPercent: 5 }
+  }, provider)
+  const quote = await oracle.getRate(TOKEN)
+
+  assert.equal(quote.sourceRate, 2500n * 10n ** 6n)
+  assert.equal(quote.exchangeRate, 2625n * 10n ** 6n)
+  assert.equal(quote.source, 'chainlink')
+  assert.equal(quote.updatedAt.getTime(), now * 1000)
+})
+
+test('refuses rates older than the staleness limit', async (t) => {
+  const feed = await startPriceFeed(t, { status: 200, body: { data: { price: '3000' }, ts: Math.floor(Date.now() / 1000) - 600 } })
+  const oracle = new ExchangeRateOracle({
+    [TOKEN]: {
+      rate: { type: 'http', url: feed.url, priceField: 'data.price', updatedAtField: 'ts' },
+      decimals: 6,
+      maxAgeSeconds: 300
+    }
+  }, offlineProvider)
+
+  await assert.rejects(oracle.getRate(TOKEN), /stale/)
+})
+
+test('caches HTTP feed rates and serves the cached one while the feed is down', async (t) => {
+  const feed = { status: 200, body: { price: 3000.5 } as unknown }
+  const { url, requests } = await startPriceFeed(t, feed)
+  const oracle = new ExchangeRateOracle({
+    [TOKEN]: { rate: { type: 'http', url }, decimals: 6, cacheTtlSeconds: 0 }
+  }, offlineProvider)
+
+  const first = await oracle.getRate(TOKEN)
+  feed.status = 503
+  const second = await oracle.getRate(TOKEN)
+
+  assert.equal(first.exchangeRate, 3000500000n)
+  assert.equal(second.exchangeRate, first.exchangeRate)
+  assert.equal(requests.length, 2)
+
+  const cachedOracle = new ExchangeRateOracle({ [TOKEN]: { rate: { type: 'http', url }, decimals: 6 } }, offlineProvider)
+  feed.status = 200
+  await cachedOracle.getRate(TOKEN)
+  await cachedOracle.getRate(TOKEN)
+  assert.equal(requests.length, 3)
+})
+
+test('rejects token configs that cannot produce a rate', () => {
+  assert.throws(() => new ExchangeRateOracle({ [TOKEN]: { exchangeRate: '0' } }, offlineProvider), /Invalid exchange rate/)
+  assert.throws(
+    () => new ExchangeRateOracle({ [TOKEN]: { rate: { type: 'chainlink', aggregator: AGGREGATOR } } }, offlineProvider),
+    /needs decimals/
+  )
+})
+
+test('computes token cost as the contract does', () => {
+  // (1e15 wei + 40000 gas * 1 gwei) at 3000 tokens (6 decimals) per 1e18 wei
+  assert.equal(getCostInToken(10n ** 15n, 40000n, 10n ** 9n, 3000n * 10n ** 6n), 3120000n)
+})
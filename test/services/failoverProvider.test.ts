@@ -0,0 +1,107 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { FailoverJsonRpcProvider } from '../../src/services/failoverProvider.js'
+import { MockRpcError, startMockRpc } from '../mockRpc.js'
+
+const CHAIN_ID = 31337
+
+type TestContext = { after: (fn: () => Promise<void>) => void }
+
+async function startNode (t: TestContext, blockNumber: () => unknown) {
+  const node = await startMockRpc(CHAIN_ID, {
+    eth_blockNumber: blockNumber,
+    eth_call: () => { throw new MockRpcError(3, 'execution reverted', '0x') }
+  })
+  t.after(() => node.close())
+  return node
+}
+
+function failing () {
+  throw new MockRpcError(-32603, 'internal error')
+}
+
+function createProvider (t: TestContext, urls: string[], config: ConstructorParameters<typeof FailoverJsonRpcProvider>[2] = {}) {
+  const provider = new FailoverJsonRpcProvider(urls, CHAIN_ID, { backoffMs: 0, ...config })
+  t.after(async () => provider.destroy())
+  return provider
+}
+
+test('fails over to the next endpoint and lets reverts through', async (t) => {
+  const down = await startNode(t, failing)
+  const up = await startNode(t, () => '0x10')
+  const provider = createProvider(t, [down.url, up.url])
+
+  assert.equal(await provider.send('eth_blockNumber', []), '0x10')
+  await assert.rejects(provider.call({ to: '0x00000000000000000000000000000000000000aa', data: '0x' }), /revert/)
+
+  // The first endpoint's revert is an answer, not a node failure, so it is not retried elsewhere
+  assert.deepStrictEqual(down.calls, ['eth_blockNumber', 'eth_call'])
+  assert.deepStrictEqual(up.calls, ['eth_blockNumber'])
+})
+
+test('takes a failing endpoint out of rotation and reports it', async (t) => {
+  const down = await startNode(t, failing)
+  const up = await startNode(t, () => '0x10')
+  const provider = createProvider(t, [`${down.url}/v2/secret-key`, up.url], {
+    retries: 0,
+    circuitBreaker: { failureThreshold: 2, cooldownSeconds: 60 }
+  })
+
+  for (let i = 0; i < 4; i++) {
+    await provider.send('eth_blockNumber', [])
+  }
+
+  assert.equal(down.calls.length, 2)
+  assert.equal(up.calls.length, 4)
+  const [downHealth, upHealth] = provider.getHealth().endpoints
+  assert.equal(downHealth.url, `${new URL(down.url).origin}/***`)
+  assert.equal(downHealth.state, 'open')
+  assert.equal(downHealth.failures, 2)
+  assert.match(downHealth.lastError!, /-32603/)
+  assert.equal(upHealth.state, 'closed')
+  assert.equal(upHealth.requests, 4)
+})
+
+test('lets a single trial request through a half-open circuit at a time', async (t) => {
+  let recovered = false
+  const flaky = await startNode(t, () => recovered ? new Promise((resolve) => setTimeout(() => resolve('0x11'), 200)) : failing())
+  const up = await startNode(t, () => '0x10')
+  const provider = createProvider(t, [flaky.url, up.url], {
+    retries: 0,
+    circuitBreaker: { failureThreshold: 1, cooldownSeconds: 0.1 }
+  })
+
+  assert.equal(await provider.send('eth_blockNumber', []), '0x10')
+  await new Promise((resolve) => setTimeout(resolve, 150))
+  assert.equal(provider.getHealth().endpoints[0].state, 'halfOpen')
+  recovered = true
+
+  const answers = await Promise.all([provider.send('eth_blockNumber', []), provider.send('eth_blockNumber', [])])
+
+  assert.deepStrictEqual(answers, ['0x11', '0x10'])
+  assert.equal(flaky.calls.length, 2)
+  assert.equal(provider.getHealth().endpoints[0].state, 'closed')
+})
+
+test('times out hung endpoints and retries after all endpoints failed', async (t) => {
+  let attempts = 0
+  const hung = await startNode(t, () => new Promise(() => {}))
+  const flaky = await startNode(t, () => ++attempts < 2 ? failing() : '0x20')
+  const provider = createProvider(t, [hung.url, flaky.url], { timeoutMs: 200, retries: 1 })
+
+  assert.equal(await provider.send('eth_blockNumber', []), '0x20')
+  assert.equal(hung.calls.length, 2)
+  assert.match(provider.getHealth().endpoints[0].lastError!, /timeout/)
+})
+
+test('returns the answer a quorum of endpoints agrees on', async (t) => {
+  const a = await startNode(t, () => '0x10')
+  const b = await startNode(t, () => '0x10')
+  const c = await startNode(t, () => '0x11')
+
+  const majority = createProvider(t, [a.url, b.url, c.url], { strategy: 'quorum' })
+  assert.equal(await majority.send('eth_blockNumber', []), '0x10')
+
+  const unanimous = createProvider(t, [a.url, b.url, c.url], { strategy: 'quorum', quorum: 3, retries: 0 })
+  await assert.rejects(unanimous.send('eth_blockNumber', []), /quorum of 3 not reached: 2\/1/)
+})
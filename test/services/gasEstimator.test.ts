@@ -0,0 +1,129 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { ethers } from 'ethers'
+import { PaymasterService } from '../../src/services/paymasterService.js'
+import { PaymasterGasEstimator } from '../../src/services/gasEstimator.js'
+import { getEntryPointCodec } from '../../src/services/entryPointCodec.js'
+import { paymasterInterface } from '../../src/services/paymasterVerifier.js'
+import { PaymasterMode } from '../../src/types/paymaster.js'
+import { UserOperation } from '../../src/types/userOperation.js'
+import { DEFAULT_ENTRY_POINT } from '../../src/config/index.js'
+import { MockRpcError, startMockRpc } from '../mockRpc.js'
+
+const CHAIN_ID = 31337
+const PAYMASTER = '0x00000000000000000000000000000000000000aa'
+const TOKEN = '0x00000000000000000000000000000000000000dd'
+const codec = getEntryPointCodec('0.7')
+const iface = paymasterInterface(codec)
+const signersSelector = ethers.id('signers(address)').slice(0, 10)
+
+const userOp: UserOperation = {
+  sender: '0x00000000000000000000000000000000000000cc',
+  nonce: '0x0',
+  callData: '0xdeadbeef',
+  callGasLimit: '0x10000',
+  verificationGasLimit: '0x10000',
+  preVerificationGas: '0x10000',
+  maxFeePerGas: '0x3b9aca00',
+  maxPriorityFeePerGas: '0x3b9aca00',
+  signature: '0x'
+}
+
+function txGas (data: string, executionGas: number): string {
+  let gas = 21000 + executionGas
+  for (const byte of ethers.getBytes(data)) {
+    gas += byte === 0 ? 4 : 16
+  }
+  return ethers.toQuantity(gas)
+}
+
+// Validation costs 30000 gas and postOp 40000 gas on this stand-in paymaster, plus 10000 the EntryPoint adds to validation
+async function startPaymasterNode (t: { after: (fn: () => Promise<void>) => void }, postOpReverts = false) {
+  const simulated: string[] = []
+  const node = await startMockRpc(CHAIN_ID, {
+    eth_estimateGas: ([tx]) => {
+      const { name, args } = iface.parseTransaction({ data: tx.data })!
+      if (name === 'validatePaymasterUserOp') {
+        simulated.push(args[0].paymasterAndData)
+      }
+      if (name === 'postOp' && postOpReverts) {
+        throw new MockRpcError(3, 'execution reverted', '0x')
+      }
+      return txGas(tx.data, name === 'postOp' ? 40000 : 30000)
+    },
+    eth_call: ([tx]) => tx.data.startsWith(signersSelector)
+      ? ethers.AbiCoder.defaultAbiCoder().encode(['bool'], [true])
+      : iface.encodeFunctionResult('validatePaymasterUserOp', ['0x1234', 0])
+  })
+  t.after(() => node.close())
+  return Object.assign(node, { simulated })
+}
+
+function estimateRequest (provider: ethers.Provider, mode: PaymasterMode) {
+  return {
+    cacheKey: `${CHAIN_ID}:${mode}`,
+    provider,
+    paymaster: PAYMASTER,
+    entryPoint: DEFAULT_ENTRY_POINT,
+    codec,
+    mode,
+    userOp,
+    chainId: CHAIN_ID,
+    maxCost: 10n ** 15n,
+    stubPaymasterAndData: (verificationGasLimit: bigint, postOpGasLimit: bigint) =>
+      codec.packPaymasterAndData(PAYMASTER, verificationGasLimit, postOpGasLimit, '0x01')
+  }
+}
+
+test('stub data carries simulated limits and no postOp gas for free sponsorship', async (t) => {
+  const node = await startPaymasterNode(t)
+  const service = new PaymasterService({
+    paymasterPrivateKey: ethers.Wallet.createRandom().privateKey,
+    chains: { [CHAIN_ID]: { paymasterAddress: PAYMASTER, rpc: node.url } }
+  })
+
+  const res = await service.getPaymasterStubData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', {}], String(CHAIN_ID))
+
+  assert.equal(res.result.paymasterVerificationGasLimit, ethers.toQuantity(48000))
+  assert.equal(res.result.paymasterPostOpGasLimit, '0x0')
+})
+
+test('simulates with the unsigned, expired stub data rather than a real signature', async (t) => {
+  const node = await startPaymasterNode(t)
+  const service = new PaymasterService({
+    paymasterPrivateKey: ethers.Wallet.createRandom().privateKey,
+    chains: { [CHAIN_ID]: { paymasterAddress: PAYMASTER, rpc: node.url, tokens: { [TOKEN]: { exchangeRate: '3000000000' } } } }
+  })
+
+  for (const context of [{}, { token: TOKEN }]) {
+    const res = await service.getPaymasterStubData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', context], String(CHAIN_ID))
+    assert.equal(ethers.dataSlice(node.simulated.at(-1)!, 52), res.result.paymasterData)
+  }
+  assert.equal(node.simulated.length, 2)
+})
+
+test('token mode simulates postOp with the configured multiplier and caches the result', async (t) => {
+  const node = await startPaymasterNode(t)
+  const provider = new ethers.JsonRpcProvider(node.url, CHAIN_ID, { staticNetwork: true })
+  t.after(() => provider.destroy())
+  const estimator = new PaymasterGasEstimator({ multiplier: 1.5 })
+
+  const limits = await estimator.estimate(estimateRequest(provider, PaymasterMode.Erc20))
+  const estimateCalls = node.calls.filter((method) => method === 'eth_estimateGas').length
+  const cached = await estimator.estimate(estimateRequest(provider, PaymasterMode.Erc20))
+
+  assert.deepStrictEqual(limits, { verificationGasLimit: 60000n, postOpGasLimit: 60000n })
+  assert.deepStrictEqual(cached, limits)
+  assert.equal(node.calls.filter((method) => method === 'eth_estimateGas').length, estimateCalls)
+})
+
+test('falls back to the configured postOp limit when postOp cannot be simulated', async (t) => {
+  const node = await startPaymasterNode(t, true)
+  const provider = new ethers.JsonRpcProvider(node.url, CHAIN_ID, { staticNetwork: true })
+  t.after(() => provider.destroy())
+  const estimator = new PaymasterGasEstimator({ multiplier: 1, fallbackPostOpGasLimit: 70000 })
+
+  const limits = await estimator.estimate(estimateRequest(provider, PaymasterMode.Erc20))
+
+  assert.deepStrictEqual(limits, { verificationGasLimit: 40000n, postOpGasLimit: 70000n })
+})
@@ -0,0 +1,101 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { ethers } from 'ethers'
+import { GasPriceOracle } from '../../src/services/gasPriceOracle.js'
+import { GasPriceConfig } from '../../src/config/index.js'
+import { MockRpcError, startMockRpc } from '../mockRpc.js'
+
+const CHAIN_ID = 31337
+const GWEI = 1_000_000_000n
+
+// Three blocks at a 10 gwei base fee rising to 12 gwei, the middle one empty
+const feeHistory = {
+  oldestBlock: '0x64',
+  baseFeePerGas: ['0x2540be400', '0x2540be400', '0x2540be400', ethers.toQuantity(12n * GWEI)],
+  gasUsedRatio: [0.5, 0, 0.9],
+  reward: [
+    [ethers.toQuantity(1n * GWEI), ethers.toQuantity(2n * GWEI), ethers.toQuantity(3n * GWEI)],
+    ['0x0', '0x0', '0x0'],
+    [ethers.toQuantity(3n * GWEI), ethers.toQuantity(4n * GWEI), ethers.toQuantity(5n * GWEI)]
+  ]
+}
+
+async function startOracle (
+  t: { after: (fn: () => Promise<void> | void) => void },
+  config: GasPriceConfig = {},
+  feeHistoryFails = false
+) {
+  const node = await startMockRpc(CHAIN_ID, {
+    eth_feeHistory: () => {
+      if (feeHistoryFails) {
+        throw new MockRpcError(-32601, 'the method eth_feeHistory does not exist')
+      }
+      return feeHistory
+    },
+    eth_gasPrice: () => ethers.toQuantity(20n * GWEI)
+  })
+  const provider = new ethers.JsonRpcProvider(node.url, CHAIN_ID, { staticNetwork: true })
+  t.after(() => provider.destroy())
+  t.after(() => node.close())
+  return { node, oracle: new GasPriceOracle(provider, config) }
+}
+
+test('derives tiers from fee history percentiles, ignoring empty blocks', async (t) => {
+  const { oracle } = await startOracle(t)
+
+  const tiers = await oracle.getTiers()
+
+  assert.deepStrictEqual(tiers.slow, { maxPriorityFeePerGas: 2n * GWEI, maxFeePerGas: 12n * GWEI * 12n / 10n + 2n * GWEI })
+  assert.deepStrictEqual(tiers.standard, { maxPriorityFeePerGas: 3n * GWEI, maxFeePerGas: 18n * GWEI + 3n * GWEI })
+  assert.deepStrictEqual(tiers.fast, { maxPriorityFeePerGas: 4n * GWEI, maxFeePerGas: 24n * GWEI + 4n * GWEI })
+})
+
+test('reports the sampled blocks in the snapshot', async (t) => {
+  const { oracle } = await startOracle(t)
+
+  const snapshot = await oracle.getSnapshot()
+
+  assert.strictEqual(snapshot.baseFeePerGas, 12n * GWEI)
+  assert.deepStrictEqual(snapshot.history.map((entry) => entry.blockNumber), [100, 101, 102])
+  assert.deepStrictEqual(snapshot.history[2].priorityFees, [3n * GWEI, 4n * GWEI, 5n * GWEI])
+})
+
+test('caches the snapshot until the TTL expires', async (t) => {
+  const { node, oracle } = await startOracle(t, { cacheTtlSeconds: 60 })
+
+  await Promise.all([oracle.getTiers(), oracle.getTiers()])
+  await oracle.getTiers()
+
+  assert.strictEqual(node.calls.filter((method) => method === 'eth_feeHistory').length, 1)
+})
+
+test('clamps tiers to the configured floor and ceiling', async (t) => {
+  const { oracle } = await startOracle(t, {
+    floor: { maxPriorityFeePerGas: ethers.toQuantity(3n * GWEI) },
+    ceiling: { maxFeePerGas: (20n * GWEI).toString() }
+  })
+
+  const tiers = await oracle.getTiers()
+
+  assert.strictEqual(tiers.slow.maxPriorityFeePerGas, 3n * GWEI)
+  assert.strictEqual(tiers.standard.maxFeePerGas, 20n * GWEI)
+  assert.strictEqual(tiers.fast.maxFeePerGas, 20n * GWEI)
+})
+
+test('uses eth_gasPrice on legacy chains', async (t) => {
+  const { node, oracle } = await startOracle(t, { legacy: true })
+
+  const snapshot = await oracle.getSnapshot()
+
+  assert.strictEqual(snapshot.baseFeePerGas, null)
+  assert.deepStrictEqual(snapshot.tiers.standard, { maxFeePerGas: 22n * GWEI, maxPriorityFeePerGas: 22n * GWEI })
+  assert.ok(!node.calls.includes('eth_feeHistory'))
+})
+
+test('falls back to eth_gasPrice when eth_feeHistory is unsupported', async (t) => {
+  const { oracle } = await startOracle(t, {}, true)
+
+  const tiers = await oracle.getTiers()
+
+  assert.deepStrictEqual(tiers.fast, { maxFeePerGas: 25n * GWEI, maxPriorityFeePerGas: 25n * GWEI })
+})
@@ -0,0 +1,59 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { PaymasterMetrics } from '../../src/services/metrics.js'
+import { rejectSponsorship } from '../../src/services/policyService.js'
+import { PaymasterMode } from '../../src/types/paymaster.js'
+import { serializeRequest } from '../../src/utils/logger.js'
+
+function rejection (policy: string): unknown {
+  try {
+    rejectSponsorship(policy, 'test')
+  } catch (error) {
+    return error
+  }
+}
+
+test('counts policy rejections by the policy that refused the op', async () => {
+  const metrics = new PaymasterMetrics()
+
+  metrics.observeRequest('pm_getPaymasterData', '1', 0.01, rejection('maxGasCost'))
+  metrics.observeRequest('pm_getPaymasterData', '1', 0.01, new Error('boom'))
+  metrics.recordSignature('1', PaymasterMode.Erc20)
+  const text = await metrics.registry.metrics()
+
+  assert.match(text, /paymaster_policy_rejections_total\{chain_id="1",policy="maxGasCost"\} 1/)
+  assert.match(text, /paymaster_errors_total\{method="pm_getPaymasterData",chain_id="1",code="-32001"\} 1/)
+  assert.match(text, /paymaster_errors_total\{method="pm_getPaymasterData",chain_id="1",code="-32603"\} 1/)
+  assert.match(text, /paymaster_signatures_issued_total\{chain_id="1",mode="erc20"\} 1/)
+})
+
+test('reads deposit and stake gauges from the last polled funding', async () => {
+  const metrics = new PaymasterMetrics(() => [{
+    chainId: '1',
+    funding: [{
+      entryPoint: '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
+      entryPointVersion: '0.7',
+      paymaster: '0x00000000000000000000000000000000000000aa',
+      deposit: 15n * 10n ** 17n,
+      staked: true,
+      stake: 10n ** 18n,
+      unstakeDelaySec: 86400,
+      withdrawTime: 0,
+      treasury: null,
+      contractEntryPoint: null,
+      alerts: [],
+      updatedAt: new Date()
+    }]
+  }])
+
+  const text = await metrics.registry.metrics()
+
+  assert.match(text, /paymaster_deposit_ether\{chain_id="1",entry_point="0x0000000071727De22E5E9d8BAf0edAc6f37da032",paymaster="0x00000000000000000000000000000000000000aa"\} 1.5/)
+  assert.match(text, /paymaster_stake_ether\{[^}]*\} 1\n/)
+})
+
+test('masks API keys in logged request URLs', () => {
+  const serialized = serializeRequest({ method: 'POST', url: '/paymaster/1?foo=1&apiKey=secret' })
+
+  assert.equal(serialized.url, '/paymaster/1?foo=1&apiKey=[redacted]')
+})
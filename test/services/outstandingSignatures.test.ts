@@ -0,0 +1,131 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { ethers } from 'ethers'
+import { PaymasterService } from '../../src/services/paymasterService.js'
+import { InMemoryOutstandingSignatureStore, OutstandingSignatureTracker } from '../../src/services/outstandingSignatures.js'
+import { RpcError, RpcErrorCode } from '../../src/errors/rpcError.js'
+import { DEFAULT_ENTRY_POINT } from '../../src/config/index.js'
+import { startMockRpc } from '../mockRpc.js'
+
+const CHAIN_ID = 31337
+const PAYMASTER = '0x00000000000000000000000000000000000000aa'
+const SENDER = ethers.getAddress('0x00000000000000000000000000000000000000cc')
+const entryPointInterface = new ethers.Interface([
+  'function getNonce(address sender, uint192 key) view returns (uint256 nonce)'
+])
+
+const userOp = {
+  sender: SENDER,
+  nonce: '0x0',
+  callData: '0x',
+  callGasLimit: '0x10000',
+  verificationGasLimit: '0x10000',
+  preVerificationGas: '0x10000',
+  maxFeePerGas: '0x3b9aca00',
+  maxPriorityFeePerGas: '0x3b9aca00',
+  paymasterVerificationGasLimit: '0x20000',
+  paymasterPostOpGasLimit: '0x10000'
+}
+
+// A chain whose EntryPoint nonce for the sender can be advanced between requests
+async function startService (t: { after: (fn: () => Promise<void>) => void }, chain: { nonce: bigint }, maxPerSender?: number) {
+  const node = await startMockRpc(CHAIN_ID, {
+    eth_call: () => entryPointInterface.encodeFunctionResult('getNonce', [chain.nonce])
+  })
+  t.after(() => node.close())
+  const service = new PaymasterService({
+    paymasterPrivateKey: ethers.Wallet.createRandom().privateKey,
+    chains: {
+      [CHAIN_ID]: { paymasterAddress: PAYMASTER, rpc: node.url, signerCheck: { enabled: false }, outstanding: { maxPerSender } }
+    }
+  })
+  t.after(async () => service.close())
+  return { node, service }
+}
+
+function requestData (service: PaymasterService, op: typeof userOp) {
+  return service.getPaymasterData(1, [op, DEFAULT_ENTRY_POINT, '0x7a69', {}], String(CHAIN_ID))
+}
+
+test('returns the outstanding signature for a repeated request', async (t) => {
+  const { service } = await startService(t, { nonce: 0n })
+
+  const first = await requestData(service, userOp)
+  await new Promise((resolve) => setTimeout(resolve, 1100))
+  const second = await requestData(service, userOp)
+  const changed = await requestData(service, { ...userOp, callData: '0x1234' })
+
+  assert.deepStrictEqual(second.result, first.result)
+  assert.notDeepStrictEqual(changed.result, first.result)
+})
+
+test('caps the signatures a sender holds until their nonces are used on-chain', async (t) => {
+  const chain = { nonce: 0n }
+  const { node, service } = await startService(t, chain, 2)
+
+  await requestData(service, { ...userOp, nonce: '0x0' })
+  await requestData(service, { ...userOp, nonce: '0x1' })
+  // Re-signing a nonce replaces its signature rather than adding one
+  await requestData(service, { ...userOp, nonce: '0x1', callData: '0x1234' })
+  assert.equal(node.calls.filter((method) => method === 'eth_call').length, 0)
+
+  await assert.rejects(
+    requestData(service, { ...userOp, nonce: '0x2' }),
+    (error: unknown) => error instanceof RpcError &&
+      error.code === RpcErrorCode.SponsorshipRejected &&
+      (error.data as { policy: string }).policy === 'outstanding'
+  )
+
+  chain.nonce = 1n
+  const res = await requestData(service, { ...userOp, nonce: '0x2' })
+  assert.ok(res.result.paymasterData)
+})
+
+test('holds concurrent requests to the cap', async (t) => {
+  const { service } = await startService(t, { nonce: 0n }, 2)
+
+  const results = await Promise.allSettled(
+    Array.from({ length: 10 }, (_, nonce) => requestData(service, { ...userOp, nonce: ethers.toQuantity(nonce) }))
+  )
+
+  assert.equal(results.filter((result) => result.status === 'fulfilled').length, 2)
+  // A refused request gives its place back
+  await assert.rejects(requestData(service, { ...userOp, nonce: '0xa' }), /unused sponsorships/)
+  await requestData(service, { ...userOp, nonce: '0x0' })
+})
+
+test('drops signatures past their validity window', async () => {
+  const tracker = new OutstandingSignatureTracker()
+  const signature = {
+    chainId: String(CHAIN_ID),
+    entryPoint: DEFAULT_ENTRY_POINT,
+    sender: SENDER,
+    fingerprint: ethers.id('op'),
+    result: {}
+  }
+  await tracker.record({ ...signature, nonce: 0n, validUntil: Math.floor(Date.now() / 1000) - 1 })
+  await tracker.record({ ...signature, nonce: 1n, validUntil: Math.floor(Date.now() / 1000) + 60 })
+
+  assert.equal(await tracker.find(String(CHAIN_ID), DEFAULT_ENTRY_POINT, SENDER, 0n, ethers.id('op')), undefined)
+  assert.equal(await tracker.countOutstanding(String(CHAIN_ID), DEFAULT_ENTRY_POINT, SENDER, 2n), 1)
+})
+
+test('sweeps the expired signatures of senders that do not come back', async () => {
+  const store = new InMemoryOutstandingSignatureStore()
+  const tracker = new OutstandingSignatureTracker(store)
+  const signature = {
+    chainId: String(CHAIN_ID),
+    entryPoint: DEFAULT_ENTRY_POINT,
+    fingerprint: ethers.id('op'),
+    nonce: 0n,
+    result: {}
+  }
+  const other = ethers.getAddress('0x00000000000000000000000000000000000000dd')
+  await tracker.record({ ...signature, sender: SENDER, validUntil: Math.floor(Date.now() / 1000) - 1 })
+  await tracker.record({ ...signature, sender: other, validUntil: Math.floor(Date.now() / 1000) + 60 })
+
+  await tracker.sweep()
+
+  assert.deepStrictEqual(await store.listBySender(String(CHAIN_ID), SENDER), [])
+  assert.equal((await store.listBySender(String(CHAIN_ID), other)).length, 1)
+})
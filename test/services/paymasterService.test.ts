@@ -0,0 +1,258 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { mkdtemp } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import * as path from 'node:path'
+import { ethers } from 'ethers'
+import { PaymasterService } from '../../src/services/paymasterService.js'
+import { RpcError, RpcErrorCode } from '../../src/errors/rpcError.js'
+import { getEntryPointCodec } from '../../src/services/entryPointCodec.js'
+import { paymasterInterface } from '../../src/services/paymasterVerifier.js'
+import { DEFAULT_ENTRY_POINT, ENTRY_POINT_ADDRESSES, PaymasterConfig } from '../../src/config/index.js'
+import { startMockRpc } from '../mockRpc.js'
+
+const CHAIN_ID = '31337'
+const PAYMASTER = '0x00000000000000000000000000000000000000aa'
+const PAYMASTER_V6 = '0x00000000000000000000000000000000000000a6'
+const TOKEN = '0x00000000000000000000000000000000000000bb'
+
+function buildConfig (): PaymasterConfig {
+  return {
+    paymasterPrivateKey: ethers.Wallet.createRandom().privateKey,
+    chains: {
+      [CHAIN_ID]: {
+        paymasterAddress: PAYMASTER,
+        rpc: 'http://127.0.0.1:1',
+        signerCheck: { enabled: false },
+        paymasters: [
+          { paymasterAddress: PAYMASTER_V6, entryPointVersion: '0.6' }
+        ],
+        tokens: {
+          [TOKEN]: { exchangeRate: '3000000000', postOpGas: 42000 }
+        }
+      }
+    }
+  }
+}
+
+const userOp = {
+  sender: '0x00000000000000000000000000000000000000cc',
+  nonce: '0x0',
+  callData: '0x',
+  callGasLimit: '0x10000',
+  verificationGasLimit: '0x10000',
+  preVerificationGas: '0x10000',
+  maxFeePerGas: '0x3b9aca00',
+  maxPriorityFeePerGas: '0x3b9aca00',
+  paymasterVerificationGasLimit: '0x20000',
+  paymasterPostOpGasLimit: '0x10000'
+}
+
+test('sponsors for free when the context names no token', async () => {
+  const service = new PaymasterService(buildConfig())
+
+  const res = await service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', {}], CHAIN_ID)
+  const paymasterData = ethers.getBytes(res.result.paymasterData!)
+
+  assert.equal(paymasterData[0], 0x01)
+  assert.equal(paymasterData.length, 1 + 6 + 6 + 65)
+})
+
+test('builds token mode paymasterData with token, postOpGas and exchange rate', async () => {
+  const service = new PaymasterService(buildConfig())
+
+  const res = await service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', { token: TOKEN }], CHAIN_ID)
+  const paymasterData = res.result.paymasterData!
+
+  assert.equal(ethers.dataSlice(paymasterData, 0, 1), '0x03')
+  assert.equal(ethers.getAddress(ethers.dataSlice(paymasterData, 13, 33)), ethers.getAddress(TOKEN))
+  assert.equal(BigInt(ethers.dataSlice(paymasterData, 33, 49)), 42000n)
+  assert.equal(BigInt(ethers.dataSlice(paymasterData, 49, 81)), 3000000000n)
+  assert.equal(ethers.dataLength(paymasterData), 81 + 65)
+})
+
+test('lists supported tokens with their rate and a cost quote for the op', async () => {
+  const service = new PaymasterService(buildConfig())
+
+  const listed = await service.getSupportedTokens(1, [], CHAIN_ID)
+  const quoted = await service.getSupportedTokens(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69'], CHAIN_ID)
+  const [token] = quoted.result.tokens
+
+  assert.deepStrictEqual(listed.result.tokens.map((entry) => [entry.token, entry.exchangeRate]), [
+    [ethers.getAddress(TOKEN), ethers.toQuantity(3000000000n)]
+  ])
+  // Gas limits 0x10000 * 3 + paymaster 0x30000, plus 42000 postOp gas, at 1 gwei
+  const maxCost = (0x10000n * 3n + 0x30000n + 42000n) * 10n ** 9n
+  assert.equal(BigInt(token.maxCostInToken!), maxCost * 3000000000n / 10n ** 18n)
+  assert.equal(token.source, 'static')
+})
+
+test('rejects tokens that are not configured for the chain', async () => {
+  const service = new PaymasterService(buildConfig())
+
+  await assert.rejects(
+    service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', { token: PAYMASTER }], CHAIN_ID),
+    /not supported/
+  )
+})
+
+test('rejects a sender or token with a bad address checksum as invalid params', async () => {
+  const service = new PaymasterService(buildConfig())
+  const badChecksum = ethers.getAddress('0x' + 'ab'.repeat(20)).replace(/[a-f]/, (letter) => letter.toUpperCase())
+
+  function invalidField (field: string) {
+    return (error: unknown) => error instanceof RpcError && error.code === RpcErrorCode.InvalidParams &&
+      (error.data as { field: string }).field === field
+  }
+
+  await assert.rejects(
+    service.getPaymasterData(1, [{ ...userOp, sender: badChecksum }, DEFAULT_ENTRY_POINT, '0x7a69', {}], CHAIN_ID),
+    invalidField('userOp.sender')
+  )
+  await assert.rejects(
+    service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', { token: badChecksum }], CHAIN_ID),
+    invalidField('context.token')
+  )
+})
+
+test('rejects requests for another entryPoint or chain', async () => {
+  const service = new PaymasterService(buildConfig())
+
+  await assert.rejects(
+    service.getPaymasterData(1, [userOp, PAYMASTER, '0x7a69', {}], CHAIN_ID),
+    (error: unknown) => error instanceof RpcError && error.code === RpcErrorCode.InvalidParams
+  )
+  await assert.rejects(
+    service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x1', {}], CHAIN_ID),
+    (error: unknown) => error instanceof RpcError && error.code === RpcErrorCode.InvalidParams
+  )
+})
+
+test('serves v0.6 ops with a packed paymasterAndData from the v0.6 paymaster', async () => {
+  const service = new PaymasterService(buildConfig())
+  const { paymasterVerificationGasLimit, paymasterPostOpGasLimit, ...v6UserOp } = userOp
+
+  const res = await service.getPaymasterData(1, [v6UserOp, ENTRY_POINT_ADDRESSES['0.6'], '0x7a69', {}], CHAIN_ID)
+  const paymasterAndData = res.result.paymasterAndData!
+
+  assert.equal(ethers.getAddress(ethers.dataSlice(paymasterAndData, 0, 20)), ethers.getAddress(PAYMASTER_V6))
+  assert.equal(ethers.dataLength(paymasterAndData), 20 + 1 + 6 + 6 + 65)
+})
+
+test('records signed ops in the ledger under their userOpHash', async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), 'paymaster-ledger-'))
+  const service = new PaymasterService({ ...buildConfig(), ledger: { storePath: path.join(dir, 'ledger.json') } })
+
+  const res = await service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', {}], CHAIN_ID)
+  const signed = { ...userOp, signature: '0x', ...res.result }
+  const [op] = await service.ledger!.store.getSignedOps(CHAIN_ID)
+
+  assert.equal(op.userOpHash, getEntryPointCodec('0.7').getUserOpHash(signed, ethers.concat([
+    PAYMASTER,
+    ethers.toBeHex(BigInt(signed.paymasterVerificationGasLimit), 16),
+    ethers.toBeHex(BigInt(signed.paymasterPostOpGasLimit), 16),
+    signed.paymasterData!
+  ]), DEFAULT_ENTRY_POINT, Number(CHAIN_ID)))
+  assert.equal(op.sender, ethers.getAddress(userOp.sender))
+  assert.equal(op.project, null)
+})
+
+test('clears the allowAllBundlers bit and applies per-mode validity windows from the chain config', async () => {
+  const config = buildConfig()
+  config.chains[CHAIN_ID].sponsorship = {
+    validitySeconds: 600,
+    allowAllBundlers: false,
+    allowedBundlers: ['0x00000000000000000000000000000000000000b1'],
+    erc20: { validitySeconds: 120 }
+  }
+  const service = new PaymasterService(config)
+  const now = Math.floor(Date.now() / 1000)
+
+  const free = (await service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', {}], CHAIN_ID)).result.paymasterData!
+  const token = (await service.getPaymasterData(1, [{ ...userOp, nonce: '0x1' }, DEFAULT_ENTRY_POINT, '0x7a69', { token: TOKEN }], CHAIN_ID)).result.paymasterData!
+
+  assert.equal(ethers.dataSlice(free, 0, 1), '0x00')
+  assert.ok(Math.abs(Number(ethers.dataSlice(free, 1, 7)) - (now + 600)) <= 2)
+  assert.equal(ethers.dataSlice(token, 0, 1), '0x02')
+  assert.ok(Math.abs(Number(ethers.dataSlice(token, 1, 7)) - (now + 120)) <= 2)
+})
+
+test('refuses to restrict bundlers without an allowlist', () => {
+  const config = buildConfig()
+  config.chains[CHAIN_ID].sponsorship = { erc20: { allowAllBundlers: false } }
+
+  assert.throws(() => new PaymasterService(config), /allowedBundlers/)
+})
+
+test('honours a shorter validUntil from the context and clamps a longer one', async () => {
+  const service = new PaymasterService(buildConfig())
+  const now = Math.floor(Date.now() / 1000)
+  const validUntilFor = async (nonce: string, validUntil: number) => {
+    const res = await service.getPaymasterData(1, [{ ...userOp, nonce }, DEFAULT_ENTRY_POINT, '0x7a69', { validUntil }], CHAIN_ID)
+    return Number(ethers.dataSlice(res.result.paymasterData!, 1, 7))
+  }
+
+  assert.equal(await validUntilFor('0x0', now + 300), now + 300)
+  assert.ok(await validUntilFor('0x1', now + 86400) <= now + 3600 + 2)
+  await assert.rejects(
+    validUntilFor('0x2', now - 1),
+    (error: unknown) => error instanceof RpcError && error.code === RpcErrorCode.InvalidParams
+  )
+})
+
+test('reloads chains and keeps serving the old ones when the new config is unusable', async () => {
+  const service = new PaymasterService(buildConfig())
+  const reloaded = buildConfig()
+  reloaded.chains['1'] = { paymasterAddress: PAYMASTER, rpc: 'http://127.0.0.1:1', signerCheck: { enabled: false } }
+
+  service.reload(reloaded)
+  assert.ok(service.hasChain('1'))
+  await service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x1', {}], '1')
+
+  assert.throws(() => service.reload({ chains: { '10': { paymasterAddress: PAYMASTER, rpc: 'http://127.0.0.1:1' } } }), /No paymaster signer/)
+  assert.ok(service.hasChain('1'))
+  assert.ok(!service.hasChain('10'))
+  service.close()
+})
+
+test('a reload whose policies cannot be built keeps the current chains and policies', async () => {
+  const config = buildConfig()
+  config.chains[CHAIN_ID].policy = { deniedSenders: [userOp.sender] }
+  const service = new PaymasterService(config)
+  const reloaded = buildConfig()
+  reloaded.chains['5'] = { paymasterAddress: PAYMASTER, rpc: 'http://127.0.0.1:1', signerCheck: { enabled: false } }
+  // Passes the schema's address pattern, but not the checksum
+  reloaded.chains[CHAIN_ID].policy = { deniedSenders: ['0x00000000000000000000000000000000000000Cc'] }
+
+  assert.throws(() => service.reload(reloaded), /bad address checksum/)
+
+  assert.ok(!service.hasChain('5'))
+  await assert.rejects(
+    service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', {}], CHAIN_ID),
+    (error: RpcError) => error.code === RpcErrorCode.SponsorshipRejected
+  )
+  service.close()
+})
+
+test('stub data for a sender the policies refuse is unsigned and already expired', async (t) => {
+  const node = await startMockRpc(Number(CHAIN_ID), {
+    eth_estimateGas: () => ethers.toQuantity(60000),
+    eth_call: () => paymasterInterface(getEntryPointCodec('0.7')).encodeFunctionResult('validatePaymasterUserOp', ['0x', 0])
+  })
+  const config = buildConfig()
+  config.chains[CHAIN_ID].rpc = node.url
+  config.chains[CHAIN_ID].policy = { deniedSenders: [userOp.sender] }
+  const service = new PaymasterService(config)
+  t.after(() => {
+    service.close()
+    return node.close()
+  })
+  const params = [userOp, DEFAULT_ENTRY_POINT, '0x7a69', {}]
+
+  await assert.rejects(service.getPaymasterData(1, params, CHAIN_ID), (error: RpcError) => error.code === RpcErrorCode.SponsorshipRejected)
+  const stub = (await service.getPaymasterStubData(1, params, CHAIN_ID)).result
+
+  const debug = (await service.debugUserOperation(1, [{ ...userOp, ...stub }, DEFAULT_ENTRY_POINT, '0x7a69'], CHAIN_ID)).result
+  assert.equal(debug.signer.match, false)
+  assert.equal(debug.paymasterData.validUntil, 1)
+})
@@ -0,0 +1,196 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import * as http from 'node:http'
+import { mkdtemp, writeFile } from 'node:fs/promises'
+import { AddressInfo } from 'node:net'
+import { tmpdir } from 'node:os'
+import * as path from 'node:path'
+import { ethers } from 'ethers'
+import {
+  KeystoreSigner,
+  MultiSigner,
+  OnChainSignerCheck,
+  RemoteSigner,
+  SignerUnavailableError,
+  WalletSigner
+} from '../../src/services/paymasterSigner.js'
+import { PaymasterService } from '../../src/services/paymasterService.js'
+import { RpcError, RpcErrorCode } from '../../src/errors/rpcError.js'
+import { paymasterAbi } from '../../src/abi/paymaster.js'
+import { DEFAULT_ENTRY_POINT } from '../../src/config/index.js'
+import { startMockRpc } from '../mockRpc.js'
+
+const CHAIN_ID = 31337
+const PAYMASTER = '0x00000000000000000000000000000000000000aa'
+const MESSAGE = ethers.getBytes(ethers.id('paymaster hash'))
+const paymasterInterface = new ethers.Interface(paymasterAbi)
+
+const userOp = {
+  sender: '0x00000000000000000000000000000000000000cc',
+  nonce: '0x0',
+  callData: '0x',
+  callGasLimit: '0x10000',
+  verificationGasLimit: '0x10000',
+  preVerificationGas: '0x10000',
+  maxFeePerGas: '0x3b9aca00',
+  maxPriorityFeePerGas: '0x3b9aca00',
+  paymasterVerificationGasLimit: '0x20000',
+  paymasterPostOpGasLimit: '0x0'
+}
+
+// Stands in for a KMS-backed signing service; `tamper` signs with the wrong key
+async function startMockSigner (
+  t: { after: (fn: () => Promise<void>) => void },
+  wallet: ethers.BaseWallet,
+  tamper = false
+) {
+  const requests: { address: string, message: string, authorization?: string }[] = []
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => { body += chunk })
+    req.on('end', async () => {
+      const request = JSON.parse(body)
+      requests.push({ ...request, authorization: req.headers.authorization })
+      const key = tamper ? ethers.Wallet.createRandom() : wallet
+      res.setHeader('content-type', 'application/json')
+      res.end(JSON.stringify({ signature: await key.signMessage(ethers.getBytes(request.message)) }))
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  t.after(() => new Promise((resolve) => {
+    server.closeAllConnections()
+    server.close(() => resolve())
+  }))
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests }
+}
+
+// A paymaster whose signers(address) view accepts only `authorized`
+async function startPaymasterNode (t: { after: (fn: () => Promise<void>) => void }, authorized: Set<string>) {
+  const node = await startMockRpc(CHAIN_ID, {
+    eth_call: ([tx]) => {
+      const [account] = paymasterInterface.decodeFunctionData('signers', tx.data)
+      return paymasterInterface.encodeFunctionResult('signers', [authorized.has(account)])
+    }
+  })
+  t.after(() => node.close())
+  return node
+}
+
+test('keystore signer knows its address before decrypting and signs with the decrypted key', async () => {
+  const wallet = ethers.Wallet.createRandom()
+  const json = await ethers.encryptKeystoreJson({ address: wallet.address, privateKey: wallet.privateKey }, 'secret', { scrypt: { N: 1 << 10 } })
+  const dir = await mkdtemp(path.join(tmpdir(), 'paymaster-keystore-'))
+  const file = path.join(dir, 'keystore.json')
+  await writeFile(file, json)
+
+  const signer = KeystoreSigner.fromFile(file, 'secret')
+  assert.deepStrictEqual(await signer.getAddresses(), [wallet.address])
+
+  const { signature } = await signer.signMessage(MESSAGE)
+  assert.equal(ethers.verifyMessage(MESSAGE, signature), wallet.address)
+
+  await assert.rejects(KeystoreSigner.fromFile(file, 'wrong').signMessage(MESSAGE))
+})
+
+test('remote signer posts the message and checks the returned signature', async (t) => {
+  const wallet = ethers.Wallet.createRandom()
+  const remote = await startMockSigner(t, wallet)
+  const signer = new RemoteSigner(remote.url, wallet.address, { authorization: 'Bearer token' })
+
+  const { signer: address, signature } = await signer.signMessage(MESSAGE)
+
+  assert.equal(address, wallet.address)
+  assert.equal(ethers.verifyMessage(MESSAGE, signature), wallet.address)
+  assert.deepStrictEqual(remote.requests, [
+    { address: wallet.address, message: ethers.hexlify(MESSAGE), authorization: 'Bearer token' }
+  ])
+})
+
+test('remote signer rejects signatures from another key', async (t) => {
+  const wallet = ethers.Wallet.createRandom()
+  const remote = await startMockSigner(t, wallet, true)
+
+  await assert.rejects(new RemoteSigner(remote.url, wallet.address).signMessage(MESSAGE), /invalid signature/)
+})
+
+test('round robin rotates through signers and skips the ones the filter rejects', async () => {
+  const wallets = [ethers.Wallet.createRandom(), ethers.Wallet.createRandom(), ethers.Wallet.createRandom()]
+  const signer = new MultiSigner(wallets.map((wallet) => new WalletSigner(wallet)), 'roundRobin')
+  const filter = async (address: string) => address !== wallets[1].address
+
+  const used = []
+  for (let i = 0; i < 4; i++) {
+    used.push((await signer.signMessage(MESSAGE, filter)).signer)
+  }
+
+  assert.deepStrictEqual(used, [wallets[0].address, wallets[2].address, wallets[2].address, wallets[0].address])
+})
+
+test('failover falls through to the next signer when one cannot sign', async () => {
+  const primary = ethers.Wallet.createRandom()
+  const backup = ethers.Wallet.createRandom()
+  const signer = new MultiSigner([
+    new RemoteSigner('http://127.0.0.1:1', primary.address, {}, 1000),
+    new WalletSigner(backup)
+  ], 'failover')
+
+  assert.equal((await signer.signMessage(MESSAGE)).signer, backup.address)
+  await assert.rejects(signer.signMessage(MESSAGE, async () => false), SignerUnavailableError)
+})
+
+test('on-chain check caches signers(address) until the TTL expires', async (t) => {
+  const wallet = ethers.Wallet.createRandom()
+  const authorized = new Set([wallet.address])
+  const node = await startPaymasterNode(t, authorized)
+  const provider = new ethers.JsonRpcProvider(node.url, CHAIN_ID, { staticNetwork: true })
+  t.after(() => provider.destroy())
+  const filter = new OnChainSignerCheck(60).filterFor(new ethers.Contract(PAYMASTER, paymasterAbi, provider))
+
+  assert.equal(await filter(wallet.address), true)
+  authorized.delete(wallet.address)
+  assert.equal(await filter(wallet.address), true)
+  assert.equal(node.calls.filter((method) => method === 'eth_call').length, 1)
+})
+
+test('signs with the signer the paymaster still accepts after a rotation', async (t) => {
+  const retired = ethers.Wallet.createRandom()
+  const current = ethers.Wallet.createRandom()
+  const node = await startPaymasterNode(t, new Set([current.address]))
+  const service = new PaymasterService({
+    chains: {
+      [CHAIN_ID]: {
+        paymasterAddress: PAYMASTER,
+        rpc: node.url,
+        signer: {
+          type: 'multi',
+          strategy: 'failover',
+          signers: [
+            { type: 'privateKey', privateKey: retired.privateKey },
+            { type: 'privateKey', privateKey: current.privateKey }
+          ]
+        }
+      }
+    }
+  })
+  const signed = await service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', {}], String(CHAIN_ID))
+  const debug = await service.debugUserOperation(2, [
+    { ...userOp, ...signed.result },
+    DEFAULT_ENTRY_POINT,
+    '0x7a69'
+  ], String(CHAIN_ID))
+
+  assert.equal(debug.result.signer.recovered, current.address)
+})
+
+test('refuses to sign when no signer is authorized on-chain', async (t) => {
+  const node = await startPaymasterNode(t, new Set())
+  const service = new PaymasterService({
+    paymasterPrivateKey: ethers.Wallet.createRandom().privateKey,
+    chains: { [CHAIN_ID]: { paymasterAddress: PAYMASTER, rpc: node.url } }
+  })
+
+  await assert.rejects(
+    service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', {}], String(CHAIN_ID)),
+    (error: unknown) => error instanceof RpcError && error.code === RpcErrorCode.InternalError
+  )
+})
@@ -0,0 +1,109 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { ethers } from 'ethers'
+import { PaymasterService } from '../../src/services/paymasterService.js'
+import { RpcError, RpcErrorCode } from '../../src/errors/rpcError.js'
+import { paymasterAbi } from '../../src/abi/paymaster.js'
+import { DEFAULT_ENTRY_POINT, PaymasterConfig } from '../../src/config/index.js'
+import { startMockRpc } from '../mockRpc.js'
+
+const CHAIN_ID = 31337
+const PAYMASTER = '0x00000000000000000000000000000000000000aa'
+const abiCoder = ethers.AbiCoder.defaultAbiCoder()
+const paymasterInterface = new ethers.Interface(paymasterAbi)
+
+const userOp = {
+  sender: '0x00000000000000000000000000000000000000cc',
+  nonce: '0x0',
+  callData: '0xdeadbeef',
+  callGasLimit: '0x10000',
+  verificationGasLimit: '0x10000',
+  preVerificationGas: '0x10000',
+  maxFeePerGas: '0x3b9aca00',
+  maxPriorityFeePerGas: '0x3b9aca00',
+  paymasterVerificationGasLimit: '0x20000',
+  paymasterPostOpGasLimit: '0x10000'
+}
+
+// What the paymaster contract's getHash computes for a PackedUserOperation
+function contractGetHash (mode: number, op: ethers.Result): string {
+  const paymasterDataLength = 20 + 32 + 1 + (mode === 0 ? 12 : 80)
+  const userOpHash = ethers.keccak256(abiCoder.encode(
+    ['address', 'uint256', 'bytes32', 'uint256', 'bytes32', 'bytes32', 'bytes32', 'bytes32'],
+    [
+      op.sender,
+      op.nonce,
+      op.accountGasLimits,
+      op.preVerificationGas,
+      op.gasFees,
+      ethers.keccak256(op.initCode),
+      ethers.keccak256(op.callData),
+      ethers.keccak256(ethers.dataSlice(op.paymasterAndData, 0, paymasterDataLength))
+    ]
+  ))
+  return ethers.keccak256(abiCoder.encode(['bytes32', 'uint256'], [userOpHash, CHAIN_ID]))
+}
+
+async function startPaymasterNode (t: { after: (fn: () => Promise<void>) => void }, tamper = false) {
+  const node = await startMockRpc(CHAIN_ID, {
+    eth_call: ([tx]) => {
+      if (tx.data.startsWith(paymasterInterface.getFunction('signers')!.selector)) {
+        return paymasterInterface.encodeFunctionResult('signers', [true])
+      }
+      const [mode, op] = paymasterInterface.decodeFunctionData('getHash', tx.data)
+      const hash = tamper ? ethers.ZeroHash : contractGetHash(Number(mode), op)
+      return paymasterInterface.encodeFunctionResult('getHash', [hash])
+    }
+  })
+  t.after(() => node.close())
+  return node
+}
+
+function buildService (rpc: string): PaymasterService {
+  const config: PaymasterConfig = {
+    paymasterPrivateKey: ethers.Wallet.createRandom().privateKey,
+    chains: {
+      [CHAIN_ID]: { paymasterAddress: PAYMASTER, rpc, verification: 'getHash' }
+    }
+  }
+  return new PaymasterService(config)
+}
+
+test('returns paymaster data whose hash matches the on-chain getHash', async (t) => {
+  const node = await startPaymasterNode(t)
+  const service = buildService(node.url)
+
+  const res = await service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', {}], String(CHAIN_ID))
+
+  assert.ok(res.result.paymasterData)
+  assert.ok(node.calls.includes('eth_call'))
+})
+
+test('refuses to return paymaster data when the on-chain hash differs', async (t) => {
+  const node = await startPaymasterNode(t, true)
+  const service = buildService(node.url)
+
+  await assert.rejects(
+    service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', {}], String(CHAIN_ID)),
+    (error: unknown) => error instanceof RpcError && error.code === RpcErrorCode.InternalError
+  )
+})
+
+test('pm_debugUserOperation breaks down both hashes and the signer', async (t) => {
+  const node = await startPaymasterNode(t)
+  const service = buildService(node.url)
+
+  const signed = await service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', {}], String(CHAIN_ID))
+  const res = await service.debugUserOperation(2, [
+    { ...userOp, ...signed.result },
+    DEFAULT_ENTRY_POINT,
+    '0x7a69'
+  ], String(CHAIN_ID))
+  const debug = res.result
+
+  assert.equal(debug.paymasterData.mode, 0)
+  assert.equal(debug.paymasterHash.match, true)
+  assert.equal(debug.signer.match, true)
+  assert.equal(debug.signer.authorized, true)
+  assert.match(debug.userOpHash, /^0x[0-9a-f]{64}$/)
+})
@@ -0,0 +1,93 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { ethers } from 'ethers'
+import { PolicyService } from '../../src/services/policyService.js'
+import { RpcError, RpcErrorCode } from '../../src/errors/rpcError.js'
+import { PaymasterConfig, SponsorshipPolicyConfig } from '../../src/config/index.js'
+import { UserOperation } from '../../src/types/userOperation.js'
+
+const CHAIN_ID = '31337'
+const SENDER = '0x00000000000000000000000000000000000000cc'
+const TARGET = '0x00000000000000000000000000000000000000dd'
+
+const account = new ethers.Interface(['function execute(address dest, uint256 value, bytes func)'])
+const erc20 = new ethers.Interface(['function transfer(address to, uint256 amount)', 'function approve(address spender, uint256 amount)'])
+
+function buildService (policy: SponsorshipPolicyConfig): PolicyService {
+  const config = {
+    paymasterPrivateKey: '',
+    chains: {
+      [CHAIN_ID]: { paymasterAddress: ethers.ZeroAddress, rpc: 'http://127.0.0.1:1', policy }
+    }
+  } as PaymasterConfig
+  return new PolicyService(config)
+}
+
+function buildUserOp (data: string, maxFeePerGas = 1n): UserOperation {
+  return {
+    sender: SENDER,
+    nonce: '0x0',
+    callData: account.encodeFunctionData('execute', [TARGET, 0, data]),
+    callGasLimit: '100000',
+    verificationGasLimit: '100000',
+    preVerificationGas: '50000',
+    maxFeePerGas: maxFeePerGas.toString(),
+    maxPriorityFeePerGas: '1',
+    paymasterVerificationGasLimit: '30000',
+    paymasterPostOpGasLimit: '20000',
+    signature: '0x'
+  }
+}
+
+function isRejection (error: unknown): boolean {
+  return error instanceof RpcError && error.code === RpcErrorCode.SponsorshipRejected
+}
+
+test('rejects denied senders', async () => {
+  const service = buildService({ deniedSenders: [SENDER] })
+  await assert.rejects(service.check(CHAIN_ID, buildUserOp('0x')), isRejection)
+})
+
+test('only sponsors allowed targets and selectors', async () => {
+  const service = buildService({
+    allowedTargets: [TARGET],
+    allowedSelectors: [erc20.getFunction('transfer')!.selector]
+  })
+
+  await service.check(CHAIN_ID, buildUserOp(erc20.encodeFunctionData('transfer', [SENDER, 1])))
+  await assert.rejects(
+    service.check(CHAIN_ID, buildUserOp(erc20.encodeFunctionData('approve', [SENDER, 1]))),
+    isRejection
+  )
+})
+
+test('enforces max gas cost per op', async () => {
+  const service = buildService({ maxGasCostPerOp: '300000' })
+
+  await service.check(CHAIN_ID, buildUserOp('0x', 1n))
+  await assert.rejects(service.check(CHAIN_ID, buildUserOp('0x', 2n)), isRejection)
+})
+
+test('enforces the per-sender daily spend cap across sponsorships', async () => {
+  const service = buildService({ maxSpendPerSenderPerDay: '600000' })
+
+  const first = await service.check(CHAIN_ID, buildUserOp('0x'))
+  await service.reserveSpend(first)
+  const second = await service.check(CHAIN_ID, buildUserOp('0x'))
+  await service.reserveSpend(second)
+
+  await assert.rejects(service.check(CHAIN_ID, buildUserOp('0x')), isRejection)
+})
+
+test('reserves spend atomically, so concurrent ops cannot pass the cap together, and refunds it', async () => {
+  // Each op may cost 300000
+  const service = buildService({ maxSpendPerDay: '600000' })
+
+  const contexts = await Promise.all(Array.from({ length: 10 }, () => service.check(CHAIN_ID, buildUserOp('0x'))))
+  const reserved = await Promise.allSettled(contexts.map((context) => service.reserveSpend(context)))
+
+  assert.equal(reserved.filter((result) => result.status === 'fulfilled').length, 2)
+  await service.refundSpend(contexts[0])
+  await service.reserveSpend(contexts[1])
+  await assert.rejects(service.reserveSpend(contexts[2]), isRejection)
+})
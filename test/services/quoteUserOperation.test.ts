@@ -0,0 +1,138 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { ethers } from 'ethers'
+import { PaymasterService } from '../../src/services/paymasterService.js'
+import { getEntryPointCodec } from '../../src/services/entryPointCodec.js'
+import { paymasterInterface } from '../../src/services/paymasterVerifier.js'
+import { RpcError, RpcErrorCode } from '../../src/errors/rpcError.js'
+import { DEFAULT_ENTRY_POINT, PaymasterConfig, SponsorshipPolicyConfig } from '../../src/config/index.js'
+import { UserOperationQuote, UserOperationQuoteEntry } from '../../src/types/paymaster.js'
+import { startMockRpc } from '../mockRpc.js'
+
+const CHAIN_ID = 31337
+const PAYMASTER = '0x00000000000000000000000000000000000000aa'
+const TOKEN = ethers.getAddress('0x00000000000000000000000000000000000000bb')
+const GWEI = 10n ** 9n
+const iface = paymasterInterface(getEntryPointCodec('0.7'))
+const signersSelector = ethers.id('signers(address)').slice(0, 10)
+
+// Gas fields left out, so the paymaster prices the op itself
+const userOp = {
+  sender: '0x00000000000000000000000000000000000000cc',
+  nonce: '0x0',
+  callData: '0x',
+  callGasLimit: '0x10000',
+  verificationGasLimit: '0x10000',
+  preVerificationGas: '0x10000'
+}
+
+// Validation costs 30000 gas on this stand-in paymaster and gas is 20 gwei
+async function startService (t: { after: (fn: () => Promise<void>) => void }, policy?: SponsorshipPolicyConfig) {
+  const node = await startMockRpc(CHAIN_ID, {
+    eth_estimateGas: ([tx]) => {
+      let gas = 21000 + 30000
+      for (const byte of ethers.getBytes(tx.data)) {
+        gas += byte === 0 ? 4 : 16
+      }
+      return ethers.toQuantity(gas)
+    },
+    eth_call: ([tx]) => tx.data.startsWith(signersSelector)
+      ? ethers.AbiCoder.defaultAbiCoder().encode(['bool'], [true])
+      : iface.encodeFunctionResult('validatePaymasterUserOp', ['0x1234', 0]),
+    eth_gasPrice: () => ethers.toQuantity(20n * GWEI)
+  })
+  const config: PaymasterConfig = {
+    paymasterPrivateKey: ethers.Wallet.createRandom().privateKey,
+    chains: {
+      [CHAIN_ID]: {
+        paymasterAddress: PAYMASTER,
+        rpc: node.url,
+        gasPrice: { legacy: true },
+        tokens: { [TOKEN]: { exchangeRate: '3000000000', postOpGas: 42000 } },
+        policy
+      }
+    }
+  }
+  const service = new PaymasterService(config)
+  t.after(() => {
+    service.close()
+    return node.close()
+  })
+  return { node, service }
+}
+
+test('quotes the gas limits, price and cost of a sponsorable op without signing it', async (t) => {
+  const { service } = await startService(t)
+
+  const res = await service.quoteUserOperation(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', {}], String(CHAIN_ID))
+  const quote = res.result as UserOperationQuote
+
+  // The legacy standard tier bumps the gas price by 10%
+  const feePerGas = 22n * GWEI
+  const maxCost = (0x10000n * 3n + 48000n) * feePerGas
+  assert.equal(quote.sponsorable, true)
+  assert.equal(quote.rejection, null)
+  assert.equal(quote.mode, 'verifying')
+  assert.deepStrictEqual(quote.gasPrice, {
+    maxFeePerGas: ethers.toQuantity(feePerGas),
+    maxPriorityFeePerGas: ethers.toQuantity(feePerGas),
+    source: 'oracle'
+  })
+  assert.equal(quote.gasLimits.paymasterVerificationGasLimit, ethers.toQuantity(48000))
+  assert.equal(quote.maxCost, ethers.toQuantity(maxCost))
+  assert.equal(quote.tokens[0].token, TOKEN)
+  assert.equal(BigInt(quote.tokens[0].maxCostInToken!), (maxCost + 42000n * feePerGas) * 3000000000n / 10n ** 18n)
+  assert.equal('paymasterData' in quote, false)
+  assert.equal(quote.approvalRequired, false)
+})
+
+test('names the policy that would refuse the op and still quotes its cost', async (t) => {
+  const { service } = await startService(t, { maxGasCostPerOp: '1000' })
+
+  const res = await service.quoteUserOperation(1, [
+    { ...userOp, maxFeePerGas: '0x3b9aca00', maxPriorityFeePerGas: '0x3b9aca00' },
+    DEFAULT_ENTRY_POINT,
+    '0x7a69',
+    {}
+  ], String(CHAIN_ID))
+  const quote = res.result as UserOperationQuote
+
+  assert.equal(quote.sponsorable, false)
+  assert.equal(quote.rejection?.policy, 'maxGasCost')
+  assert.match(quote.rejection?.reason ?? '', /exceeds limit 1000/)
+  assert.deepStrictEqual(quote.policies, ['sender', 'call', 'maxGasCost'])
+  assert.equal(quote.gasPrice.source, 'userOp')
+  assert.equal(BigInt(quote.maxCost), (0x10000n * 3n + 48000n) * GWEI)
+})
+
+test('quotes a batch op by op, failing only the invalid ones', async (t) => {
+  const { service } = await startService(t)
+
+  const res = await service.quoteUserOperation(1, [
+    [userOp, { ...userOp, sender: '0x1234' }, { ...userOp, nonce: '0x1' }],
+    DEFAULT_ENTRY_POINT,
+    '0x7a69',
+    { token: TOKEN }
+  ], String(CHAIN_ID))
+  const quotes = res.result as UserOperationQuoteEntry[]
+  const [first, invalid, third] = quotes
+
+  assert.equal(quotes.length, 3)
+  assert.ok('mode' in first && 'error' in invalid && 'sponsorable' in third)
+  assert.equal(first.mode, 'erc20')
+  assert.equal(first.token, TOKEN)
+  assert.equal(invalid.error.code, RpcErrorCode.InvalidParams)
+  assert.deepStrictEqual(invalid.error.data, { field: 'userOp.sender' })
+  assert.equal(third.sponsorable, true)
+})
+
+test('refuses empty and oversized batches', async (t) => {
+  const { service } = await startService(t)
+
+  for (const userOps of [[], Array(21).fill(userOp)]) {
+    await assert.rejects(
+      service.quoteUserOperation(1, [userOps, DEFAULT_ENTRY_POINT, '0x7a69', {}], String(CHAIN_ID)),
+      (error: RpcError) => error.code === RpcErrorCode.InvalidParams
+    )
+  }
+})
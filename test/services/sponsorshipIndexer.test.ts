@@ -0,0 +1,188 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { mkdtemp } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import * as path from 'node:path'
+import { ethers } from 'ethers'
+import { SponsorshipIndexer } from '../../src/services/sponsorshipIndexer.js'
+import { FileLedgerStore, ledgerStream, SponsorshipLedger } from '../../src/services/sponsorshipLedger.js'
+import { PaymasterMode } from '../../src/types/paymaster.js'
+import { paymasterAbi } from '../../src/abi/paymaster.js'
+import { DEFAULT_ENTRY_POINT } from '../../src/config/index.js'
+import { startMockRpc } from '../mockRpc.js'
+
+const CHAIN_ID = 31337
+const PAYMASTER = ethers.getAddress('0x00000000000000000000000000000000000000aa')
+const SENDER = ethers.getAddress('0x00000000000000000000000000000000000000cc')
+const TOKEN = ethers.getAddress('0x00000000000000000000000000000000000000bb')
+const DAY = 86400
+const paymasterInterface = new ethers.Interface(paymasterAbi)
+const entryPointInterface = new ethers.Interface([
+  'event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)'
+])
+
+type ChainLog = { address: string, data: string, topics: string[], blockNumber: number, userOpHash: string }
+
+type Chain = { head: number, fork: string, logs: ChainLog[] }
+
+function blockHash (chain: Chain, blockNumber: number): string {
+  // Blocks from 14 on differ between forks
+  return ethers.id(`${blockNumber >= 14 ? chain.fork : 'main'}:${blockNumber}`)
+}
+
+function sponsoredLog (blockNumber: number, userOpHash: string, mode: PaymasterMode, tokenAmountPaid: bigint) {
+  const { data, topics } = paymasterInterface.encodeEventLog('UserOperationSponsored', [
+    userOpHash, SENDER, mode, mode === PaymasterMode.Erc20 ? TOKEN : ethers.ZeroAddress, tokenAmountPaid, 3000n
+  ])
+  return { address: PAYMASTER, data, topics, blockNumber, userOpHash }
+}
+
+function userOpLog (blockNumber: number, userOpHash: string, actualGasCost: bigint) {
+  const { data, topics } = entryPointInterface.encodeEventLog('UserOperationEvent', [
+    userOpHash, SENDER, PAYMASTER, 0n, true, actualGasCost, 100000n
+  ])
+  return { address: DEFAULT_ENTRY_POINT, data, topics, blockNumber, userOpHash }
+}
+
+async function startChain (t: { after: (fn: () => Promise<void>) => void }, chain: Chain) {
+  const node = await startMockRpc(CHAIN_ID, {
+    eth_blockNumber: () => ethers.toQuantity(chain.head),
+    eth_getBlockByNumber: ([blockNumber]) => Number(blockNumber) > chain.head
+      ? null
+      : { number: blockNumber, hash: blockHash(chain, Number(blockNumber)), timestamp: ethers.toQuantity(Number(blockNumber) * DAY) },
+    eth_getLogs: ([filter]) => chain.logs
+      .filter((log) =>
+        log.address.toLowerCase() === filter.address.toLowerCase() &&
+        log.topics[0] === filter.topics[0] &&
+        log.blockNumber >= Number(filter.fromBlock) &&
+        log.blockNumber <= Number(filter.toBlock))
+      .map((log, i) => ({
+        address: log.address,
+        topics: log.topics,
+        data: log.data,
+        blockNumber: ethers.toQuantity(log.blockNumber),
+        blockHash: blockHash(chain, log.blockNumber),
+        transactionHash: ethers.id(`tx:${log.userOpHash}`),
+        transactionIndex: '0x0',
+        logIndex: ethers.toQuantity(i),
+        removed: false
+      }))
+  })
+  t.after(() => node.close())
+
+  const provider = new ethers.JsonRpcProvider(node.url, CHAIN_ID, { staticNetwork: true })
+  t.after(async () => provider.destroy())
+  return { node, provider }
+}
+
+async function createStore (): Promise<FileLedgerStore> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'paymaster-ledger-'))
+  return new FileLedgerStore(path.join(dir, 'ledger.json'))
+}
+
+function createIndexer (provider: ethers.JsonRpcProvider, store: FileLedgerStore) {
+  return new SponsorshipIndexer(String(CHAIN_ID), provider, [{
+    entryPoint: DEFAULT_ENTRY_POINT,
+    paymasterContract: new ethers.Contract(PAYMASTER, paymasterAbi, provider)
+  }], store, { startBlock: 10, confirmations: 0, maxReorgDepth: 10, batchSize: 4 })
+}
+
+const HASH_A = ethers.id('op a')
+const HASH_B = ethers.id('op b')
+
+test('indexes sponsored events and joins them with signed ops', async (t) => {
+  const chain: Chain = { head: 20, fork: 'main', logs: [] }
+  chain.logs.push(
+    sponsoredLog(12, HASH_A, PaymasterMode.Verifying, 0n),
+    userOpLog(12, HASH_A, 21000n * 10n ** 9n),
+    sponsoredLog(15, HASH_B, PaymasterMode.Erc20, 5000n)
+  )
+  const { provider } = await startChain(t, chain)
+  const store = await createStore()
+  const ledger = new SponsorshipLedger(store)
+  await ledger.recordSignedOp({
+    chainId: String(CHAIN_ID),
+    userOpHash: HASH_A,
+    entryPoint: DEFAULT_ENTRY_POINT,
+    paymaster: PAYMASTER,
+    sender: SENDER,
+    nonce: '0x0',
+    mode: PaymasterMode.Verifying,
+    token: null,
+    maxCost: (10n ** 15n).toString(),
+    project: 'dapp-a',
+    signedAt: new Date(12 * DAY * 1000).toISOString()
+  })
+
+  await createIndexer(provider, store).sync()
+  const entries = await ledger.getEntries(String(CHAIN_ID))
+
+  assert.deepStrictEqual(entries.map((entry) => entry.userOpHash), [HASH_A, HASH_B])
+  assert.equal(entries[0].project, 'dapp-a')
+  assert.equal(entries[0].actualGasCost, (21000n * 10n ** 9n).toString())
+  assert.equal(entries[0].timestamp, new Date(12 * DAY * 1000).toISOString())
+  assert.equal(entries[1].token, TOKEN)
+  assert.equal(entries[1].tokenAmountPaid, '5000')
+  assert.equal(entries[1].project, null)
+  assert.deepStrictEqual(await store.getCheckpoint(ledgerStream(String(CHAIN_ID), PAYMASTER, DEFAULT_ENTRY_POINT)), {
+    blockNumber: 20,
+    blockHash: blockHash(chain, 20)
+  })
+})
+
+test('re-indexes recent blocks when the checkpoint block is reorged out', async (t) => {
+  const chain: Chain = { head: 20, fork: 'main', logs: [] }
+  chain.logs.push(sponsoredLog(12, HASH_A, PaymasterMode.Verifying, 0n), sponsoredLog(15, HASH_B, PaymasterMode.Verifying, 0n))
+  const { provider } = await startChain(t, chain)
+  const store = await createStore()
+  const ledger = new SponsorshipLedger(store)
+  await createIndexer(provider, store).sync()
+
+  // The fork drops op B from block 15 and includes it in block 21 instead
+  chain.fork = 'reorg'
+  chain.head = 22
+  chain.logs = [sponsoredLog(12, HASH_A, PaymasterMode.Verifying, 0n), sponsoredLog(21, HASH_B, PaymasterMode.Verifying, 0n)]
+  await createIndexer(provider, store).sync()
+
+  const entries = await ledger.getEntries(String(CHAIN_ID))
+  assert.deepStrictEqual(entries.map((entry) => [entry.userOpHash, entry.blockNumber]), [[HASH_A, 12], [HASH_B, 21]])
+})
+
+test('resumes from the checkpoint without re-reading indexed blocks', async (t) => {
+  const chain: Chain = { head: 20, fork: 'main', logs: [] }
+  const { node, provider } = await startChain(t, chain)
+  const store = await createStore()
+  await createIndexer(provider, store).sync()
+
+  const before = node.calls.filter((method) => method === 'eth_getLogs').length
+  chain.head = 22
+  await createIndexer(provider, store).sync()
+
+  // One batch for blocks 21-22, read from both contracts
+  assert.equal(node.calls.filter((method) => method === 'eth_getLogs').length - before, 2)
+})
+
+test('summarizes cost per sender, project and day', async (t) => {
+  const chain: Chain = { head: 20, fork: 'main', logs: [] }
+  chain.logs.push(
+    sponsoredLog(12, HASH_A, PaymasterMode.Verifying, 0n),
+    userOpLog(12, HASH_A, 300n),
+    sponsoredLog(13, HASH_B, PaymasterMode.Verifying, 0n),
+    userOpLog(13, HASH_B, 200n)
+  )
+  const { provider } = await startChain(t, chain)
+  const store = await createStore()
+  const ledger = new SponsorshipLedger(store)
+  await createIndexer(provider, store).sync()
+
+  assert.deepStrictEqual(await ledger.summarize(String(CHAIN_ID), 'sender'), [
+    { key: SENDER, token: null, ops: 2, actualGasCost: '500', tokenAmountPaid: '0' }
+  ])
+  assert.deepStrictEqual((await ledger.summarize(String(CHAIN_ID), 'day')).map((row) => [row.key, row.actualGasCost]), [
+    [new Date(12 * DAY * 1000).toISOString().slice(0, 10), '300'],
+    [new Date(13 * DAY * 1000).toISOString().slice(0, 10), '200']
+  ])
+  assert.deepStrictEqual(await ledger.summarize(String(CHAIN_ID), 'day', { fromDay: new Date(13 * DAY * 1000).toISOString().slice(0, 10) }), [
+    { key: new Date(13 * DAY * 1000).toISOString().slice(0, 10), token: null, ops: 1, actualGasCost: '200', tokenAmountPaid: '0' }
+  ])
+})
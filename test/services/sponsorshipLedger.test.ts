@@ -0,0 +1,112 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { mkdtemp, readFile, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import * as path from 'node:path'
+import { ethers } from 'ethers'
+import { FileLedgerStore, ledgerStream, SignedOpRecord, SponsoredEventRecord } from '../../src/services/sponsorshipLedger.js'
+import { PaymasterMode } from '../../src/types/paymaster.js'
+import { DEFAULT_ENTRY_POINT } from '../../src/config/index.js'
+
+const CHAIN_ID = '31337'
+const PAYMASTER = ethers.getAddress('0x00000000000000000000000000000000000000aa')
+const SENDER = ethers.getAddress('0x00000000000000000000000000000000000000cc')
+const STREAM = ledgerStream(CHAIN_ID, PAYMASTER, DEFAULT_ENTRY_POINT)
+
+async function storePath (): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'paymaster-ledger-'))
+  return path.join(dir, 'ledger.jsonl')
+}
+
+function signedOp (userOpHash: string, validUntil: number): SignedOpRecord {
+  return {
+    chainId: CHAIN_ID,
+    userOpHash,
+    entryPoint: DEFAULT_ENTRY_POINT,
+    paymaster: PAYMASTER,
+    sender: SENDER,
+    nonce: '0x0',
+    mode: PaymasterMode.Verifying,
+    token: null,
+    maxCost: '1000',
+    project: null,
+    signedAt: new Date((validUntil - 3600) * 1000).toISOString(),
+    validUntil
+  }
+}
+
+function sponsoredEvent (userOpHash: string, blockNumber: number): SponsoredEventRecord {
+  return {
+    chainId: CHAIN_ID,
+    paymaster: PAYMASTER,
+    entryPoint: DEFAULT_ENTRY_POINT,
+    userOpHash,
+    sender: SENDER,
+    mode: PaymasterMode.Verifying,
+    token: null,
+    tokenAmountPaid: '0',
+    exchangeRate: '0',
+    actualGasCost: '600',
+    success: true,
+    blockNumber,
+    blockHash: ethers.id(`block ${blockNumber}`),
+    transactionHash: ethers.id(`tx ${userOpHash}`),
+    logIndex: 0,
+    timestamp: '2025-03-01T10:00:00.000Z'
+  }
+}
+
+test('appends one line per write and replays them after a restart', async () => {
+  const file = await storePath()
+  const store = new FileLedgerStore(file)
+  const now = Math.floor(Date.now() / 1000)
+
+  await store.recordSignedOp(signedOp(ethers.id('a'), now + 3600))
+  await store.commit(STREAM, 10, [sponsoredEvent(ethers.id('a'), 10)], { blockNumber: 10, blockHash: ethers.id('block 10') })
+  await store.commit(STREAM, 11, [], { blockNumber: 20, blockHash: ethers.id('block 20') })
+
+  const lines = (await readFile(file, 'utf8')).trimEnd().split('\n').map((line) => JSON.parse(line))
+  assert.equal(lines.length, 3)
+
+  const reopened = new FileLedgerStore(file)
+  assert.deepStrictEqual(await reopened.getCheckpoint(STREAM), { blockNumber: 20, blockHash: ethers.id('block 20') })
+  assert.deepStrictEqual((await reopened.getEvents(CHAIN_ID)).map((event) => event.blockNumber), [10])
+  assert.equal((await reopened.getSignedOps(CHAIN_ID)).length, 1)
+})
+
+test('compaction drops reorged events and ops that expired without landing', async () => {
+  const file = await storePath()
+  const store = new FileLedgerStore(file, 4)
+  const longAgo = Math.floor(Date.now() / 1000) - 7 * 86400
+
+  await store.recordSignedOp(signedOp(ethers.id('landed'), longAgo))
+  await store.recordSignedOp(signedOp(ethers.id('expired'), longAgo))
+  await store.commit(STREAM, 10, [sponsoredEvent(ethers.id('landed'), 10), sponsoredEvent(ethers.id('orphaned'), 12)], {
+    blockNumber: 12,
+    blockHash: ethers.id('block 12')
+  })
+  // A reorg replaces block 12 on, which brings the log to four lines and compacts it
+  await store.commit(STREAM, 12, [], { blockNumber: 14, blockHash: ethers.id('block 14') })
+
+  assert.deepStrictEqual((await store.getSignedOps(CHAIN_ID)).map((op) => op.userOpHash), [ethers.id('landed')])
+  assert.deepStrictEqual((await store.getEvents(CHAIN_ID)).map((event) => event.userOpHash), [ethers.id('landed')])
+  assert.deepStrictEqual(await new FileLedgerStore(file).getCheckpoint(STREAM), { blockNumber: 14, blockHash: ethers.id('block 14') })
+  assert.equal((await readFile(file, 'utf8')).trimEnd().split('\n').length, 3)
+})
+
+test('converts a ledger kept as one JSON document', async () => {
+  const file = await storePath()
+  const hash = ethers.id('a')
+  await writeFile(file, JSON.stringify({
+    checkpoints: { [STREAM]: { blockNumber: 10, blockHash: ethers.id('block 10') } },
+    events: { [STREAM]: [sponsoredEvent(hash, 10)] },
+    signedOps: { [`${CHAIN_ID}:${hash}`]: signedOp(hash, 0) }
+  }, null, 2))
+
+  const store = new FileLedgerStore(file)
+
+  assert.deepStrictEqual(await store.getCheckpoint(STREAM), { blockNumber: 10, blockHash: ethers.id('block 10') })
+  assert.deepStrictEqual((await store.getEvents(CHAIN_ID)).map((event) => event.userOpHash), [hash])
+  assert.deepStrictEqual((await store.getSignedOps(CHAIN_ID)).map((op) => op.userOpHash), [hash])
+  assert.ok((await readFile(file, 'utf8')).startsWith('{"op":'))
+})
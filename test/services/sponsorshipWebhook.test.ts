@@ -0,0 +1,150 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import * as http from 'node:http'
+import { mkdtemp, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import * as path from 'node:path'
+import { AddressInfo } from 'node:net'
+import { ethers } from 'ethers'
+import { PaymasterService } from '../../src/services/paymasterService.js'
+import { signWebhookPayload, SponsorshipWebhookRequest } from '../../src/services/sponsorshipWebhook.js'
+import { RpcError, RpcErrorCode } from '../../src/errors/rpcError.js'
+import { DEFAULT_ENTRY_POINT, PaymasterConfig, SponsorshipWebhookConfig } from '../../src/config/index.js'
+
+const CHAIN_ID = '31337'
+const PAYMASTER = '0x00000000000000000000000000000000000000aa'
+const SECRET = 'webhook-secret'
+
+const userOp = {
+  sender: '0x00000000000000000000000000000000000000cc',
+  nonce: '0x0',
+  callData: '0x',
+  callGasLimit: '0x10000',
+  verificationGasLimit: '0x10000',
+  preVerificationGas: '0x10000',
+  maxFeePerGas: '0x3b9aca00',
+  maxPriorityFeePerGas: '0x3b9aca00',
+  paymasterVerificationGasLimit: '0x20000',
+  paymasterPostOpGasLimit: '0x10000'
+}
+
+type WebhookRequest = { headers: http.IncomingHttpHeaders, body: string }
+
+// A partner service answering each approval request with `reply`, or never when it returns undefined
+async function startWebhook (
+  t: { after: (fn: () => Promise<void>) => void },
+  reply: (request: SponsorshipWebhookRequest) => { status?: number, body: unknown } | undefined
+) {
+  const requests: WebhookRequest[] = []
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => { body += chunk })
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body })
+      const answer = reply(JSON.parse(body))
+      if (answer) {
+        res.statusCode = answer.status ?? 200
+        res.setHeader('content-type', 'application/json')
+        res.end(JSON.stringify(answer.body))
+      }
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  t.after(() => new Promise((resolve) => {
+    server.closeAllConnections()
+    server.close(() => resolve())
+  }))
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests }
+}
+
+async function buildService (sponsorshipWebhook?: SponsorshipWebhookConfig, projectWebhook?: SponsorshipWebhookConfig) {
+  const dir = await mkdtemp(path.join(tmpdir(), 'paymaster-webhook-'))
+  const keysFile = path.join(dir, 'keys.json')
+  await writeFile(keysFile, JSON.stringify({ keys: { 'key-1': { project: 'dapp-a', sponsorshipWebhook: projectWebhook } } }))
+  const config: PaymasterConfig = {
+    paymasterPrivateKey: ethers.Wallet.createRandom().privateKey,
+    apiKeys: { storePath: keysFile },
+    ledger: { storePath: path.join(dir, 'ledger.json') },
+    chains: {
+      [CHAIN_ID]: {
+        paymasterAddress: PAYMASTER,
+        rpc: 'http://127.0.0.1:1',
+        signerCheck: { enabled: false },
+        sponsorshipWebhook
+      }
+    }
+  }
+  return new PaymasterService(config)
+}
+
+function requestData (service: PaymasterService, context: object = {}) {
+  return service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', context], CHAIN_ID)
+}
+
+test('signs ops the webhook approves and records its decision', async (t) => {
+  const webhook = await startWebhook(t, () => ({ body: { approved: true, metadata: { userId: 'u-1' } } }))
+  const service = await buildService({ url: webhook.url, secret: SECRET })
+
+  const res = await requestData(service, { sponsorshipPolicyId: 'campaign-1' })
+
+  assert.ok(res.result.paymasterData)
+  const [{ headers, body }] = webhook.requests
+  assert.equal(headers['x-paymaster-signature'], signWebhookPayload(SECRET, headers['x-paymaster-timestamp'] as string, body))
+  const payload = JSON.parse(body)
+  assert.equal(payload.sender, ethers.getAddress(userOp.sender))
+  assert.equal(payload.userOp.callGasLimit, userOp.callGasLimit)
+  assert.deepStrictEqual(payload.context, { sponsorshipPolicyId: 'campaign-1' })
+
+  const [op] = await service.ledger!.store.getSignedOps(CHAIN_ID)
+  assert.equal(op.approval?.approved, true)
+  assert.equal(op.approval?.source, 'webhook')
+  assert.deepStrictEqual(op.approval?.metadata, { userId: 'u-1' })
+})
+
+test('refuses ops the webhook denies, with its reason', async (t) => {
+  const webhook = await startWebhook(t, () => ({ body: { approved: false, reason: 'unknown user' } }))
+  const service = await buildService({ url: webhook.url, secret: SECRET })
+
+  await assert.rejects(requestData(service), (error: RpcError) => {
+    assert.equal(error.code, RpcErrorCode.SponsorshipRejected)
+    assert.match(error.message, /unknown user/)
+    assert.deepStrictEqual(error.data, { policy: 'webhook' })
+    return true
+  })
+  assert.deepStrictEqual(await service.ledger!.store.getSignedOps(CHAIN_ID), [])
+})
+
+test('refuses ops when the webhook times out unless it fails open', async (t) => {
+  const webhook = await startWebhook(t, () => undefined)
+
+  const closed = await buildService({ url: webhook.url, secret: SECRET, timeoutMs: 100 })
+  await assert.rejects(requestData(closed), (error: RpcError) => error.code === RpcErrorCode.SponsorshipRejected)
+
+  const open = await buildService({ url: webhook.url, secret: SECRET, timeoutMs: 100, failOpen: true })
+  await requestData(open)
+  const [op] = await open.ledger!.store.getSignedOps(CHAIN_ID)
+  assert.equal(op.approval?.approved, true)
+  assert.equal(op.approval?.source, 'failOpen')
+})
+
+test('treats an error status or malformed answer as a failure', async (t) => {
+  let answer: { status?: number, body: unknown } = { status: 500, body: {} }
+  const webhook = await startWebhook(t, () => answer)
+  const service = await buildService({ url: webhook.url, secret: SECRET })
+
+  await assert.rejects(requestData(service), /no usable answer/)
+  answer = { body: { approved: 'yes' } }
+  await assert.rejects(requestData(service), /no usable answer/)
+})
+
+test('asks the API key project\'s webhook in place of the chain\'s', async (t) => {
+  const chainWebhook = await startWebhook(t, () => ({ body: { approved: false } }))
+  const projectWebhook = await startWebhook(t, () => ({ body: { approved: true } }))
+  const service = await buildService({ url: chainWebhook.url, secret: SECRET }, { url: projectWebhook.url, secret: SECRET })
+
+  const project = await service.authenticate('key-1', CHAIN_ID)
+  await service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', {}], CHAIN_ID, project)
+
+  assert.equal(chainWebhook.requests.length, 0)
+  assert.equal(JSON.parse(projectWebhook.requests[0].body).project, 'dapp-a')
+})
@@ -0,0 +1,96 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { mkdtemp, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import * as path from 'node:path'
+import { ethers } from 'ethers'
+import { PaymasterService } from '../../src/services/paymasterService.js'
+import { RpcError, RpcErrorCode } from '../../src/errors/rpcError.js'
+import { chainKey, ChainConfig, DEFAULT_ENTRY_POINT, PaymasterConfig } from '../../src/config/index.js'
+
+const CHAIN_ID = '31337'
+const SENDER = '0x00000000000000000000000000000000000000cc'
+
+const userOp = {
+  sender: SENDER,
+  nonce: '0x0',
+  callData: '0x',
+  callGasLimit: '0x10000',
+  verificationGasLimit: '0x10000',
+  preVerificationGas: '0x10000',
+  maxFeePerGas: '0x3b9aca00',
+  maxPriorityFeePerGas: '0x3b9aca00',
+  paymasterVerificationGasLimit: '0x20000',
+  paymasterPostOpGasLimit: '0x10000'
+}
+
+function chain (paymasterAddress: string, extra: Partial<ChainConfig> = {}): ChainConfig {
+  return { paymasterAddress, rpc: 'http://127.0.0.1:1', signerCheck: { enabled: false }, ...extra }
+}
+
+// Two products sharing a chain with the top-level deployment, each with its own paymaster and signer
+const defaultKey = ethers.Wallet.createRandom()
+const gameKey = ethers.Wallet.createRandom()
+const config: PaymasterConfig = {
+  paymasterPrivateKey: defaultKey.privateKey,
+  chains: { [CHAIN_ID]: chain('0x00000000000000000000000000000000000000aa') },
+  tenants: {
+    game: {
+      paymasterPrivateKey: gameKey.privateKey,
+      chains: { [CHAIN_ID]: chain('0x00000000000000000000000000000000000000bb') }
+    },
+    wallet: {
+      chains: { [CHAIN_ID]: chain('0x00000000000000000000000000000000000000dd', { policy: { deniedSenders: [SENDER] } }) }
+    }
+  }
+}
+
+function requestData (service: PaymasterService, chainId: string) {
+  return service.getPaymasterData(1, [userOp, DEFAULT_ENTRY_POINT, '0x7a69', {}], chainId)
+}
+
+test('serves each tenant\'s chain with its own paymaster and signer', async (t) => {
+  const service = new PaymasterService(config)
+  t.after(() => service.close())
+
+  const game = chainKey(CHAIN_ID, 'game')
+  assert.equal(game, 'game/31337')
+  assert.ok(service.hasChain(CHAIN_ID) && service.hasChain(game) && service.hasChain(chainKey(CHAIN_ID, 'wallet')))
+  assert.equal(service.hasChain(chainKey(CHAIN_ID, 'unknown')), false)
+
+  assert.equal((await requestData(service, CHAIN_ID)).result.paymaster, '0x00000000000000000000000000000000000000aa')
+  assert.equal((await requestData(service, game)).result.paymaster, '0x00000000000000000000000000000000000000bb')
+  assert.deepStrictEqual(await service.getSignerAddresses(CHAIN_ID), [defaultKey.address])
+  assert.deepStrictEqual(await service.getSignerAddresses(game), [gameKey.address])
+  // A tenant without a signer of its own uses the top-level one
+  assert.deepStrictEqual(await service.getSignerAddresses(chainKey(CHAIN_ID, 'wallet')), [defaultKey.address])
+  assert.equal((await service.getChainId(1, game)).result, '0x7a69')
+})
+
+test('applies a tenant\'s policies to its chains only', async (t) => {
+  const service = new PaymasterService(config)
+  t.after(() => service.close())
+
+  await requestData(service, chainKey(CHAIN_ID, 'game'))
+  await assert.rejects(requestData(service, chainKey(CHAIN_ID, 'wallet')), (error: RpcError) => {
+    assert.equal(error.code, RpcErrorCode.SponsorshipRejected)
+    assert.deepStrictEqual(error.data, { policy: 'sender' })
+    return true
+  })
+})
+
+test('rejects an API key on the chains of a tenant it is not allowed', async (t) => {
+  const dir = await mkdtemp(path.join(tmpdir(), 'paymaster-tenants-'))
+  const keysFile = path.join(dir, 'keys.json')
+  await writeFile(keysFile, JSON.stringify({ keys: { 'game-key': { project: 'game-dapp', allowedTenants: ['game'] } } }))
+  const service = new PaymasterService({ ...config, apiKeys: { storePath: keysFile } })
+  t.after(() => service.close())
+
+  assert.equal((await service.authenticate('game-key', chainKey(CHAIN_ID, 'game')))?.project, 'game-dapp')
+  assert.equal((await service.authenticate('game-key', CHAIN_ID))?.project, 'game-dapp')
+  await assert.rejects(service.authenticate('game-key', chainKey(CHAIN_ID, 'wallet')), (error: RpcError) => {
+    assert.equal(error.code, RpcErrorCode.Unauthorized)
+    assert.match(error.message, /tenant wallet/)
+    return true
+  })
+})
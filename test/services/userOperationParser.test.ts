@@ -0,0 +1,89 @@
+import { test } from 'node:test'
+import * as assert from 'node:assert'
+import { ethers } from 'ethers'
+import { RpcError, RpcErrorCode } from '../../src/errors/rpcError.js'
+import { getEntryPointCodec } from '../../src/services/entryPointCodec.js'
+import { packUserOperation, parseUserOperation, unpackUserOperation } from '../../src/services/userOperationParser.js'
+
+const userOp = {
+  sender: '0x00000000000000000000000000000000000000cc',
+  nonce: '0x5',
+  factory: '0x00000000000000000000000000000000000000ff',
+  factoryData: '0x1234',
+  callData: '0xdeadbeef',
+  callGasLimit: '0x10000',
+  verificationGasLimit: '0x20000',
+  preVerificationGas: '0x30000',
+  maxFeePerGas: '0x3b9aca00',
+  maxPriorityFeePerGas: '0x1000',
+  paymaster: '0x00000000000000000000000000000000000000AA',
+  paymasterVerificationGasLimit: '0x4000',
+  paymasterPostOpGasLimit: '0x5000',
+  paymasterData: '0x01',
+  signature: '0x'
+}
+
+function invalidField (field: string) {
+  return (error: unknown) =>
+    error instanceof RpcError &&
+    error.code === RpcErrorCode.InvalidParams &&
+    (error.data as { field: string }).field === field &&
+    error.message.includes(field)
+}
+
+test('names the field that fails the schema', () => {
+  assert.throws(() => parseUserOperation({ ...userOp, callGasLimit: '12' }, '0.7', 'final'), invalidField('userOp.callGasLimit'))
+  assert.throws(() => parseUserOperation({ ...userOp, sender: '0x1234' }, '0.7', 'final'), invalidField('userOp.sender'))
+  assert.throws(() => parseUserOperation({ ...userOp, maxFeePerGas: 7 }, '0.7', 'final'), invalidField('userOp.maxFeePerGas'))
+  assert.throws(() => parseUserOperation('0x', '0.7', 'final'), invalidField('userOp'))
+})
+
+test('rejects addresses with a bad checksum', () => {
+  const checksummed = ethers.getAddress('0x' + 'ab'.repeat(20))
+  // Only the case of the first letter flipped
+  const badChecksum = checksummed.replace(/[a-f]/, (letter) => letter.toUpperCase())
+  const eip7702Auth = { chainId: '0x1', address: badChecksum, nonce: '0x0', yParity: '0x0', r: '0x0', s: '0x0' }
+
+  assert.throws(() => parseUserOperation({ ...userOp, sender: badChecksum }, '0.7', 'final'), invalidField('userOp.sender'))
+  assert.throws(() => parseUserOperation({ ...userOp, factory: badChecksum }, '0.7', 'final'), invalidField('userOp.factory'))
+  assert.throws(() => parseUserOperation({ ...userOp, paymaster: badChecksum }, '0.7', 'final'), invalidField('userOp.paymaster'))
+  assert.throws(
+    () => parseUserOperation({ ...userOp, factory: '0x7702', eip7702Auth }, '0.8', 'final'),
+    invalidField('userOp.eip7702Auth.address')
+  )
+  assert.ok(parseUserOperation({ ...userOp, sender: checksummed, factory: checksummed.toLowerCase() }, '0.7', 'final'))
+})
+
+test('requires callData and, on final ops, every gas field', () => {
+  const { callData, ...withoutCallData } = userOp
+  const { paymasterPostOpGasLimit, preVerificationGas, ...stubOp } = userOp
+
+  assert.throws(() => parseUserOperation(withoutCallData, '0.7', 'stub'), invalidField('userOp.callData'))
+  assert.throws(() => parseUserOperation(stubOp, '0.7', 'final'), invalidField('userOp.preVerificationGas'))
+  assert.equal(parseUserOperation(stubOp, '0.7', 'stub').preVerificationGas, '0x0')
+})
+
+test('rejects fields of another EntryPoint version', () => {
+  const { factory, factoryData, paymaster, paymasterData, paymasterVerificationGasLimit, paymasterPostOpGasLimit, ...common } = userOp
+
+  assert.throws(() => parseUserOperation({ ...userOp, initCode: '0x' }, '0.7', 'stub'), invalidField('userOp.initCode'))
+  assert.throws(() => parseUserOperation(userOp, '0.6', 'stub'), invalidField('userOp.factory'))
+  assert.deepStrictEqual(parseUserOperation(common, '0.6', 'final'), { ...common, initCode: '0x', paymasterAndData: '0x' })
+})
+
+test('limits packed v0.7 gas fields to uint128', () => {
+  assert.throws(
+    () => parseUserOperation({ ...userOp, callGasLimit: '0x1' + '0'.repeat(32) }, '0.7', 'final'),
+    invalidField('userOp.callGasLimit')
+  )
+  assert.ok(parseUserOperation({ sender: userOp.sender, nonce: '0x0', callData: '0x', callGasLimit: '0x1' + '0'.repeat(32) }, '0.6', 'stub'))
+})
+
+test('packs and unpacks v0.7 ops losslessly', () => {
+  const codec = getEntryPointCodec('0.7')
+  const packed = packUserOperation(userOp)
+
+  assert.equal(packed.initCode, '0x00000000000000000000000000000000000000ff1234')
+  assert.equal(packed.paymasterAndData, codec.packPaymasterAndData(userOp.paymaster, 0x4000, 0x5000, '0x01'))
+  assert.deepStrictEqual(unpackUserOperation(packed), { ...userOp, paymaster: ethers.getAddress(userOp.paymaster) })
+})